@@ -14,6 +14,12 @@ import ResetPassword from "./pages/ResetPassword";
 import Dashboard from "./pages/Dashboard";
 import SalesTransactions from "./pages/SalesTransactions";
 import ManageUsers from "./pages/ManageUsers";
+import TaxSettings from "./pages/TaxSettings";
+import NumberingSettings from "./pages/NumberingSettings";
+import ImportSales from "./pages/ImportSales";
+import SalesTrash from "./pages/SalesTrash";
+import SaleTemplates from "./pages/SaleTemplates";
+import AuditLog from "./pages/AuditLog";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient({
@@ -64,6 +70,54 @@ const App = () => {
                     </ProtectedRoute>
                   } 
                 />
+                <Route 
+                  path="/tax-settings" 
+                  element={
+                    <ProtectedRoute>
+                      <TaxSettings />
+                    </ProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="/numbering" 
+                  element={
+                    <ProtectedRoute>
+                      <NumberingSettings />
+                    </ProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="/import-sales" 
+                  element={
+                    <ProtectedRoute>
+                      <ImportSales />
+                    </ProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="/trash" 
+                  element={
+                    <ProtectedRoute>
+                      <SalesTrash />
+                    </ProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="/templates" 
+                  element={
+                    <ProtectedRoute>
+                      <SaleTemplates />
+                    </ProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="/audit" 
+                  element={
+                    <ProtectedRoute requireAdmin>
+                      <AuditLog />
+                    </ProtectedRoute>
+                  } 
+                />
                 <Route path="/" element={<Navigate to="/dashboard" replace />} />
                 <Route path="*" element={<NotFound />} />
               </Routes>
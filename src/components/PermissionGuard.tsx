@@ -0,0 +1,41 @@
+import React from 'react';
+import { SalesPermission, useSalesPermissions } from '@/hooks/use-sales-permissions';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+type PermissionGuardProps = {
+  permission: SalesPermission;
+  // 'disable' keeps the control visible with a tooltip explaining why it is blocked
+  fallback?: 'disable' | 'hide';
+  children: React.ReactElement;
+};
+
+const PermissionGuard: React.FC<PermissionGuardProps> = ({ permission, fallback = 'disable', children }) => {
+  const { can, reasonFor } = useSalesPermissions();
+
+  if (can(permission)) {
+    return children;
+  }
+
+  if (fallback === 'hide') {
+    return null;
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span tabIndex={0} className="inline-flex cursor-not-allowed" aria-label={reasonFor(permission) || undefined}>
+          {React.cloneElement(children, {
+            disabled: true,
+            onClick: undefined,
+            'aria-disabled': true,
+          })}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-[260px]">
+        {reasonFor(permission)}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default PermissionGuard;
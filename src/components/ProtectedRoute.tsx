@@ -3,13 +3,16 @@ import React, { useEffect } from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Skeleton } from '@/components/ui/skeleton';
+import { CommandPalette } from '@/components/command-palette';
 
 type ProtectedRouteProps = {
   children: React.ReactNode;
+  // Send signed-in users who are not admins to the dashboard
+  requireAdmin?: boolean;
 };
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { user, isLoading } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requireAdmin = false }) => {
+  const { user, isLoading, isAdmin, isRoleLoading } = useAuth();
   const location = useLocation();
 
   // Add debugging console logs
@@ -18,7 +21,7 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     console.log('ProtectedRoute - isLoading:', isLoading);
   }, [user, isLoading]);
 
-  if (isLoading) {
+  if (isLoading || (requireAdmin && isRoleLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="w-full max-w-md p-8">
@@ -37,8 +40,17 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
+  if (requireAdmin && !isAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
   console.log('ProtectedRoute - Access granted, rendering children');
-  return <>{children}</>;
+  return (
+    <>
+      {children}
+      <CommandPalette />
+    </>
+  );
 };
 
 export default ProtectedRoute;
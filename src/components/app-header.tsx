@@ -4,7 +4,7 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { ThemeToggle } from '@/components/theme-toggle';
-import { Menu, LogOut, Users } from 'lucide-react';
+import { Menu, LogOut, Users, Percent, Upload, Trash2, Repeat, History, Hash } from 'lucide-react';
 import {
   Sheet,
   SheetContent,
@@ -66,6 +66,54 @@ export function AppHeader({ currentPath = '' }: AppHeaderProps) {
             Manage Users
           </Button>
           
+          {isAdmin && (
+            <Button variant="ghost" onClick={() => navigate('/tax-settings')} 
+              className={currentPath === '/tax-settings' ? "font-semibold text-primary" : ""}>
+              <Percent className="mr-2 h-4 w-4" />
+              Tax
+            </Button>
+          )}
+          
+          {isAdmin && (
+            <Button variant="ghost" onClick={() => navigate('/numbering')} 
+              className={currentPath === '/numbering' ? "font-semibold text-primary" : ""}>
+              <Hash className="mr-2 h-4 w-4" />
+              Numbering
+            </Button>
+          )}
+          
+          {isAdmin && (
+            <Button variant="ghost" onClick={() => navigate('/import-sales')} 
+              className={currentPath === '/import-sales' ? "font-semibold text-primary" : ""}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+          )}
+          
+          {isAdmin && (
+            <Button variant="ghost" onClick={() => navigate('/templates')} 
+              className={currentPath === '/templates' ? "font-semibold text-primary" : ""}>
+              <Repeat className="mr-2 h-4 w-4" />
+              Templates
+            </Button>
+          )}
+          
+          {isAdmin && (
+            <Button variant="ghost" onClick={() => navigate('/audit')} 
+              className={currentPath === '/audit' ? "font-semibold text-primary" : ""}>
+              <History className="mr-2 h-4 w-4" />
+              Audit
+            </Button>
+          )}
+          
+          {isAdmin && (
+            <Button variant="ghost" onClick={() => navigate('/trash')} 
+              className={currentPath === '/trash' ? "font-semibold text-primary" : ""}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Trash
+            </Button>
+          )}
+          
           <span className="text-sm text-muted-foreground">
             Welcome, {user?.user_metadata?.name || user?.email}
           </span>
@@ -131,6 +179,90 @@ export function AppHeader({ currentPath = '' }: AppHeaderProps) {
                   Manage Users
                 </Button>
                 
+                {isAdmin && (
+                  <Button 
+                    variant="ghost" 
+                    className="justify-start" 
+                    onClick={() => {
+                      navigate('/tax-settings');
+                      setIsOpen(false);
+                    }}
+                  >
+                    <Percent className="mr-2 h-4 w-4" />
+                    Tax
+                  </Button>
+                )}
+                
+                {isAdmin && (
+                  <Button 
+                    variant="ghost" 
+                    className="justify-start" 
+                    onClick={() => {
+                      navigate('/numbering');
+                      setIsOpen(false);
+                    }}
+                  >
+                    <Hash className="mr-2 h-4 w-4" />
+                    Numbering
+                  </Button>
+                )}
+                
+                {isAdmin && (
+                  <Button 
+                    variant="ghost" 
+                    className="justify-start" 
+                    onClick={() => {
+                      navigate('/import-sales');
+                      setIsOpen(false);
+                    }}
+                  >
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import
+                  </Button>
+                )}
+                
+                {isAdmin && (
+                  <Button 
+                    variant="ghost" 
+                    className="justify-start" 
+                    onClick={() => {
+                      navigate('/templates');
+                      setIsOpen(false);
+                    }}
+                  >
+                    <Repeat className="mr-2 h-4 w-4" />
+                    Templates
+                  </Button>
+                )}
+                
+                {isAdmin && (
+                  <Button 
+                    variant="ghost" 
+                    className="justify-start" 
+                    onClick={() => {
+                      navigate('/audit');
+                      setIsOpen(false);
+                    }}
+                  >
+                    <History className="mr-2 h-4 w-4" />
+                    Audit
+                  </Button>
+                )}
+                
+                {isAdmin && (
+                  <Button 
+                    variant="ghost" 
+                    className="justify-start" 
+                    onClick={() => {
+                      navigate('/trash');
+                      setIsOpen(false);
+                    }}
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Trash
+                  </Button>
+                )}
+                
                 <Button 
                   variant="ghost" 
                   className="justify-start text-destructive"
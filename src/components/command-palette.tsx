@@ -0,0 +1,220 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  BarChart3,
+  Hash,
+  History,
+  Moon,
+  Package,
+  Percent,
+  Plus,
+  Receipt,
+  Repeat,
+  Trash2,
+  Upload,
+  User,
+  Users,
+} from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { useTheme } from '@/components/theme-provider';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSalesPermissions } from '@/hooks/use-sales-permissions';
+import { CommandSearchKind, CommandSearchResult, searchRecords } from '@/services/commandSearchService';
+import { DEFAULT_SALES_LIST_STATE, toSalesListParams } from '@/utils/salesListParams';
+import { SalesFilters } from '@/services/salesService';
+
+// Navigation state the sales page acts on when it is opened from the palette
+export interface SalesNavigationState {
+  expandTransaction?: string;
+  newSale?: boolean;
+}
+
+const GROUP_HEADINGS: Record<CommandSearchKind, string> = {
+  sale: 'Transactions',
+  customer: 'Customers',
+  product: 'Products',
+  employee: 'Employees'
+};
+
+const KIND_ICONS: Record<CommandSearchKind, typeof Receipt> = {
+  sale: Receipt,
+  customer: User,
+  product: Package,
+  employee: Users
+};
+
+// The sales list filter that shows a record's sales
+const KIND_FILTERS: Record<Exclude<CommandSearchKind, 'sale'>, keyof SalesFilters> = {
+  customer: 'custno',
+  product: 'prodcode',
+  employee: 'empno'
+};
+
+const salesListPath = (state: Partial<typeof DEFAULT_SALES_LIST_STATE>) => {
+  const search = toSalesListParams({ ...DEFAULT_SALES_LIST_STATE, ...state }).toString();
+  return `/sales-transactions${search ? `?${search}` : ''}`;
+};
+
+/**
+ * Ctrl/Cmd+K palette for jumping to a transaction, customer, product or employee, or
+ * running a common action. Mounted once for every protected route.
+ */
+export function CommandPalette() {
+  const navigate = useNavigate();
+  const { isAdmin } = useAuth();
+  const { can } = useSalesPermissions();
+  const { theme, setTheme } = useTheme();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<CommandSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const latestSearch = useRef(0);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) {
+      setQuery('');
+      setResults([]);
+    }
+  }, [open]);
+
+  // Search once typing pauses; only the latest search may update the results
+  useEffect(() => {
+    const term = query.trim();
+    const searchId = ++latestSearch.current;
+
+    if (term.length < 2) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timeout = setTimeout(() => {
+      searchRecords(term)
+        .then(found => {
+          if (searchId === latestSearch.current) setResults(found);
+        })
+        .catch(error => console.error('Error searching records:', error))
+        .finally(() => {
+          if (searchId === latestSearch.current) setSearching(false);
+        });
+    }, 250);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const run = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  const openResult = (result: CommandSearchResult) => run(() => {
+    if (result.kind === 'sale') {
+      const state: SalesNavigationState = { expandTransaction: result.id };
+      navigate(salesListPath({ searchTerm: result.id, searchField: 'transno' }), { state });
+    } else {
+      navigate(salesListPath({ filters: { [KIND_FILTERS[result.kind]]: result.id } }));
+    }
+  });
+
+  const pages = [
+    { label: 'Dashboard', path: '/dashboard', icon: BarChart3, show: true },
+    { label: 'Sales transactions', path: '/sales-transactions', icon: Receipt, show: true },
+    { label: 'Manage users', path: '/manage-users', icon: Users, show: isAdmin },
+    { label: 'Tax settings', path: '/tax-settings', icon: Percent, show: isAdmin },
+    { label: 'Numbering', path: '/numbering', icon: Hash, show: isAdmin },
+    { label: 'Import sales', path: '/import-sales', icon: Upload, show: isAdmin },
+    { label: 'Sale templates', path: '/templates', icon: Repeat, show: isAdmin },
+    { label: 'Audit log', path: '/audit', icon: History, show: isAdmin },
+    { label: 'Trash', path: '/trash', icon: Trash2, show: isAdmin }
+  ].filter(page => page.show);
+
+  const kinds = (Object.keys(GROUP_HEADINGS) as CommandSearchKind[])
+    .filter(kind => results.some(result => result.kind === kind));
+
+  return (
+    <CommandDialog open={open} onOpenChange={setOpen}>
+      <CommandInput
+        placeholder="Search transactions, customers, products, employees..."
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList>
+        <CommandEmpty>{searching ? 'Searching...' : 'No results found.'}</CommandEmpty>
+
+        {kinds.map(kind => {
+          const Icon = KIND_ICONS[kind];
+          return (
+            <CommandGroup key={kind} heading={GROUP_HEADINGS[kind]}>
+              {results.filter(result => result.kind === kind).map(result => (
+                <CommandItem
+                  key={`${kind}-${result.id}`}
+                  value={`${kind} ${result.id} ${result.label} ${result.detail || ''}`}
+                  onSelect={() => openResult(result)}
+                >
+                  <Icon className="mr-2 h-4 w-4" />
+                  <span>{result.label}</span>
+                  {result.detail && <span className="ml-2 truncate text-muted-foreground">{result.detail}</span>}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          );
+        })}
+
+        {kinds.length > 0 && <CommandSeparator />}
+
+        <CommandGroup heading="Actions">
+          {can('can_add_sales') && (
+            <CommandItem
+              value="new sale transaction"
+              onSelect={() => run(() => {
+                const state: SalesNavigationState = { newSale: true };
+                navigate('/sales-transactions', { state });
+              })}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              New sale
+            </CommandItem>
+          )}
+          <CommandItem
+            value="toggle theme dark light"
+            onSelect={() => run(() => setTheme(theme === 'dark' ? 'light' : 'dark'))}
+          >
+            <Moon className="mr-2 h-4 w-4" />
+            Toggle theme
+          </CommandItem>
+        </CommandGroup>
+
+        <CommandGroup heading="Go to">
+          {pages.map(page => (
+            <CommandItem key={page.path} value={`go to ${page.label}`} onSelect={() => run(() => navigate(page.path))}>
+              <page.icon className="mr-2 h-4 w-4" />
+              {page.label}
+              <CommandShortcut>{page.path}</CommandShortcut>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+}
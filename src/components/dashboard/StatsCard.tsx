@@ -8,9 +8,10 @@ interface StatsCardProps {
   icon: LucideIcon;
   iconColor: string;
   iconBgColor: string;
+  description?: string;
 }
 
-export function StatsCard({ title, value, icon: Icon, iconColor, iconBgColor }: StatsCardProps) {
+export function StatsCard({ title, value, icon: Icon, iconColor, iconBgColor, description }: StatsCardProps) {
   return (
     <Card>
       <CardContent className="flex flex-col p-6">
@@ -21,6 +22,7 @@ export function StatsCard({ title, value, icon: Icon, iconColor, iconBgColor }:
           </div>
         </div>
         <h3 className="text-2xl font-bold">{value}</h3>
+        {description && <p className="text-xs text-muted-foreground mt-1">{description}</p>}
       </CardContent>
     </Card>
   );
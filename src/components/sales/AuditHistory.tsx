@@ -0,0 +1,254 @@
+import { Fragment, useState } from "react";
+import { ChevronDown, ChevronRight, History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AuditLogEntry } from "@/integrations/supabase/client";
+import {
+  AuditFieldChange,
+  auditTransno,
+  diffAuditEntry,
+  LINE_FIELD_LABELS,
+  LINE_KIND_LABELS,
+  reconstructSale,
+  SALE_FIELD_LABELS
+} from "@/utils/auditDiff";
+import { formatCurrency } from "@/utils/formatters";
+
+interface AuditHistoryProps {
+  // Entries to list, newest first
+  entries: AuditLogEntry[];
+  // Every entry loaded, used to rebuild a transaction as it was at an entry
+  allEntries: AuditLogEntry[];
+  customers: { value: string; label: string }[];
+  employees: { value: string; label: string }[];
+}
+
+const ACTION_CLASSES: Record<string, string> = {
+  created: "text-green-600",
+  updated: "text-blue-600",
+  restored: "text-amber-600"
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+
+export function AuditActionLabel({ action }: { action: string }) {
+  return (
+    <span className={`font-medium ${ACTION_CLASSES[action] || "text-red-600"}`}>
+      {action.charAt(0).toUpperCase() + action.slice(1)}
+    </span>
+  );
+}
+
+interface AuditEntryDetailProps {
+  entry: AuditLogEntry;
+  // Entries of the same transaction, used to rebuild it as it was at this entry
+  history: AuditLogEntry[];
+  customers: { value: string; label: string }[];
+  employees: { value: string; label: string }[];
+}
+
+/**
+ * What one audit entry changed, who made the change and when, with the option to show
+ * the whole transaction as it was at that point
+ */
+export function AuditEntryDetail({ entry, history, customers, employees }: AuditEntryDetailProps) {
+  const [showSnapshot, setShowSnapshot] = useState(false);
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === "") return "—";
+    if (typeof value === "boolean") return value ? "Yes" : "No";
+
+    switch (field) {
+      case "custno":
+        return customers.find((c) => c.value === value)?.label || String(value);
+      case "empno":
+        return employees.find((e) => e.value === value)?.label || String(value);
+      case "unitprice":
+        return formatCurrency(Number(value));
+      case "tax_rate":
+        return `${Number(value)}%`;
+      case "deleted_at":
+        return formatDateTime(String(value));
+      default:
+        return String(value);
+    }
+  };
+
+  const renderChange = (change: AuditFieldChange, showBefore: boolean) => (
+    <span key={change.field} className="mr-4 inline-block">
+      <span className="text-muted-foreground">{change.label}: </span>
+      {showBefore && change.before !== null && (
+        <>
+          <span className="text-red-600 line-through">{formatValue(change.field, change.before)}</span>
+          {" → "}
+        </>
+      )}
+      <span className={showBefore ? "text-green-600" : ""}>{formatValue(change.field, change.after ?? change.before)}</span>
+    </span>
+  );
+
+  const renderDiff = () => {
+    const diff = diffAuditEntry(entry);
+
+    if (diff.fields.length === 0 && diff.lines.length === 0) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          {entry.action === "deleted" ? "Moved to the trash." : "No field changes were recorded."}
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-2 text-sm">
+        {diff.fields.length > 0 && (
+          <div>{diff.fields.map((change) => renderChange(change, entry.action !== "created"))}</div>
+        )}
+        {diff.lines.map((line) => (
+          <div key={line.prodcode} className="flex flex-wrap items-baseline gap-2">
+            <Badge
+              variant={line.kind === "removed" ? "destructive" : "outline"}
+              className={line.kind === "added" ? "border-green-600 text-green-600" : ""}
+            >
+              {LINE_KIND_LABELS[line.kind]}
+            </Badge>
+            <span className="font-mono">{line.prodcode}</span>
+            <span>{line.changes.map((change) => renderChange(change, line.kind === "changed"))}</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderSnapshot = () => {
+    const snapshot = reconstructSale(history, entry.id);
+    if (!snapshot) {
+      return <p className="text-sm text-muted-foreground">This entry does not belong to a transaction.</p>;
+    }
+    if (!snapshot.exists) {
+      return <p className="text-sm text-muted-foreground">Transaction #{snapshot.transno} did not exist at this point.</p>;
+    }
+
+    return (
+      <div className="space-y-3 rounded-md border bg-background p-3 text-sm">
+        <div className="font-medium">
+          Transaction #{snapshot.transno} as of {formatDateTime(entry.created_at)}
+        </div>
+        <div className="grid grid-cols-2 gap-x-6 gap-y-1 sm:grid-cols-3">
+          {Object.entries(SALE_FIELD_LABELS)
+            .filter(([field]) => snapshot.header[field] !== undefined && (field !== "deleted_at" || snapshot.header[field]))
+            .map(([field, label]) => (
+              <div key={field}>
+                <span className="text-muted-foreground">{label}: </span>
+                {formatValue(field, snapshot.header[field])}
+              </div>
+            ))}
+        </div>
+        {snapshot.lines.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                {Object.entries(LINE_FIELD_LABELS).map(([field, label]) => (
+                  <TableHead key={field}>{label}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {snapshot.lines.map((line) => (
+                <TableRow key={String(line.prodcode)}>
+                  <TableCell className="font-mono">{String(line.prodcode)}</TableCell>
+                  {Object.keys(LINE_FIELD_LABELS).map((field) => (
+                    <TableCell key={field}>{formatValue(field, line[field])}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-muted-foreground">No line items were recorded up to this point.</p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Rebuilt from the audit history; changes made before it was kept are not shown.
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {renderDiff()}
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">
+          By {entry.changed_by_email || "Unknown user"} on {formatDateTime(entry.created_at)}
+        </span>
+        {auditTransno(entry) && (
+          <Button variant="outline" size="sm" className="h-7" onClick={() => setShowSnapshot(!showSnapshot)}>
+            <History className="mr-1 h-3 w-3" />
+            {showSnapshot ? "Hide transaction" : "Transaction at this point"}
+          </Button>
+        )}
+      </div>
+      {showSnapshot && renderSnapshot()}
+    </div>
+  );
+}
+
+export function AuditHistory({ entries, allEntries, customers, employees }: AuditHistoryProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-[40px]" />
+          <TableHead>Date/Time</TableHead>
+          <TableHead>Action</TableHead>
+          <TableHead>Table</TableHead>
+          <TableHead>Record ID</TableHead>
+          <TableHead>User</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">No audit entries</TableCell>
+          </TableRow>
+        ) : entries.map((entry) => {
+          const expanded = expandedId === entry.id;
+          return (
+            <Fragment key={entry.id}>
+              <TableRow className="cursor-pointer" onClick={() => setExpandedId(expanded ? null : entry.id)}>
+                <TableCell>
+                  {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">{formatDateTime(entry.created_at)}</TableCell>
+                <TableCell>
+                  <AuditActionLabel action={entry.action} />
+                </TableCell>
+                <TableCell>{entry.table_name}</TableCell>
+                <TableCell>{entry.record_id}</TableCell>
+                <TableCell>{entry.changed_by_email}</TableCell>
+              </TableRow>
+              {expanded && (
+                <TableRow className="bg-muted/30 hover:bg-muted/30">
+                  <TableCell />
+                  <TableCell colSpan={5}>
+                    <AuditEntryDetail entry={entry} history={allEntries} customers={customers} employees={employees} />
+                  </TableCell>
+                </TableRow>
+              )}
+            </Fragment>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
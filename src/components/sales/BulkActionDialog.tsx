@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BulkSalesAction } from "@/services/salesBulkService";
+import { SalesTransaction } from "@/services/salesService";
+import { formatCurrency } from "@/utils/formatters";
+
+export interface BulkTargetOption {
+  value: string;
+  label: string;
+}
+
+interface BulkActionDialogProps {
+  action: BulkSalesAction | null;
+  sales: SalesTransaction[];
+  // Sales left out of the action, with the reason shown in the summary
+  skipped: Record<string, string>;
+  employees: BulkTargetOption[];
+  customers: BulkTargetOption[];
+  running: boolean;
+  onConfirm: (target: string | null) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TITLES: Record<BulkSalesAction, string> = {
+  delete: "Delete Transactions",
+  employee: "Reassign Salesperson",
+  customer: "Reassign Customer"
+};
+
+// How many transaction numbers the summary lists before summing up the rest
+const LISTED = 12;
+
+export function BulkActionDialog({
+  action,
+  sales,
+  skipped,
+  employees,
+  customers,
+  running,
+  onConfirm,
+  onOpenChange
+}: BulkActionDialogProps) {
+  const [target, setTarget] = useState("");
+
+  useEffect(() => {
+    setTarget("");
+  }, [action]);
+
+  if (!action) return null;
+
+  const affected = sales.filter((sale) => !skipped[sale.transno]);
+  const skippedSales = sales.filter((sale) => skipped[sale.transno]);
+  const total = affected.reduce((sum, sale) => sum + sale.totalPrice, 0);
+  const options = action === "employee" ? employees : customers;
+  const needsTarget = action !== "delete";
+
+  return (
+    <Dialog open={!!action} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{TITLES[action]}</DialogTitle>
+          <DialogDescription>
+            {action === "delete"
+              ? "The selected transactions and their products will be moved to the Trash, where an admin can restore them."
+              : "The selected transactions keep their products and prices."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="rounded-md bg-muted p-4 text-sm">
+            <div className="flex justify-between">
+              <span>Transactions affected</span>
+              <span className="font-semibold">{affected.length}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Their total value</span>
+              <span className="font-semibold">{formatCurrency(total)}</span>
+            </div>
+            <div className="mt-2 flex flex-wrap gap-1">
+              {affected.slice(0, LISTED).map((sale) => (
+                <Badge key={sale.transno} variant="outline" className="font-mono">{sale.transno}</Badge>
+              ))}
+              {affected.length > LISTED && (
+                <span className="text-muted-foreground">and {affected.length - LISTED} more</span>
+              )}
+            </div>
+          </div>
+
+          {skippedSales.length > 0 && (
+            <div className="text-sm">
+              <p className="font-medium text-destructive">{skippedSales.length} will be skipped:</p>
+              <ul className="mt-1 max-h-[120px] overflow-auto text-muted-foreground">
+                {skippedSales.map((sale) => (
+                  <li key={sale.transno}>#{sale.transno}: {skipped[sale.transno]}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {needsTarget && (
+            <div className="space-y-2">
+              <Label>{action === "employee" ? "New salesperson" : "New customer"}</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger>
+                  <SelectValue placeholder={action === "employee" ? "Select employee" : "Select customer"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            variant={action === "delete" ? "destructive" : "default"}
+            disabled={running || affected.length === 0 || (needsTarget && !target)}
+            onClick={() => onConfirm(needsTarget ? target : null)}
+          >
+            {action === "delete" ? `Delete ${affected.length}` : `Reassign ${affected.length}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,53 @@
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CreditMemo } from "@/services/creditMemoService";
+import { formatCurrency } from "@/utils/formatters";
+
+interface CreditMemoListProps {
+  memos: CreditMemo[];
+}
+
+export function CreditMemoList({ memos }: CreditMemoListProps) {
+  if (memos.length === 0) return null;
+
+  const totalCredited = memos.reduce((sum, memo) => sum + memo.total, 0);
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold text-sm uppercase text-muted-foreground">Returns</h4>
+        <span className="text-sm text-muted-foreground">Credited {formatCurrency(totalCredited)}</span>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Credit Memo</TableHead>
+            <TableHead>Date</TableHead>
+            <TableHead>Products</TableHead>
+            <TableHead>Reason</TableHead>
+            <TableHead className="text-right">Credit</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {memos.map((memo) => (
+            <TableRow key={memo.memoNo}>
+              <TableCell>
+                <Badge variant="outline" className="font-mono">{memo.memoNo}</Badge>
+              </TableCell>
+              <TableCell>{new Date(memo.memoDate).toLocaleDateString()}</TableCell>
+              <TableCell>
+                {memo.lines.map((line) => (
+                  <div key={line.prodcode} className="text-sm">
+                    {line.quantity} × {line.description || line.prodcode}
+                  </div>
+                ))}
+              </TableCell>
+              <TableCell className="text-muted-foreground">{memo.reason || '—'}</TableCell>
+              <TableCell className="text-right font-medium">-{formatCurrency(memo.total)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
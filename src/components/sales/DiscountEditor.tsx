@@ -0,0 +1,101 @@
+import { Percent } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DiscountReason } from "@/services/salesService";
+import { Discount, DiscountType, calculateDiscountAmount, describeDiscount } from "@/utils/salesTotals";
+import { formatCurrency } from "@/utils/formatters";
+
+const NO_REASON = "none";
+
+interface DiscountEditorProps {
+  discount: Discount | null;
+  // Amount the discount applies to, used to show the limit in currency terms
+  base: number;
+  reasons: DiscountReason[];
+  maxPercent: number;
+  onChange: (discount: Discount | null) => void;
+  label?: string;
+  disabled?: boolean;
+}
+
+export function DiscountEditor({ discount, base, reasons, maxPercent, onChange, label = "Discount", disabled }: DiscountEditorProps) {
+  const type: DiscountType = discount?.type || "percent";
+  const amount = calculateDiscountAmount(base, discount);
+  const overLimit = base > 0 && (amount * 100) / base > maxPercent;
+
+  const update = (changes: Partial<Discount>) => {
+    onChange({ type, value: discount?.value ?? null, reason: discount?.reason ?? null, ...changes });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 px-2" disabled={disabled}>
+          <Percent className="h-3 w-3 mr-1" />
+          {describeDiscount(discount, formatCurrency) || label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72">
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => update({ type: value as DiscountType })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">Percent</SelectItem>
+                  <SelectItem value="amount">Amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>{type === "percent" ? "Percent" : "Amount"}</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                className="h-8"
+                value={discount?.value ?? ""}
+                onChange={(e) => update({ value: e.target.value === "" ? null : Number(e.target.value) })}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Reason</Label>
+            <Select
+              value={discount?.reason || NO_REASON}
+              onValueChange={(value) => update({ reason: value === NO_REASON ? null : value })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_REASON}>No reason</SelectItem>
+                {reasons.map((reason) => (
+                  <SelectItem key={reason.code} value={reason.code}>{reason.description}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Takes off</span>
+            <span className="font-medium">{formatCurrency(amount)}</span>
+          </div>
+          <p className={overLimit ? "text-xs font-medium text-destructive" : "text-xs text-muted-foreground"}>
+            Your limit is {maxPercent}% ({formatCurrency((base * maxPercent) / 100)})
+          </p>
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={() => onChange(null)}>
+              Clear
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
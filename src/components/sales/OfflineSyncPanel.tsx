@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { AlertTriangle, CloudOff, Pencil, RefreshCw, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { QueuedSale } from "@/services/offlineSalesService";
+import { formatSaleDate } from "@/utils/formatters";
+
+interface OfflineSyncPanelProps {
+  isOnline: boolean;
+  queue: QueuedSale[];
+  syncing: boolean;
+  // When the customers, products and prices in use offline were last fetched
+  cachedAt: string | null;
+  customers: { value: string; label: string }[];
+  onSync: () => void;
+  onFix: (queued: QueuedSale) => void;
+  onDiscard: (queued: QueuedSale) => void;
+}
+
+export function OfflineSyncPanel({
+  isOnline,
+  queue,
+  syncing,
+  cachedAt,
+  customers,
+  onSync,
+  onFix,
+  onDiscard
+}: OfflineSyncPanelProps) {
+  const [conflictsOpen, setConflictsOpen] = useState(false);
+
+  const pending = queue.filter((queued) => queued.status === "pending");
+  const rejected = queue.filter((queued) => queued.status === "rejected");
+
+  if (isOnline && queue.length === 0) return null;
+
+  const customerName = (custno: string) =>
+    customers.find((customer) => customer.value === custno)?.label || custno || "No customer";
+
+  return (
+    <>
+      <div
+        className={`mb-4 flex flex-wrap items-center justify-between gap-2 rounded-md border px-4 py-2 text-sm ${
+          isOnline ? "bg-primary/5" : "border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-900/20"
+        }`}
+      >
+        <div className="flex items-center gap-2">
+          {!isOnline && <CloudOff className="h-4 w-4" />}
+          <span>
+            {isOnline
+              ? `${pending.length} sale${pending.length === 1 ? "" : "s"} entered offline waiting to sync`
+              : `You're offline. New sales are kept on this device${pending.length ? ` (${pending.length} waiting)` : ""}.`}
+          </span>
+          {!isOnline && cachedAt && (
+            <span className="text-muted-foreground">
+              Prices as of {new Date(cachedAt).toLocaleString("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {rejected.length > 0 && (
+            <Button variant="outline" size="sm" className="h-7 text-destructive" onClick={() => setConflictsOpen(true)}>
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              {rejected.length} need{rejected.length === 1 ? "s" : ""} attention
+            </Button>
+          )}
+          {isOnline && pending.length > 0 && (
+            <Button variant="outline" size="sm" className="h-7" onClick={onSync} disabled={syncing}>
+              <RefreshCw className={`h-3 w-3 mr-1 ${syncing ? "animate-spin" : ""}`} />
+              {syncing ? "Syncing..." : "Sync now"}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={conflictsOpen && rejected.length > 0} onOpenChange={setConflictsOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Sales Not Synced</DialogTitle>
+            <DialogDescription>
+              The server refused these sales entered offline. Correct them to save them again, or discard them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {rejected.map((queued) => (
+              <div key={queued.id} className="rounded-md border p-3 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="font-mono">{queued.provisionalTransno}</Badge>
+                    <span>{formatSaleDate(queued.sale.salesdate)}</span>
+                    <span className="text-muted-foreground">{customerName(queued.sale.custno)}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7"
+                      onClick={() => {
+                        setConflictsOpen(false);
+                        onFix(queued);
+                      }}
+                    >
+                      <Pencil className="h-3 w-3 mr-1" />
+                      Correct
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-7 text-destructive" onClick={() => onDiscard(queued)}>
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      Discard
+                    </Button>
+                  </div>
+                </div>
+                <ul className="mt-2 list-disc pl-5 text-destructive">
+                  {queued.errors.map((error, index) => (
+                    <li key={index}>{error.prodcode ? `${error.prodcode}: ${error.message}` : error.message}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
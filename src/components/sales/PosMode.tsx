@@ -0,0 +1,453 @@
+import { KeyboardEvent, useEffect, useRef, useState } from "react";
+import { CloudOff, ScanBarcode, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SalesDetail, SaleValidationError } from "@/services/salesService";
+import { formatCurrency } from "@/utils/formatters";
+import { calculateLineAmounts, SaleTotals } from "@/utils/salesTotals";
+
+interface PosModeProps {
+  open: boolean;
+  transno: string;
+  lines: SalesDetail[];
+  totals: SaleTotals;
+  productCodes: string[];
+  customers: { value: string; label: string }[];
+  customer: string;
+  errors: SaleValidationError[];
+  isOnline: boolean;
+  onCustomerChange: (custno: string) => void;
+  // Adds the product, or adds to its quantity when it is already on the sale
+  onScan: (prodcode: string, quantity: number) => boolean;
+  onQuantityChange: (prodcode: string, quantity: number) => void;
+  onRemove: (prodcode: string) => void;
+  // Saves the sale; resolves true once it is saved or queued
+  onTender: () => Promise<boolean>;
+  onClose: () => void;
+}
+
+// "3*ABC123" scans ABC123 three times
+const QUANTITY_PREFIX = /^(\d+(?:\.\d+)?)\s*\*\s*(.+)$/;
+
+const SHORTCUTS = [
+  ["Enter", "Add scanned code (3*CODE adds 3)"],
+  ["+ / −", "Change quantity by one"],
+  ["F2", "Type a quantity for the line"],
+  ["↑ / ↓", "Select line"],
+  ["Del", "Remove line"],
+  ["F4", "Choose customer"],
+  ["F9", "Tender"],
+  ["Esc", "Leave POS mode"],
+];
+
+export function PosMode({
+  open,
+  transno,
+  lines,
+  totals,
+  productCodes,
+  customers,
+  customer,
+  errors,
+  isOnline,
+  onCustomerChange,
+  onScan,
+  onQuantityChange,
+  onRemove,
+  onTender,
+  onClose
+}: PosModeProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [code, setCode] = useState("");
+  const [selectedCode, setSelectedCode] = useState<string | null>(null);
+  // F2 turns the input into a quantity entry for the selected line
+  const [enteringQuantity, setEnteringQuantity] = useState(false);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [customerOpen, setCustomerOpen] = useState(false);
+  const [tenderOpen, setTenderOpen] = useState(false);
+  const [tendered, setTendered] = useState("");
+  const [tendering, setTendering] = useState(false);
+  const [lastChange, setLastChange] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setCode("");
+    setSelectedCode(null);
+    setEnteringQuantity(false);
+    setScanError(null);
+    setLastChange(null);
+    inputRef.current?.focus();
+  }, [open]);
+
+  if (!open) return null;
+
+  const focusInput = () => setTimeout(() => inputRef.current?.focus(), 0);
+  const selectedIndex = lines.findIndex((line) => line.prodcode === selectedCode);
+  const selectedLine = selectedIndex >= 0 ? lines[selectedIndex] : lines[lines.length - 1];
+  const customerName = customers.find((c) => c.value === customer)?.label;
+  const tenderedAmount = Number(tendered) || 0;
+
+  const scan = (value: string) => {
+    const match = value.match(QUANTITY_PREFIX);
+    const quantity = match ? Number(match[1]) : 1;
+    const typed = (match ? match[2] : value).trim();
+    const prodcode = productCodes.find((p) => p.toLowerCase() === typed.toLowerCase());
+
+    if (!prodcode) {
+      setScanError(`No product with code "${typed}"`);
+      return;
+    }
+    if (quantity <= 0) {
+      setScanError("Quantity must be more than zero");
+      return;
+    }
+
+    if (onScan(prodcode, quantity)) {
+      setSelectedCode(prodcode);
+      setScanError(null);
+      setLastChange(null);
+    }
+  };
+
+  const handleInputKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      const value = code.trim();
+      setCode("");
+
+      if (enteringQuantity) {
+        setEnteringQuantity(false);
+        const quantity = Number(value);
+        if (selectedLine && quantity > 0) {
+          onQuantityChange(selectedLine.prodcode, quantity);
+        } else if (value) {
+          setScanError("Quantity must be more than zero");
+        }
+      } else if (value) {
+        scan(value);
+      }
+      return;
+    }
+
+    if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+      e.preventDefault();
+      if (lines.length === 0) return;
+      const current = selectedIndex >= 0 ? selectedIndex : lines.length - 1;
+      const next = e.key === "ArrowUp" ? Math.max(0, current - 1) : Math.min(lines.length - 1, current + 1);
+      setSelectedCode(lines[next].prodcode);
+      return;
+    }
+
+    // With nothing typed, these act on the selected line rather than the input
+    if (code || !selectedLine) return;
+
+    if (e.key === "+" || e.key === "-") {
+      e.preventDefault();
+      const quantity = (selectedLine.quantity || 0) + (e.key === "+" ? 1 : -1);
+      if (quantity > 0) onQuantityChange(selectedLine.prodcode, quantity);
+    } else if (e.key === "Delete") {
+      e.preventDefault();
+      onRemove(selectedLine.prodcode);
+      setSelectedCode(null);
+    }
+  };
+
+  const openTender = () => {
+    if (lines.length === 0) {
+      setScanError("Scan at least one product before tendering");
+      return;
+    }
+    setTendered(totals.total.toFixed(2));
+    setTenderOpen(true);
+  };
+
+  const handleTender = async () => {
+    if (tendering || tenderedAmount < totals.total) return;
+
+    try {
+      setTendering(true);
+      const change = tenderedAmount - totals.total;
+      const saved = await onTender();
+      setTenderOpen(false);
+      if (saved) {
+        setLastChange(change);
+        setSelectedCode(null);
+        setScanError(null);
+      }
+    } finally {
+      setTendering(false);
+      focusInput();
+    }
+  };
+
+  const handleShortcut = (e: KeyboardEvent<HTMLDivElement>) => {
+    // Keys pressed in the customer picker or tender dialog bubble up through the portal
+    if (customerOpen || tenderOpen) return;
+
+    if (e.key === "F2") {
+      e.preventDefault();
+      if (selectedLine) {
+        setEnteringQuantity(true);
+        setCode("");
+        inputRef.current?.focus();
+      }
+    } else if (e.key === "F4") {
+      e.preventDefault();
+      setCustomerOpen(true);
+    } else if (e.key === "F9") {
+      e.preventDefault();
+      openTender();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      if (enteringQuantity) {
+        setEnteringQuantity(false);
+        setCode("");
+      } else {
+        onClose();
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-background" onKeyDown={handleShortcut}>
+      <div className="flex items-center justify-between gap-4 border-b px-6 py-3">
+        <div className="flex items-center gap-3">
+          <ScanBarcode className="h-5 w-5" />
+          <h2 className="text-lg font-semibold">Point of Sale</h2>
+          {transno && <Badge variant="outline" className="font-mono">{transno}</Badge>}
+          {!isOnline && (
+            <Badge variant="secondary" className="gap-1">
+              <CloudOff className="h-3 w-3" />
+              Offline
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setCustomerOpen(true)}>
+            {customerName || "Walk-in customer"}
+            <span className="ml-2 text-xs text-muted-foreground">F4</span>
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onClose} title="Leave POS mode (Esc)">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        <div className="flex flex-1 flex-col min-w-0">
+          <div className="flex-1 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="py-16 text-center text-muted-foreground">
+                      Scan or type a product code to start the sale
+                    </TableCell>
+                  </TableRow>
+                ) : lines.map((line) => {
+                  const lineErrors = errors.filter((error) => error.prodcode === line.prodcode);
+                  return (
+                    <TableRow
+                      key={line.prodcode}
+                      className={`cursor-pointer text-base ${line === selectedLine ? "bg-primary/10 hover:bg-primary/10" : ""}`}
+                      onClick={() => {
+                        setSelectedCode(line.prodcode);
+                        inputRef.current?.focus();
+                      }}
+                    >
+                      <TableCell className="font-mono">{line.prodcode}</TableCell>
+                      <TableCell>
+                        {line.description}
+                        {lineErrors.map((error, index) => (
+                          <p key={index} className="text-xs text-destructive">{error.message}</p>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{line.quantity}</TableCell>
+                      <TableCell className="text-right">
+                        {line.unitprice !== null ? formatCurrency(line.unitprice) : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(calculateLineAmounts(line).net)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="border-t p-4 space-y-2">
+            {errors.filter((error) => !error.prodcode).map((error, index) => (
+              <p key={index} className="text-sm text-destructive">{error.message}</p>
+            ))}
+            {scanError && <p className="text-sm text-destructive">{scanError}</p>}
+            {lastChange !== null && (
+              <p className="text-sm font-medium text-green-600 dark:text-green-400">
+                Sale saved. Change due: {formatCurrency(lastChange)}
+              </p>
+            )}
+            <Input
+              ref={inputRef}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              onKeyDown={handleInputKeyDown}
+              placeholder={enteringQuantity && selectedLine
+                ? `Quantity for ${selectedLine.prodcode}, then Enter`
+                : "Scan or type a product code"}
+              className={`h-14 text-xl font-mono ${enteringQuantity ? "border-primary" : ""}`}
+              autoComplete="off"
+              autoFocus
+            />
+          </div>
+        </div>
+
+        <div className="hidden w-80 flex-col justify-between border-l p-6 md:flex">
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Items</span>
+              <span>{lines.reduce((sum, line) => sum + (line.quantity || 0), 0)}</span>
+            </div>
+            {totals.discount > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Discounts</span>
+                <span>-{formatCurrency(totals.discount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Tax</span>
+              <span>{formatCurrency(totals.tax)}</span>
+            </div>
+            <div className="flex justify-between border-t pt-2">
+              <span className="font-medium">Total</span>
+              <span className="text-3xl font-bold">{formatCurrency(totals.total)}</span>
+            </div>
+            <Button className="mt-4 w-full h-12 text-lg" onClick={openTender} disabled={lines.length === 0}>
+              Tender
+              <span className="ml-2 text-xs opacity-70">F9</span>
+            </Button>
+          </div>
+
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs text-muted-foreground">
+            {SHORTCUTS.map(([key, description]) => (
+              <div key={key} className="contents">
+                <dt><kbd className="rounded border px-1 font-mono">{key}</kbd></dt>
+                <dd>{description}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </div>
+
+      <CommandDialog
+        open={customerOpen}
+        onOpenChange={(isOpen) => {
+          setCustomerOpen(isOpen);
+          if (!isOpen) focusInput();
+        }}
+      >
+        <CommandInput placeholder="Search customers..." />
+        <CommandList>
+          <CommandEmpty>No customers found.</CommandEmpty>
+          <CommandGroup>
+            <CommandItem
+              value="walk-in customer"
+              onSelect={() => {
+                onCustomerChange("");
+                setCustomerOpen(false);
+                focusInput();
+              }}
+            >
+              Walk-in customer
+            </CommandItem>
+            {customers.map((c) => (
+              <CommandItem
+                key={c.value}
+                value={`${c.label} ${c.value}`}
+                onSelect={() => {
+                  onCustomerChange(c.value);
+                  setCustomerOpen(false);
+                  focusInput();
+                }}
+              >
+                {c.label}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+
+      <Dialog
+        open={tenderOpen}
+        onOpenChange={(isOpen) => {
+          if (tendering) return;
+          setTenderOpen(isOpen);
+          if (!isOpen) focusInput();
+        }}
+      >
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Tender</DialogTitle>
+            <DialogDescription>Total due {formatCurrency(totals.total)}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="posTendered">Amount tendered</Label>
+            <Input
+              id="posTendered"
+              type="number"
+              step="0.01"
+              min="0"
+              value={tendered}
+              onChange={(e) => setTendered(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleTender();
+                }
+              }}
+              onFocus={(e) => e.target.select()}
+              className="h-12 text-xl"
+              autoFocus
+            />
+            <p className="text-sm">
+              {tenderedAmount >= totals.total
+                ? `Change: ${formatCurrency(tenderedAmount - totals.total)}`
+                : `Short by ${formatCurrency(totals.total - tenderedAmount)}`}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTenderOpen(false)} disabled={tendering}>Cancel</Button>
+            <Button onClick={handleTender} disabled={tendering || tenderedAmount < totals.total}>
+              {tendering ? "Saving..." : "Complete Sale"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { createCreditMemo, CreditMemo, getReturnedQuantities } from "@/services/creditMemoService";
+import { groupSaleErrors, SalesTransaction, SaleValidationError } from "@/services/salesService";
+import { formatCurrency } from "@/utils/formatters";
+
+interface ReturnDialogProps {
+  sale: SalesTransaction | null;
+  memos: CreditMemo[];
+  onOpenChange: (open: boolean) => void;
+  onCreated: (memoNo: string) => void;
+}
+
+export function ReturnDialog({ sale, memos, onOpenChange, onCreated }: ReturnDialogProps) {
+  const { toast } = useToast();
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState("");
+  const [errors, setErrors] = useState<SaleValidationError[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setQuantities({});
+    setReason("");
+    setErrors([]);
+  }, [sale?.transno]);
+
+  if (!sale) return null;
+
+  const returned = getReturnedQuantities(memos);
+  const { header: headerErrors, lines: lineErrors } = groupSaleErrors(errors);
+
+  // Estimate only; the server works out the credited amounts from the stored line totals
+  const estimate = sale.productDetails.reduce((sum, product) => {
+    const quantity = quantities[product.prodcode] || 0;
+    if (!quantity || !product.quantity) return sum;
+    return sum + (product.amountInclTax || 0) * quantity / product.quantity;
+  }, 0);
+
+  const handleQuantityChange = (prodcode: string, value: string, remaining: number) => {
+    const quantity = Math.max(0, Math.min(remaining, Number(value) || 0));
+    setQuantities({ ...quantities, [prodcode]: quantity });
+  };
+
+  const handleSubmit = async () => {
+    const lines = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([prodcode, quantity]) => ({ prodcode, quantity }));
+
+    if (lines.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Enter a quantity to return for at least one product",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setErrors([]);
+
+      const result = await createCreditMemo(sale.transno, lines, reason);
+
+      if (!result.ok) {
+        setErrors(result.errors);
+        toast({
+          title: "Validation Error",
+          description: result.errors.length === 1
+            ? result.errors[0].message
+            : `Please fix the ${result.errors.length} highlighted problems`,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      toast({
+        title: "Return Recorded",
+        description: `Credit memo #${result.memoNo} was created for transaction #${sale.transno}`
+      });
+      onCreated(result.memoNo!);
+    } catch (error) {
+      console.error('Error creating credit memo:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record the return",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!sale} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Return Items</DialogTitle>
+          <DialogDescription>
+            Create a credit memo against transaction #{sale.transno}. The original sale is kept as it is.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Sold</TableHead>
+              <TableHead className="text-right">Returned</TableHead>
+              <TableHead className="w-[120px] text-right">Return now</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sale.productDetails.map((product) => {
+              const sold = product.quantity || 0;
+              const alreadyReturned = returned[product.prodcode] || 0;
+              const remaining = sold - alreadyReturned;
+
+              return (
+                <TableRow
+                  key={product.prodcode}
+                  className={lineErrors[product.prodcode] ? "bg-destructive/10" : undefined}
+                >
+                  <TableCell>
+                    {product.description || product.prodcode}
+                    {lineErrors[product.prodcode]?.map((message) => (
+                      <p key={message} className="text-xs font-medium text-destructive">{message}</p>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-right">{sold}</TableCell>
+                  <TableCell className="text-right">{alreadyReturned}</TableCell>
+                  <TableCell className="text-right">
+                    <Input
+                      type="number"
+                      min="0"
+                      max={remaining}
+                      className="h-8 text-right"
+                      value={quantities[product.prodcode] || ''}
+                      placeholder="0"
+                      disabled={remaining <= 0}
+                      onChange={(e) => handleQuantityChange(product.prodcode, e.target.value, remaining)}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-2">
+          <Label htmlFor="returnReason">Reason</Label>
+          <Input
+            id="returnReason"
+            value={reason}
+            placeholder="e.g. Damaged on delivery"
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+
+        {(headerErrors.form || headerErrors.details || headerErrors.transno) && (
+          <p className="text-sm font-medium text-destructive">
+            {headerErrors.form || headerErrors.details || headerErrors.transno}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between rounded-md bg-muted p-4">
+          <span className="font-semibold">Estimated credit (incl. tax):</span>
+          <span className="text-xl font-bold">{formatCurrency(estimate)}</span>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saving}>Create Credit Memo</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
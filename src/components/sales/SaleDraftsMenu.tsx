@@ -0,0 +1,78 @@
+import { CloudOff, FileClock, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { SaleDraft } from "@/services/saleDraftService";
+
+interface SaleDraftsMenuProps {
+  drafts: SaleDraft[];
+  customers: { value: string; label: string }[];
+  onResume: (draft: SaleDraft) => void;
+  onDiscard: (draft: SaleDraft) => void;
+}
+
+const formatSavedAt = (value: string) =>
+  new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+
+export function SaleDraftsMenu({ drafts, customers, onResume, onDiscard }: SaleDraftsMenuProps) {
+  if (drafts.length === 0) return null;
+
+  const customerName = (custno: string) =>
+    customers.find((customer) => customer.value === custno)?.label || custno || "No customer";
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <FileClock className="h-4 w-4" />
+          Drafts
+          <Badge variant="secondary" className="h-5 px-1.5">{drafts.length}</Badge>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-[300px]">
+        <DropdownMenuLabel>Unsaved transactions</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {drafts.map((draft) => (
+          <DropdownMenuItem key={draft.id} onClick={() => onResume(draft)} className="flex items-start gap-2">
+            <div className="flex-1 min-w-0">
+              <div className="truncate font-medium">{customerName(draft.payload.custno)}</div>
+              <div className="text-xs text-muted-foreground">
+                {draft.payload.products.length} product{draft.payload.products.length === 1 ? "" : "s"}
+                {" · saved "}{formatSavedAt(draft.updatedAt)}
+              </div>
+            </div>
+            {draft.local && (
+              <span title="Only saved in this browser">
+                <CloudOff className="h-4 w-4 text-muted-foreground" />
+              </span>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+              title="Discard draft"
+              onClick={(e) => {
+                e.stopPropagation();
+                onDiscard(draft);
+              }}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,298 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  FREQUENCY_LABELS,
+  SaleFrequency,
+  SaleTemplate,
+  SaleTemplateInput,
+  SaleTemplateLine
+} from "@/services/saleTemplateService";
+
+export interface TemplateOption {
+  value: string;
+  label: string;
+}
+
+interface SaleTemplateDialogProps {
+  open: boolean;
+  // Template being edited; null creates a new one
+  template: SaleTemplate | null;
+  customers: TemplateOption[];
+  employees: TemplateOption[];
+  products: TemplateOption[];
+  onSave: (input: SaleTemplateInput) => Promise<void>;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NO_EMPLOYEE = "none";
+
+const emptyTemplate = (): SaleTemplateInput => ({
+  name: "",
+  custno: "",
+  empno: null,
+  frequency: "weekly",
+  startDate: new Date().toISOString().split("T")[0],
+  endDate: null,
+  active: true,
+  lines: []
+});
+
+export function SaleTemplateDialog({
+  open,
+  template,
+  customers,
+  employees,
+  products,
+  onSave,
+  onOpenChange
+}: SaleTemplateDialogProps) {
+  const [values, setValues] = useState<SaleTemplateInput>(emptyTemplate);
+  const [newProduct, setNewProduct] = useState("");
+  const [newQuantity, setNewQuantity] = useState(1);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setValues(template ? {
+      id: template.id,
+      name: template.name,
+      custno: template.custno,
+      empno: template.empno,
+      frequency: template.frequency,
+      startDate: template.startDate,
+      endDate: template.endDate,
+      active: template.active,
+      lines: template.lines
+    } : emptyTemplate());
+    setNewProduct("");
+    setNewQuantity(1);
+  }, [open, template]);
+
+  const productLabel = (prodcode: string) =>
+    products.find((product) => product.value === prodcode)?.label || prodcode;
+
+  const addLine = () => {
+    if (!newProduct || newQuantity <= 0) return;
+
+    const existing = values.lines.find((line) => line.prodcode === newProduct);
+    const lines: SaleTemplateLine[] = existing
+      ? values.lines.map((line) => line.prodcode === newProduct ? { ...line, quantity: line.quantity + newQuantity } : line)
+      : [...values.lines, { prodcode: newProduct, quantity: newQuantity }];
+
+    setValues({ ...values, lines });
+    setNewProduct("");
+    setNewQuantity(1);
+  };
+
+  const endsBeforeStart = !!values.endDate && values.endDate < values.startDate;
+  const canSave = !!values.name.trim() && !!values.custno && !!values.startDate && values.lines.length > 0 && !endsBeforeStart;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    try {
+      setSaving(true);
+      await onSave(values);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Template" : "New Template"}</DialogTitle>
+          <DialogDescription>
+            A sale with these products is created for the customer on every scheduled date, at the prices in effect that day.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="templateName">Name</Label>
+              <Input
+                id="templateName"
+                value={values.name}
+                placeholder="e.g. Weekly produce order"
+                onChange={(e) => setValues({ ...values, name: e.target.value })}
+              />
+            </div>
+            <div className="flex items-end justify-between gap-2 pb-2">
+              <Label htmlFor="templateActive">Active</Label>
+              <Switch
+                id="templateActive"
+                checked={values.active}
+                onCheckedChange={(active) => setValues({ ...values, active })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <Select value={values.custno} onValueChange={(custno) => setValues({ ...values, custno })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map((customer) => (
+                    <SelectItem key={customer.value} value={customer.value}>{customer.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Salesperson</Label>
+              <Select
+                value={values.empno || NO_EMPLOYEE}
+                onValueChange={(empno) => setValues({ ...values, empno: empno === NO_EMPLOYEE ? null : empno })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_EMPLOYEE}>None</SelectItem>
+                  {employees.map((employee) => (
+                    <SelectItem key={employee.value} value={employee.value}>{employee.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Repeats</Label>
+              <Select
+                value={values.frequency}
+                onValueChange={(frequency) => setValues({ ...values, frequency: frequency as SaleFrequency })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FREQUENCY_LABELS) as SaleFrequency[]).map((frequency) => (
+                    <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateStart">Starts</Label>
+              <Input
+                id="templateStart"
+                type="date"
+                value={values.startDate}
+                onChange={(e) => setValues({ ...values, startDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateEnd">Ends (optional)</Label>
+              <Input
+                id="templateEnd"
+                type="date"
+                value={values.endDate || ""}
+                onChange={(e) => setValues({ ...values, endDate: e.target.value || null })}
+              />
+              {endsBeforeStart && <p className="text-xs text-destructive">Ends before it starts</p>}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Products</Label>
+            <div className="flex gap-2">
+              <Select value={newProduct} onValueChange={setNewProduct}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((product) => (
+                    <SelectItem key={product.value} value={product.value}>{product.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="1"
+                className="w-24"
+                value={newQuantity}
+                onChange={(e) => setNewQuantity(Number(e.target.value))}
+              />
+              <Button type="button" variant="outline" onClick={addLine} disabled={!newProduct || newQuantity <= 0}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+            {values.lines.length > 0 ? (
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right w-[120px]">Qty</TableHead>
+                      <TableHead className="w-[60px]" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {values.lines.map((line) => (
+                      <TableRow key={line.prodcode}>
+                        <TableCell>{productLabel(line.prodcode)}</TableCell>
+                        <TableCell className="text-right">
+                          <Input
+                            type="number"
+                            min="1"
+                            className="h-8 w-20 ml-auto text-right"
+                            value={line.quantity}
+                            onChange={(e) => setValues({
+                              ...values,
+                              lines: values.lines.map((l) => l.prodcode === line.prodcode ? { ...l, quantity: Number(e.target.value) } : l)
+                            })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive"
+                            onClick={() => setValues({ ...values, lines: values.lines.filter((l) => l.prodcode !== line.prodcode) })}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Add at least one product.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !canSave || values.lines.some((line) => !(line.quantity > 0))}
+          >
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { Filter, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SalesFilters } from "@/services/salesService";
+import { formatCurrency, formatSaleDate } from "@/utils/formatters";
+import { countActiveFilters } from "@/utils/salesListParams";
+
+const ANY = "any";
+
+export interface FilterOption {
+  value: string;
+  label: string;
+}
+
+interface SalesFilterBuilderProps {
+  filters: SalesFilters;
+  customers: FilterOption[];
+  employees: FilterOption[];
+  products: FilterOption[];
+  onChange: (filters: SalesFilters) => void;
+}
+
+const toNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+export function SalesFilterBuilder({ filters, customers, employees, products, onChange }: SalesFilterBuilderProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<SalesFilters>(filters);
+
+  useEffect(() => {
+    if (open) setDraft(filters);
+  }, [open, filters]);
+
+  const activeCount = countActiveFilters(filters);
+  const labelOf = (options: FilterOption[], value?: string) =>
+    options.find((option) => option.value === value)?.label || value;
+
+  const chips: { key: (keyof SalesFilters)[]; label: string }[] = [];
+  if (filters.dateFrom || filters.dateTo) {
+    chips.push({
+      key: ["dateFrom", "dateTo"],
+      label: filters.dateFrom && filters.dateTo
+        ? `${formatSaleDate(filters.dateFrom)} – ${formatSaleDate(filters.dateTo)}`
+        : filters.dateFrom ? `From ${formatSaleDate(filters.dateFrom)}` : `Until ${formatSaleDate(filters.dateTo!)}`
+    });
+  }
+  if (filters.minTotal !== undefined || filters.maxTotal !== undefined) {
+    chips.push({
+      key: ["minTotal", "maxTotal"],
+      label: filters.minTotal !== undefined && filters.maxTotal !== undefined
+        ? `Total ${formatCurrency(filters.minTotal)} – ${formatCurrency(filters.maxTotal)}`
+        : filters.minTotal !== undefined ? `Total ≥ ${formatCurrency(filters.minTotal)}` : `Total ≤ ${formatCurrency(filters.maxTotal!)}`
+    });
+  }
+  if (filters.custno) chips.push({ key: ["custno"], label: `Customer: ${labelOf(customers, filters.custno)}` });
+  if (filters.empno) chips.push({ key: ["empno"], label: `Employee: ${labelOf(employees, filters.empno)}` });
+  if (filters.prodcode) chips.push({ key: ["prodcode"], label: `Contains ${labelOf(products, filters.prodcode)}` });
+
+  const removeChip = (keys: (keyof SalesFilters)[]) => {
+    const updated = { ...filters };
+    keys.forEach((key) => delete updated[key]);
+    onChange(updated);
+  };
+
+  const handleApply = () => {
+    onChange(Object.fromEntries(
+      Object.entries(draft).filter(([, value]) => value !== undefined && value !== "" && !Number.isNaN(value))
+    ));
+    setOpen(false);
+  };
+
+  const optionSelect = (label: string, key: "custno" | "empno" | "prodcode", options: FilterOption[]) => (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Select
+        value={draft[key] || ANY}
+        onValueChange={(value) => setDraft({ ...draft, [key]: value === ANY ? undefined : value })}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="flex items-center gap-2">
+            <Filter className="h-4 w-4" />
+            Filters
+            {activeCount > 0 && <Badge variant="secondary" className="ml-1">{activeCount}</Badge>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-[340px] space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="filterDateFrom">From date</Label>
+              <Input
+                id="filterDateFrom"
+                type="date"
+                value={draft.dateFrom || ""}
+                onChange={(e) => setDraft({ ...draft, dateFrom: e.target.value || undefined })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filterDateTo">To date</Label>
+              <Input
+                id="filterDateTo"
+                type="date"
+                value={draft.dateTo || ""}
+                onChange={(e) => setDraft({ ...draft, dateTo: e.target.value || undefined })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filterMinTotal">Min total</Label>
+              <Input
+                id="filterMinTotal"
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft.minTotal ?? ""}
+                onChange={(e) => setDraft({ ...draft, minTotal: toNumber(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filterMaxTotal">Max total</Label>
+              <Input
+                id="filterMaxTotal"
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft.maxTotal ?? ""}
+                onChange={(e) => setDraft({ ...draft, maxTotal: toNumber(e.target.value) })}
+              />
+            </div>
+          </div>
+          {optionSelect("Customer", "custno", customers)}
+          {optionSelect("Employee", "empno", employees)}
+          {optionSelect("Contains product", "prodcode", products)}
+          <div className="flex justify-between">
+            <Button variant="ghost" size="sm" onClick={() => setDraft({})}>Reset</Button>
+            <Button size="sm" onClick={handleApply}>Apply</Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {chips.map((chip) => (
+        <Badge key={chip.key.join("-")} variant="secondary" className="flex items-center gap-1 py-1">
+          {chip.label}
+          <button
+            type="button"
+            className="ml-1 rounded-full hover:bg-muted-foreground/20"
+            onClick={() => removeChip(chip.key)}
+            aria-label={`Remove filter ${chip.label}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      {activeCount > 0 && (
+        <Button variant="ghost" size="sm" onClick={() => onChange({})}>Clear all</Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { ReactNode } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface SalesSelectionBarProps {
+  count: number;
+  // Sales matching the current search and filters, across all pages
+  totalMatching?: number;
+  selectingAll?: boolean;
+  onSelectAllMatching?: () => void;
+  onClear: () => void;
+  children: ReactNode;
+}
+
+export function SalesSelectionBar({
+  count,
+  totalMatching,
+  selectingAll,
+  onSelectAllMatching,
+  onClear,
+  children
+}: SalesSelectionBarProps) {
+  if (count === 0) return null;
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center justify-between gap-2 rounded-md border bg-primary/5 px-4 py-2">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-medium">{count} selected</span>
+        {onSelectAllMatching && totalMatching !== undefined && count < totalMatching && (
+          <Button variant="link" size="sm" className="h-7 px-1" onClick={onSelectAllMatching} disabled={selectingAll}>
+            {selectingAll ? "Selecting..." : `Select all ${totalMatching} matching`}
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" className="h-7" onClick={onClear}>
+          <X className="h-3 w-3 mr-1" />
+          Clear
+        </Button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">{children}</div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { Bookmark, Check, Save, Share2, Star, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { SalesView } from "@/services/salesViewService";
+
+interface SalesViewMenuProps {
+  views: SalesView[];
+  // View whose search, sort and filters match the list right now
+  activeViewId: string | null;
+  defaultViewId: string | null;
+  onSelect: (view: SalesView) => void;
+  onSave: (name: string, shared: boolean, id?: string) => Promise<void>;
+  onDelete: (view: SalesView) => void;
+  onSetDefault: (viewId: string | null) => void;
+}
+
+export function SalesViewMenu({
+  views,
+  activeViewId,
+  defaultViewId,
+  onSelect,
+  onSave,
+  onDelete,
+  onSetDefault
+}: SalesViewMenuProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const activeView = views.find((view) => view.id === activeViewId) || null;
+  const ownViews = views.filter((view) => view.isOwn);
+  const sharedViews = views.filter((view) => !view.isOwn);
+  // Saving under the name of one of your own views overwrites it
+  const overwrites = ownViews.find((view) => view.name.toLowerCase() === name.trim().toLowerCase());
+
+  const openSaveDialog = () => {
+    setName(activeView?.isOwn ? activeView.name : "");
+    setShared(activeView?.isOwn ? activeView.shared : false);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    try {
+      setSaving(true);
+      await onSave(name, shared, overwrites?.id);
+      setDialogOpen(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderView = (view: SalesView) => (
+    <DropdownMenuItem key={view.id} onClick={() => onSelect(view)} className="flex items-center gap-2">
+      <Check className={`h-4 w-4 ${view.id === activeViewId ? "opacity-100" : "opacity-0"}`} />
+      <span className="flex-1 truncate">{view.name}</span>
+      {view.shared && view.isOwn && <Share2 className="h-3 w-3 text-muted-foreground" />}
+      {view.id === defaultViewId && <Star className="h-3 w-3 fill-current text-amber-500" />}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="flex items-center gap-2">
+            <Bookmark className="h-4 w-4" />
+            <span className="max-w-[160px] truncate">{activeView ? activeView.name : "Views"}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-[260px]">
+          {ownViews.length > 0 && (
+            <>
+              <DropdownMenuLabel>My views</DropdownMenuLabel>
+              {ownViews.map(renderView)}
+            </>
+          )}
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuLabel>Shared with everyone</DropdownMenuLabel>
+              {sharedViews.map(renderView)}
+            </>
+          )}
+          {views.length === 0 && (
+            <DropdownMenuLabel className="font-normal text-muted-foreground">No saved views yet</DropdownMenuLabel>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={openSaveDialog}>
+            <Save className="h-4 w-4 mr-2" />
+            Save current view...
+          </DropdownMenuItem>
+          {activeView && (
+            <DropdownMenuItem onClick={() => onSetDefault(activeView.id === defaultViewId ? null : activeView.id)}>
+              <Star className="h-4 w-4 mr-2" />
+              {activeView.id === defaultViewId ? "Stop opening by default" : `Open "${activeView.name}" by default`}
+            </DropdownMenuItem>
+          )}
+          {activeView?.isOwn && (
+            <DropdownMenuItem className="text-destructive" onClick={() => onDelete(activeView)}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete "{activeView.name}"
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Saves the current search, sort and filters so you can come back to them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="viewName">Name</Label>
+              <Input
+                id="viewName"
+                value={name}
+                placeholder="e.g. My sales this month"
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSave()}
+              />
+              {overwrites && (
+                <p className="text-xs text-muted-foreground">This replaces your view "{overwrites.name}".</p>
+              )}
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="viewShared">Share with everyone</Label>
+              <Switch id="viewShared" checked={shared} onCheckedChange={setShared} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim()}>Save View</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
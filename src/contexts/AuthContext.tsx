@@ -4,15 +4,16 @@ import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { Session, User } from '@supabase/supabase-js';
 
-type UserRole = 'admin' | 'user';
+export type UserRole = 'admin' | 'user';
 
-type UserPermissions = {
+export type UserPermissions = {
   can_edit_sales: boolean;
   can_delete_sales: boolean;
   can_add_sales: boolean;
   can_edit_sales_detail: boolean;
   can_delete_sales_detail: boolean;
   can_add_sales_detail: boolean;
+  max_discount_percent: number;
 };
 
 type AuthContextType = {
@@ -20,6 +21,8 @@ type AuthContextType = {
   session: Session | null;
   isLoading: boolean;
   isAdmin: boolean;
+  // True until the signed-in user's role has been fetched, so isAdmin is still unknown
+  isRoleLoading: boolean;
   userRole: UserRole | null;
   permissions: UserPermissions | null;
   login: (email: string, password: string) => Promise<void>;
@@ -37,6 +40,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [isAdmin, setIsAdmin] = useState(false);
   const [userRole, setUserRole] = useState<UserRole | null>(null);
   const [permissions, setPermissions] = useState<UserPermissions | null>(null);
+  const [roleLoadedFor, setRoleLoadedFor] = useState<string | null>(null);
 
   const fetchUserRoleAndPermissions = async (userId: string) => {
     try {
@@ -79,7 +83,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             can_add_sales: isUserAdmin,
             can_edit_sales_detail: isUserAdmin,
             can_delete_sales_detail: isUserAdmin,
-            can_add_sales_detail: isUserAdmin
+            can_add_sales_detail: isUserAdmin,
+            max_discount_percent: isUserAdmin ? 100 : 0
           };
           
           const { data: newPerms, error: createError } = await supabase
@@ -101,6 +106,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
     } catch (error) {
       console.error('Error in fetchUserRoleAndPermissions:', error);
+    } finally {
+      setRoleLoadedFor(userId);
     }
   };
 
@@ -187,7 +194,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           can_add_sales: false,
           can_edit_sales_detail: false,
           can_delete_sales_detail: false,
-          can_add_sales_detail: false
+          can_add_sales_detail: false,
+          max_discount_percent: 0
         };
         
         // If email was pre-registered, use those settings
@@ -200,7 +208,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             can_add_sales: typedData.can_add_sales,
             can_edit_sales_detail: typedData.can_edit_sales_detail,
             can_delete_sales_detail: typedData.can_delete_sales_detail,
-            can_add_sales_detail: typedData.can_add_sales_detail
+            can_add_sales_detail: typedData.can_add_sales_detail,
+            max_discount_percent: typedData.max_discount_percent ?? 0
           };
         }
 
@@ -295,6 +304,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       session, 
       isLoading, 
       isAdmin, 
+      isRoleLoading: !!user && roleLoadedFor !== user.id,
       userRole, 
       permissions, 
       login, 
@@ -0,0 +1,52 @@
+import { useAuth, UserPermissions } from "@/contexts/AuthContext"
+import { toast } from "@/hooks/use-toast"
+
+export type SalesPermission = Exclude<keyof UserPermissions, 'max_discount_percent'>
+
+const PERMISSION_LABELS: Record<SalesPermission, string> = {
+  can_add_sales: "create sales transactions",
+  can_edit_sales: "edit sales transactions",
+  can_delete_sales: "delete sales transactions",
+  can_add_sales_detail: "add products to a transaction",
+  can_edit_sales_detail: "change products on a transaction",
+  can_delete_sales_detail: "remove products from a transaction",
+}
+
+/**
+ * Reads the current user's sales permissions and explains why an action is blocked
+ */
+export function useSalesPermissions() {
+  const { permissions, isLoading } = useAuth()
+
+  const can = (permission: SalesPermission) => !!permissions?.[permission]
+
+  const reasonFor = (permission: SalesPermission): string | null => {
+    if (can(permission)) return null
+
+    if (!permissions) {
+      return isLoading
+        ? "Your permissions are still loading."
+        : "No permissions have been assigned to your account. Ask an administrator for access."
+    }
+
+    return `You don't have permission to ${PERMISSION_LABELS[permission]}. Ask an administrator for access.`
+  }
+
+  // Handlers call this before acting, so a blocked action still explains itself
+  // even if it was reached without going through a guarded control
+  const requirePermission = (permission: SalesPermission) => {
+    if (can(permission)) return true
+
+    toast({
+      title: "Permission denied",
+      description: reasonFor(permission),
+      variant: "destructive",
+    })
+    return false
+  }
+
+  // Largest discount, as a percentage of what it applies to, the user may give
+  const maxDiscountPercent = Number(permissions?.max_discount_percent) || 0
+
+  return { permissions, can, reasonFor, requirePermission, maxDiscountPercent }
+}
@@ -17,24 +17,25 @@ export const supabase = createClient<Database>(SUPABASE_URL, SUPABASE_PUBLISHABL
 });
 
 // Helper functions for soft deletion and tracking
-export const softDelete = async (table: string, id: string, userId: string) => {
+// idColumn names the key for tables not keyed by id, e.g. 'transno' for sales and salesdetail
+export const softDelete = async (table: string, id: string, userId: string, idColumn = 'id') => {
   return await supabase
     .from(table as any)
     .update({ 
       deleted_at: new Date().toISOString(),
       deleted_by: userId
     })
-    .eq('id', id);
+    .eq(idColumn, id);
 };
 
-export const restoreDeleted = async (table: string, id: string) => {
+export const restoreDeleted = async (table: string, id: string, idColumn = 'id') => {
   return await supabase
     .from(table as any)
     .update({ 
       deleted_at: null,
       deleted_by: null
     })
-    .eq('id', id);
+    .eq(idColumn, id);
 };
 
 export const getSalesWithUserInfo = async (includeDeleted = false) => {
@@ -63,6 +64,7 @@ interface PreregisteredEmailData {
   can_edit_sales_detail: boolean;
   can_delete_sales_detail: boolean;
   can_add_sales_detail: boolean;
+  max_discount_percent?: number;
 }
 
 // Function to pre-register an email with role and permissions
@@ -73,6 +75,7 @@ export const preregisterEmail = async (email: string, role: 'admin' | 'user', pe
   can_edit_sales_detail: boolean;
   can_delete_sales_detail: boolean;
   can_add_sales_detail: boolean;
+  max_discount_percent?: number;
 }) => {
   // Check if email is already pre-registered
   const { data: existingEmail, error: checkError } = await supabase
@@ -126,57 +129,6 @@ export interface AuditLogEntry {
   created_at: string;
 }
 
-// Function to get audit logs with proper typing
-export const getAuditLogs = async () => {
-  const { data, error } = await supabase
-    .from('sales_audit_log' as any)
-    .select('*')
-    .order('created_at', { ascending: false });
-    
-  if (error) throw error;
-  
-  // Safely cast the results to AuditLogEntry[]
-  return (data || []) as unknown as AuditLogEntry[];
-};
-
-// Function to track who edited sales and sales details
-export const trackSalesChanges = async (table: 'sales' | 'salesdetail', action: 'created' | 'updated' | 'deleted', data: any, userId: string) => {
-  try {
-    // Get user email
-    const { data: userData, error: userError } = await supabase
-      .from('profiles')
-      .select('email')
-      .eq('id', userId)
-      .single();
-      
-    if (userError) {
-      console.error('Error fetching user data:', userError);
-      return;
-    }
-    
-    const userEmail = userData?.email || 'Unknown user';
-    
-    // Log the action in sales_audit_log table
-    const { error: logError } = await supabase
-      .from('sales_audit_log' as any)
-      .insert({
-        table_name: table,
-        record_id: table === 'sales' ? data.transno : `${data.transno}-${data.prodcode}`,
-        action,
-        changed_by: userId,
-        changed_by_email: userEmail,
-        old_data: action === 'updated' || action === 'deleted' ? data.oldData : null,
-        new_data: action === 'created' || action === 'updated' ? data.newData : null
-      });
-      
-    if (logError) {
-      console.error('Error logging sales change:', logError);
-    }
-  } catch (error) {
-    console.error('Error tracking sales changes:', error);
-  }
-};
-
 // Function to update a user's role
 export const updateUserRole = async (userId: string, role: 'admin' | 'user') => {
   try {
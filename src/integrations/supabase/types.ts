@@ -9,24 +9,110 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      credit_memo_lines: {
+        Row: {
+          description: string | null
+          memo_no: string
+          net_amount: number
+          prodcode: string
+          quantity: number
+          tax_amount: number
+          unit: string | null
+          unitprice: number | null
+        }
+        Insert: {
+          description?: string | null
+          memo_no: string
+          net_amount?: number
+          prodcode: string
+          quantity: number
+          tax_amount?: number
+          unit?: string | null
+          unitprice?: number | null
+        }
+        Update: {
+          description?: string | null
+          memo_no?: string
+          net_amount?: number
+          prodcode?: string
+          quantity?: number
+          tax_amount?: number
+          unit?: string | null
+          unitprice?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_memo_lines_memo_no_fkey"
+            columns: ["memo_no"]
+            isOneToOne: false
+            referencedRelation: "credit_memos"
+            referencedColumns: ["memo_no"]
+          },
+          {
+            foreignKeyName: "credit_memo_lines_prodcode_fkey"
+            columns: ["prodcode"]
+            isOneToOne: false
+            referencedRelation: "product"
+            referencedColumns: ["prodcode"]
+          },
+        ]
+      }
+      credit_memos: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          memo_date: string
+          memo_no: string
+          reason: string | null
+          transno: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          memo_date?: string
+          memo_no: string
+          reason?: string | null
+          transno: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          memo_date?: string
+          memo_no?: string
+          reason?: string | null
+          transno?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_memos_transno_fkey"
+            columns: ["transno"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["transno"]
+          },
+        ]
+      }
       customer: {
         Row: {
           address: string | null
           custname: string | null
           custno: string
           payterm: string | null
+          tax_exempt: boolean
         }
         Insert: {
           address?: string | null
           custname?: string | null
           custno: string
           payterm?: string | null
+          tax_exempt?: boolean
         }
         Update: {
           address?: string | null
           custname?: string | null
           custno?: string
           payterm?: string | null
+          tax_exempt?: boolean
         }
         Relationships: []
       }
@@ -45,6 +131,24 @@ export type Database = {
         }
         Relationships: []
       }
+      discount_reasons: {
+        Row: {
+          active: boolean
+          code: string
+          description: string
+        }
+        Insert: {
+          active?: boolean
+          code: string
+          description: string
+        }
+        Update: {
+          active?: boolean
+          code?: string
+          description?: string
+        }
+        Relationships: []
+      }
       employee: {
         Row: {
           birthdate: string | null
@@ -176,6 +280,7 @@ export type Database = {
           created_at: string | null
           email: string
           id: string
+          max_discount_percent: number
           role: Database["public"]["Enums"]["app_role"]
           updated_at: string | null
         }
@@ -189,6 +294,7 @@ export type Database = {
           created_at?: string | null
           email: string
           id?: string
+          max_discount_percent?: number
           role?: Database["public"]["Enums"]["app_role"]
           updated_at?: string | null
         }
@@ -202,6 +308,7 @@ export type Database = {
           created_at?: string | null
           email?: string
           id?: string
+          max_discount_percent?: number
           role?: Database["public"]["Enums"]["app_role"]
           updated_at?: string | null
         }
@@ -237,16 +344,19 @@ export type Database = {
         Row: {
           description: string | null
           prodcode: string
+          tax_class: string | null
           unit: string | null
         }
         Insert: {
           description?: string | null
           prodcode: string
+          tax_class?: string | null
           unit?: string | null
         }
         Update: {
           description?: string | null
           prodcode?: string
+          tax_class?: string | null
           unit?: string | null
         }
         Relationships: []
@@ -269,23 +379,173 @@ export type Database = {
         }
         Relationships: []
       }
+      sale_drafts: {
+        Row: {
+          created_at: string
+          id: string
+          payload: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          payload?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          payload?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sale_template_lines: {
+        Row: {
+          prodcode: string
+          quantity: number
+          template_id: string
+        }
+        Insert: {
+          prodcode: string
+          quantity: number
+          template_id: string
+        }
+        Update: {
+          prodcode?: string
+          quantity?: number
+          template_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_template_lines_prodcode_fkey"
+            columns: ["prodcode"]
+            isOneToOne: false
+            referencedRelation: "product"
+            referencedColumns: ["prodcode"]
+          },
+          {
+            foreignKeyName: "sale_template_lines_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "sale_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_templates: {
+        Row: {
+          active: boolean
+          created_at: string
+          created_by: string | null
+          custno: string
+          empno: string | null
+          end_date: string | null
+          frequency: string
+          generated_count: number
+          id: string
+          last_error: string | null
+          name: string
+          next_run: string
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          created_by?: string | null
+          custno: string
+          empno?: string | null
+          end_date?: string | null
+          frequency: string
+          generated_count?: number
+          id?: string
+          last_error?: string | null
+          name: string
+          next_run: string
+          start_date: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          created_by?: string | null
+          custno?: string
+          empno?: string | null
+          end_date?: string | null
+          frequency?: string
+          generated_count?: number
+          id?: string
+          last_error?: string | null
+          name?: string
+          next_run?: string
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_templates_custno_fkey"
+            columns: ["custno"]
+            isOneToOne: false
+            referencedRelation: "customer"
+            referencedColumns: ["custno"]
+          },
+          {
+            foreignKeyName: "sale_templates_empno_fkey"
+            columns: ["empno"]
+            isOneToOne: false
+            referencedRelation: "employee"
+            referencedColumns: ["empno"]
+          },
+        ]
+      }
       sales: {
         Row: {
+          client_id: string | null
           custno: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          discount_reason: string | null
+          discount_type: string | null
+          discount_value: number | null
           empno: string | null
+          prices_include_tax: boolean
           salesdate: string | null
+          tax_exempt: boolean
+          template_id: string | null
           transno: string
         }
         Insert: {
+          client_id?: string | null
           custno?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          discount_reason?: string | null
+          discount_type?: string | null
+          discount_value?: number | null
           empno?: string | null
+          prices_include_tax?: boolean
           salesdate?: string | null
+          tax_exempt?: boolean
+          template_id?: string | null
           transno: string
         }
         Update: {
+          client_id?: string | null
           custno?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          discount_reason?: string | null
+          discount_type?: string | null
+          discount_value?: number | null
           empno?: string | null
+          prices_include_tax?: boolean
           salesdate?: string | null
+          tax_exempt?: boolean
+          template_id?: string | null
           transno?: string
         }
         Relationships: [
@@ -303,6 +563,13 @@ export type Database = {
             referencedRelation: "employee"
             referencedColumns: ["empno"]
           },
+          {
+            foreignKeyName: "sales_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "sale_templates"
+            referencedColumns: ["id"]
+          },
         ]
       }
       sales_audit_log: {
@@ -341,21 +608,110 @@ export type Database = {
         }
         Relationships: []
       }
+      sales_view_preferences: {
+        Row: {
+          default_view_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          default_view_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          default_view_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_view_preferences_default_view_id_fkey"
+            columns: ["default_view_id"]
+            isOneToOne: false
+            referencedRelation: "sales_views"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_views: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          query: string
+          shared: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          query?: string
+          shared?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          query?: string
+          shared?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       salesdetail: {
         Row: {
+          deleted_at: string | null
+          deleted_by: string | null
+          description: string | null
+          discount_reason: string | null
+          discount_type: string | null
+          discount_value: number | null
           prodcode: string
           quantity: number | null
+          tax_amount: number
+          tax_class: string | null
+          tax_rate: number
           transno: string
+          unit: string | null
+          unitprice: number | null
         }
         Insert: {
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string | null
+          discount_reason?: string | null
+          discount_type?: string | null
+          discount_value?: number | null
           prodcode: string
           quantity?: number | null
+          tax_amount?: number
+          tax_class?: string | null
+          tax_rate?: number
           transno: string
+          unit?: string | null
+          unitprice?: number | null
         }
         Update: {
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string | null
+          discount_reason?: string | null
+          discount_type?: string | null
+          discount_value?: number | null
           prodcode?: string
           quantity?: number | null
+          tax_amount?: number
+          tax_class?: string | null
+          tax_rate?: number
           transno?: string
+          unit?: string | null
+          unitprice?: number | null
         }
         Relationships: [
           {
@@ -374,6 +730,72 @@ export type Database = {
           },
         ]
       }
+      tax_classes: {
+        Row: {
+          active: boolean
+          code: string
+          description: string
+          rate: number
+        }
+        Insert: {
+          active?: boolean
+          code: string
+          description: string
+          rate?: number
+        }
+        Update: {
+          active?: boolean
+          code?: string
+          description?: string
+          rate?: number
+        }
+        Relationships: []
+      }
+      tax_settings: {
+        Row: {
+          default_tax_class: string | null
+          id: boolean
+          prices_include_tax: boolean
+          updated_at: string
+        }
+        Insert: {
+          default_tax_class?: string | null
+          id?: boolean
+          prices_include_tax?: boolean
+          updated_at?: string
+        }
+        Update: {
+          default_tax_class?: string | null
+          id?: boolean
+          prices_include_tax?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      transaction_number_series: {
+        Row: {
+          next_value: number
+          padding: number
+          prefix: string
+          series: string
+          updated_at: string
+        }
+        Insert: {
+          next_value?: number
+          padding?: number
+          prefix?: string
+          series: string
+          updated_at?: string
+        }
+        Update: {
+          next_value?: number
+          padding?: number
+          prefix?: string
+          series?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       transaction_history: {
         Row: {
           action: string
@@ -477,6 +899,7 @@ export type Database = {
           can_edit_sales_detail: boolean
           created_at: string | null
           id: string
+          max_discount_percent: number
           updated_at: string | null
           user_id: string
         }
@@ -489,6 +912,7 @@ export type Database = {
           can_edit_sales_detail?: boolean
           created_at?: string | null
           id?: string
+          max_discount_percent?: number
           updated_at?: string | null
           user_id: string
         }
@@ -501,6 +925,7 @@ export type Database = {
           can_edit_sales_detail?: boolean
           created_at?: string | null
           id?: string
+          max_discount_percent?: number
           updated_at?: string | null
           user_id?: string
         }
@@ -526,10 +951,224 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      sales_line_items: {
+        Row: {
+          amount: number | null
+          amount_excl_tax: number | null
+          amount_incl_tax: number | null
+          deleted_at: string | null
+          description: string | null
+          discount_reason: string | null
+          discount_type: string | null
+          discount_value: number | null
+          gross_amount: number | null
+          line_discount_amount: number | null
+          net_amount: number | null
+          prodcode: string | null
+          quantity: number | null
+          tax_amount: number | null
+          tax_class: string | null
+          tax_rate: number | null
+          transno: string | null
+          unit: string | null
+          unitprice: number | null
+        }
+        Relationships: []
+      }
+      sales_summary: {
+        Row: {
+          custname: string | null
+          custno: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          deleted_by_email: string | null
+          discount_reason: string | null
+          discount_total: number | null
+          discount_type: string | null
+          discount_value: number | null
+          empname: string | null
+          empno: string | null
+          gross_total: number | null
+          line_discount_total: number | null
+          order_discount_amount: number | null
+          prices_include_tax: boolean | null
+          salesdate: string | null
+          tax_exempt: boolean | null
+          tax_total: number | null
+          template_id: string | null
+          template_name: string | null
+          total_excl_tax: number | null
+          total_incl_tax: number | null
+          total_price: number | null
+          transno: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      apply_sale_tax: {
+        Args: {
+          p_transno: string
+        }
+        Returns: undefined
+      }
+      create_credit_memo: {
+        Args: {
+          p_transno: string
+          p_lines: Json
+          p_reason?: string
+          p_memo_date?: string
+        }
+        Returns: Json
+      }
+      customer_tax_exempt: {
+        Args: {
+          p_custno: string
+        }
+        Returns: boolean
+      }
+      discount_amount: {
+        Args: {
+          p_base: number
+          p_type: string
+          p_value: number
+        }
+        Returns: number
+      }
+      effective_unit_price: {
+        Args: {
+          p_prodcode: string
+          p_on: string
+        }
+        Returns: number
+      }
+      format_transaction_number: {
+        Args: {
+          p_prefix: string
+          p_padding: number
+          p_value: number
+        }
+        Returns: string
+      }
+      generate_due_sales: {
+        Args: {
+          p_today?: string
+        }
+        Returns: number
+      }
+      get_sales_page: {
+        Args: {
+          p_search?: string
+          p_search_field?: string
+          p_sort_field?: string
+          p_sort_order?: string
+          p_limit?: number
+          p_offset?: number
+          p_include_audit?: boolean
+          p_filters?: Json
+        }
+        Returns: Json
+      }
+      import_sales: {
+        Args: {
+          p_sales: Json
+          p_dry_run?: boolean
+          p_keep_numbers?: boolean
+        }
+        Returns: Json
+      }
+      peek_transaction_number: {
+        Args: {
+          p_series?: string
+        }
+        Returns: string
+      }
+      purge_sale: {
+        Args: {
+          p_transno: string
+        }
+        Returns: undefined
+      }
+      reassign_sales: {
+        Args: {
+          p_transnos: string[]
+          p_changes: Json
+        }
+        Returns: undefined
+      }
+      reprice_sale: {
+        Args: {
+          p_transno: string
+        }
+        Returns: number
+      }
+      restore_sale: {
+        Args: {
+          p_transno: string
+        }
+        Returns: undefined
+      }
+      returned_quantity: {
+        Args: {
+          p_transno: string
+          p_prodcode: string
+        }
+        Returns: number
+      }
+      sale_template_occurrence: {
+        Args: {
+          p_frequency: string
+          p_start: string
+          p_n: number
+        }
+        Returns: string
+      }
+      save_sale: {
+        Args: {
+          p_transno: string
+          p_salesdate: string
+          p_custno: string
+          p_empno: string
+          p_details: Json
+          p_is_new?: boolean
+          p_discount?: Json
+          p_client_id?: string
+        }
+        Returns: Json
+      }
+      tax_amount: {
+        Args: {
+          p_amount: number
+          p_rate: number
+          p_inclusive: boolean
+        }
+        Returns: number
+      }
+      trash_sale: {
+        Args: {
+          p_transno: string
+        }
+        Returns: undefined
+      }
+      unit_prices_on: {
+        Args: {
+          p_on: string
+        }
+        Returns: {
+          prodcode: string
+          unitprice: number
+        }[]
+      }
+      validate_discount: {
+        Args: {
+          p_base: number
+          p_type: string
+          p_value: number
+          p_reason: string
+          p_max_percent: number
+        }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "admin" | "user"
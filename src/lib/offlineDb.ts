@@ -0,0 +1,55 @@
+// Small promise wrapper around the browser's IndexedDB for the offline sales cache.
+// 'cache' holds reference data and counters by key; 'queue' holds sales waiting to sync.
+
+const DB_NAME = "sales-offline"
+const DB_VERSION = 1
+
+export type OfflineStore = "cache" | "queue"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains("cache")) db.createObjectStore("cache")
+        if (!db.objectStoreNames.contains("queue")) db.createObjectStore("queue", { keyPath: "id" })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const run = async <T>(store: OfflineStore, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest) => {
+  const db = await openDb()
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(store, mode)
+    const request = action(transaction.objectStore(store))
+    // Resolve once the write is durable, not just when the request succeeds
+    transaction.oncomplete = () => resolve(request.result as T)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export const offlineGet = <T>(store: OfflineStore, key: string) =>
+  run<T | undefined>(store, "readonly", (s) => s.get(key))
+
+export const offlineGetAll = <T>(store: OfflineStore) =>
+  run<T[]>(store, "readonly", (s) => s.getAll())
+
+// Stores without a key path ('cache') need the key; 'queue' takes it from the value's id
+export const offlinePut = (store: OfflineStore, value: unknown, key?: string) =>
+  run<IDBValidKey>(store, "readwrite", (s) => (key === undefined ? s.put(value) : s.put(value, key)))
+
+export const offlineDelete = (store: OfflineStore, key: string) =>
+  run<undefined>(store, "readwrite", (s) => s.delete(key))
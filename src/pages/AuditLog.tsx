@@ -0,0 +1,328 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase, AuditLogEntry } from '@/integrations/supabase/client';
+import { AppHeader } from '@/components/app-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { AlertCircle, Download, X } from 'lucide-react';
+import { SalesPagination } from '@/components/sales/SalesPagination';
+import { AuditActionLabel, AuditEntryDetail } from '@/components/sales/AuditHistory';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_TABLES,
+  AuditLogFilters,
+  fetchAllAuditLogs,
+  fetchAuditLogPage,
+  fetchTransactionAuditLogs
+} from '@/services/auditLogService';
+import { auditTransno } from '@/utils/auditDiff';
+import { exportAuditLog } from '@/utils/salesExport';
+
+const ALL = 'all';
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+
+type Option = { value: string; label: string };
+
+const AuditLog = () => {
+  const { isAdmin } = useAuth();
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(25);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  // Filters as last applied; typing in the text filters waits for a pause
+  const [appliedFilters, setAppliedFilters] = useState<AuditLogFilters>({});
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null);
+  const [entryHistory, setEntryHistory] = useState<AuditLogEntry[]>([]);
+  const [customers, setCustomers] = useState<Option[]>([]);
+  const [employees, setEmployees] = useState<Option[]>([]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setAppliedFilters(filters);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await fetchAuditLogPage({ filters: appliedFilters, page, pageSize });
+      setEntries(result.entries);
+      setTotalCount(result.totalCount);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the audit log",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFilters, page, pageSize, toast]);
+
+  useEffect(() => {
+    if (isAdmin) loadEntries();
+  }, [isAdmin, loadEntries]);
+
+  // Names for the customer and salesperson codes shown in the diffs
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    Promise.all([
+      supabase.from('customer').select('custno, custname'),
+      supabase.from('employee').select('empno, firstname, lastname')
+    ]).then(([customersResult, employeesResult]) => {
+      setCustomers((customersResult.data || []).map(c => ({ value: c.custno, label: c.custname || c.custno })));
+      setEmployees((employeesResult.data || []).map(e => ({
+        value: e.empno,
+        label: `${e.firstname || ''} ${e.lastname || ''}`.trim() || e.empno
+      })));
+    });
+  }, [isAdmin]);
+
+  const openEntry = async (entry: AuditLogEntry) => {
+    setSelectedEntry(entry);
+    setEntryHistory([entry]);
+
+    const transno = auditTransno(entry);
+    if (!transno) return;
+
+    try {
+      setEntryHistory(await fetchTransactionAuditLogs(transno));
+    } catch (error) {
+      console.error('Error fetching transaction history:', error);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const all = await fetchAllAuditLogs(appliedFilters);
+      await exportAuditLog(all);
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export the audit log",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const setFilter = (key: keyof AuditLogFilters, value: string) =>
+    setFilters(prev => ({ ...prev, [key]: value && value !== ALL ? value : undefined }));
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <AppHeader currentPath="/audit" />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-2xl font-bold mb-1">Audit Log</h1>
+            <p className="text-muted-foreground">Every change made to sales, customers, products, prices and user access</p>
+          </div>
+          {isAdmin && (
+            <Button variant="outline" onClick={handleExport} disabled={exporting || totalCount === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              {exporting ? 'Exporting...' : 'Export CSV'}
+            </Button>
+          )}
+        </div>
+
+        {!isAdmin ? (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Only administrators can view the audit log.</AlertDescription>
+          </Alert>
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              <div className="grid grid-cols-2 gap-3 p-4 border-b md:grid-cols-3 lg:grid-cols-6">
+                <div className="space-y-1">
+                  <Label className="text-xs">Table</Label>
+                  <Select value={filters.tableName || ALL} onValueChange={(value) => setFilter('tableName', value)}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All tables</SelectItem>
+                      {AUDIT_TABLES.map(table => (
+                        <SelectItem key={table} value={table}>{table}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Action</Label>
+                  <Select value={filters.action || ALL} onValueChange={(value) => setFilter('action', value)}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All actions</SelectItem>
+                      {AUDIT_ACTIONS.map(action => (
+                        <SelectItem key={action} value={action}>{action}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="auditUser" className="text-xs">User email</Label>
+                  <Input
+                    id="auditUser"
+                    className="h-9"
+                    placeholder="Any user"
+                    value={filters.changedByEmail || ''}
+                    onChange={(e) => setFilter('changedByEmail', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="auditRecord" className="text-xs">Record ID</Label>
+                  <Input
+                    id="auditRecord"
+                    className="h-9"
+                    placeholder="e.g. a transaction number"
+                    value={filters.recordId || ''}
+                    onChange={(e) => setFilter('recordId', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="auditFrom" className="text-xs">From</Label>
+                  <Input
+                    id="auditFrom"
+                    type="date"
+                    className="h-9"
+                    value={filters.dateFrom || ''}
+                    onChange={(e) => setFilter('dateFrom', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="auditTo" className="text-xs">To</Label>
+                  <div className="flex gap-1">
+                    <Input
+                      id="auditTo"
+                      type="date"
+                      className="h-9"
+                      value={filters.dateTo || ''}
+                      onChange={(e) => setFilter('dateTo', e.target.value)}
+                    />
+                    {hasFilters && (
+                      <Button variant="ghost" size="icon" className="h-9 w-9 shrink-0" title="Clear filters" onClick={() => setFilters({})}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date/Time</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Table</TableHead>
+                      <TableHead>Record ID</TableHead>
+                      <TableHead>User</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loading ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">Loading...</TableCell>
+                      </TableRow>
+                    ) : entries.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">No audit entries match these filters</TableCell>
+                      </TableRow>
+                    ) : entries.map((entry) => (
+                      <TableRow
+                        key={entry.id}
+                        className={`cursor-pointer ${selectedEntry?.id === entry.id ? 'bg-muted/50' : ''}`}
+                        onClick={() => openEntry(entry)}
+                      >
+                        <TableCell className="whitespace-nowrap">{formatDateTime(entry.created_at)}</TableCell>
+                        <TableCell><AuditActionLabel action={entry.action} /></TableCell>
+                        <TableCell>{entry.table_name}</TableCell>
+                        <TableCell className="font-mono">{entry.record_id}</TableCell>
+                        <TableCell>{entry.changed_by_email}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <SalesPagination
+                page={page}
+                pageSize={pageSize}
+                totalCount={totalCount}
+                onPageChange={setPage}
+                onPageSizeChange={(size) => {
+                  setPageSize(size);
+                  setPage(1);
+                }}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <Sheet open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <SheetContent className="w-full overflow-y-auto sm:max-w-2xl">
+          {selectedEntry && (
+            <>
+              <SheetHeader>
+                <SheetTitle className="flex items-center gap-2">
+                  <AuditActionLabel action={selectedEntry.action} />
+                  <span className="font-mono">{selectedEntry.record_id}</span>
+                </SheetTitle>
+                <SheetDescription>
+                  {selectedEntry.table_name} · {formatDateTime(selectedEntry.created_at)}
+                </SheetDescription>
+              </SheetHeader>
+              <div className="mt-6">
+                <AuditEntryDetail
+                  key={selectedEntry.id}
+                  entry={selectedEntry}
+                  // A late response for an entry opened earlier is not this entry's history
+                  history={entryHistory.some(e => e.id === selectedEntry.id) ? entryHistory : [selectedEntry]}
+                  customers={customers}
+                  employees={employees}
+                />
+              </div>
+            </>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -25,6 +25,10 @@ const Dashboard = () => {
   const navigate = useNavigate();
   const [stats, setStats] = useState<DashboardStats>({
     totalSales: 0,
+    totalDiscounts: 0,
+    totalTax: 0,
+    totalGrossSales: 0,
+    totalReturns: 0,
     totalTransactions: 0,
     totalCustomers: 0,
     totalProducts: 0,
@@ -83,7 +87,12 @@ const Dashboard = () => {
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
               <StatsCard 
                 title="Total Sales" 
-                value={formatCurrency(stats.totalSales)}
+                value={formatCurrency(stats.totalGrossSales)}
+                description={[
+                  `${formatCurrency(stats.totalSales)} excl. tax + ${formatCurrency(stats.totalTax)} tax`,
+                  stats.totalDiscounts > 0 ? `after ${formatCurrency(stats.totalDiscounts)} in discounts` : '',
+                  stats.totalReturns > 0 ? `${formatCurrency(stats.totalReturns)} in returns` : ''
+                ].filter(Boolean).join(', ')}
                 icon={DollarSign}
                 iconColor="text-blue-500"
                 iconBgColor="bg-blue-100 dark:bg-blue-900/30"
@@ -0,0 +1,347 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { AppHeader } from '@/components/app-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { AlertCircle, CheckCircle2, FileSearch, Upload } from 'lucide-react';
+import {
+  buildImportSales,
+  guessImportMapping,
+  parseImportFile,
+  runSalesImport,
+  IMPORT_FIELDS,
+  ImportMapping,
+  ImportSale,
+  ImportSaleResult,
+  ParsedImportFile
+} from '@/services/salesImportService';
+
+const NOT_MAPPED = 'none';
+
+const ImportSales = () => {
+  const { isAdmin } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [fileName, setFileName] = useState('');
+  const [parsedFile, setParsedFile] = useState<ParsedImportFile | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [keepNumbers, setKeepNumbers] = useState(true);
+  const [sales, setSales] = useState<ImportSale[]>([]);
+  const [dryRunResults, setDryRunResults] = useState<ImportSaleResult[] | null>(null);
+  const [importResults, setImportResults] = useState<ImportSaleResult[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const resetResults = () => {
+    setDryRunResults(null);
+    setImportResults(null);
+    setProgress(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = await parseImportFile(file);
+
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        toast({
+          title: "Validation Error",
+          description: "The file has no data rows",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setFileName(file.name);
+      setParsedFile(parsed);
+      setMapping(guessImportMapping(parsed.headers));
+      resetResults();
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast({
+        title: "Error",
+        description: "Failed to read the file. Make sure it is a CSV or XLSX file with a header row.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleMappingChange = (field: keyof ImportMapping, header: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: header === NOT_MAPPED ? '' : header });
+    resetResults();
+  };
+
+  const missingFields = mapping
+    ? IMPORT_FIELDS.filter(({ field, required }) => required && !mapping[field])
+    : [];
+
+  const handleDryRun = async () => {
+    if (!parsedFile || !mapping) return;
+
+    try {
+      setRunning(true);
+      resetResults();
+
+      const builtSales = buildImportSales(parsedFile, mapping);
+      setSales(builtSales);
+      const run = await runSalesImport(builtSales, {
+        dryRun: true,
+        keepNumbers,
+        onProgress: (done, total) => setProgress({ done, total })
+      });
+
+      if (run.failure) {
+        toast({
+          title: "Error",
+          description: `Rows ${run.failure.fromRow}–${run.failure.toRow} could not be checked: ${run.failure.message}`,
+          variant: "destructive"
+        });
+        return;
+      }
+      setDryRunResults(run.results);
+    } catch (error) {
+      console.error('Error validating import:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to validate the file",
+        variant: "destructive"
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!dryRunResults) return;
+
+    const validRefs = new Set(dryRunResults.filter(result => result.ok).map(result => result.ref));
+    const validSales = sales.filter(sale => validRefs.has(sale.ref));
+
+    try {
+      setRunning(true);
+      setProgress(null);
+
+      const { results, failure } = await runSalesImport(validSales, {
+        dryRun: false,
+        keepNumbers,
+        onProgress: (done, total) => setProgress({ done, total })
+      });
+      const imported = results.filter(result => result.ok).length;
+
+      // Sales in the batches before a failure are saved, so the report shows them either way
+      setImportResults(results);
+      if (failure) {
+        toast({
+          title: "Import Stopped",
+          description: `${imported} of ${validSales.length} sales were imported before rows ${failure.fromRow}–${failure.toRow} failed: ${failure.message}. Import only the sales marked as not imported to finish.`,
+          variant: "destructive"
+        });
+      } else {
+        toast({
+          title: "Import Finished",
+          description: `${imported} of ${validSales.length} sales were imported`
+        });
+      }
+    } catch (error) {
+      console.error('Error importing sales:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "The import stopped part way",
+        variant: "destructive"
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const report = importResults || dryRunResults;
+  const reportErrors = (report || [])
+    .flatMap(result => result.errors)
+    .sort((a, b) => (a.row || 0) - (b.row || 0));
+  const validCount = (dryRunResults || []).filter(result => result.ok).length;
+  const importedCount = (importResults || []).filter(result => result.ok).length;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <AppHeader currentPath="/import-sales" />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold mb-1">Import Sales</h1>
+          <p className="text-muted-foreground">Bring historical sales in from a CSV or XLSX file</p>
+        </div>
+
+        {!isAdmin ? (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Only administrators can import sales.</AlertDescription>
+          </Alert>
+        ) : (
+          <div className="grid gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>1. Choose a file</CardTitle>
+                <CardDescription>
+                  One row per line item, with the transaction number on every row. Date, customer and
+                  employee may repeat on each line or sit on a row of their own without a product code.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Input type="file" accept=".csv,text/csv,.xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" onChange={handleFileChange} disabled={running} />
+                {parsedFile && (
+                  <p className="text-sm text-muted-foreground">
+                    {fileName}: {parsedFile.rows.length} rows, {parsedFile.headers.length} columns
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {parsedFile && mapping && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>2. Match the columns</CardTitle>
+                  <CardDescription>
+                    Lines without a unit price are charged the price in effect on the sale date.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    {IMPORT_FIELDS.map(({ field, label, required }) => (
+                      <div key={field} className="flex items-center justify-between gap-4">
+                        <Label>
+                          {label}
+                          {required && <span className="text-destructive"> *</span>}
+                        </Label>
+                        <Select
+                          value={mapping[field] || NOT_MAPPED}
+                          onValueChange={(value) => handleMappingChange(field, value)}
+                          disabled={running}
+                        >
+                          <SelectTrigger className="w-[220px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                            {parsedFile.headers.filter(Boolean).map((header) => (
+                              <SelectItem key={header} value={header}>{header}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="keep-numbers">Keep the transaction numbers from the file</Label>
+                    <Switch
+                      id="keep-numbers"
+                      checked={keepNumbers}
+                      onCheckedChange={(checked) => {
+                        setKeepNumbers(checked);
+                        resetResults();
+                      }}
+                      disabled={running}
+                    />
+                  </div>
+
+                  {missingFields.length > 0 && (
+                    <p className="text-sm font-medium text-destructive">
+                      Choose a column for {missingFields.map(({ label }) => label).join(', ')}
+                    </p>
+                  )}
+
+                  <div className="flex justify-end">
+                    <Button onClick={handleDryRun} disabled={running || missingFields.length > 0}>
+                      <FileSearch className="mr-2 h-4 w-4" />
+                      Check File
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {(progress || report) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>3. {importResults ? 'Import results' : 'Dry run report'}</CardTitle>
+                  <CardDescription>
+                    {importResults
+                      ? `${importedCount} sales imported, each with an audit entry.`
+                      : dryRunResults
+                        ? `${validCount} of ${dryRunResults.length} sales are ready to import. Nothing has been saved yet.`
+                        : 'Checking the file...'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {progress && running && (
+                    <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+                  )}
+
+                  {report && reportErrors.length === 0 && (
+                    <div className="flex items-center gap-2 text-sm text-green-600">
+                      <CheckCircle2 className="h-4 w-4" />
+                      No problems found
+                    </div>
+                  )}
+
+                  {reportErrors.length > 0 && (
+                    <div className="max-h-[420px] overflow-auto rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-[80px]">Row</TableHead>
+                            <TableHead>Transaction</TableHead>
+                            <TableHead>Field</TableHead>
+                            <TableHead>Problem</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {reportErrors.map((reportError, index) => (
+                            <TableRow key={`${reportError.row}-${reportError.field}-${index}`}>
+                              <TableCell className="font-mono">{reportError.row ?? '—'}</TableCell>
+                              <TableCell>{reportError.ref || '—'}</TableCell>
+                              <TableCell>
+                                <Badge variant="outline">{reportError.prodcode ? `${reportError.field} (${reportError.prodcode})` : reportError.field}</Badge>
+                              </TableCell>
+                              <TableCell>{reportError.message}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+
+                  <div className="flex justify-end gap-2">
+                    {importResults ? (
+                      <Button onClick={() => navigate('/sales-transactions')}>View Sales</Button>
+                    ) : (
+                      <Button onClick={handleImport} disabled={running || !dryRunResults || validCount === 0}>
+                        <Upload className="mr-2 h-4 w-4" />
+                        Import {validCount} Valid Sales
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ImportSales;
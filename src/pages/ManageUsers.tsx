@@ -68,6 +68,7 @@ type UserPermission = {
   can_edit_sales_detail: boolean;
   can_delete_sales_detail: boolean;
   can_add_sales_detail: boolean;
+  max_discount_percent: number;
 };
 
 // Define form schema for pre-registering an email
@@ -221,7 +222,8 @@ const ManageUsers = () => {
           can_add_sales: data.can_add_sales,
           can_edit_sales_detail: data.can_edit_sales_detail,
           can_delete_sales_detail: data.can_delete_sales_detail,
-          can_add_sales_detail: data.can_add_sales_detail
+          can_add_sales_detail: data.can_add_sales_detail,
+          max_discount_percent: data.max_discount_percent
         });
       } else {
         // For regular users, fetch permissions from user_permissions table
@@ -305,6 +307,7 @@ const ManageUsers = () => {
         can_edit_sales_detail: permissions.can_edit_sales_detail,
         can_delete_sales_detail: permissions.can_delete_sales_detail,
         can_add_sales_detail: permissions.can_add_sales_detail,
+        max_discount_percent: permissions.max_discount_percent,
         updated_at: new Date().toISOString() 
       };
       
@@ -379,7 +382,8 @@ const ManageUsers = () => {
         can_add_sales: isUserAdmin,
         can_edit_sales_detail: isUserAdmin,
         can_delete_sales_detail: isUserAdmin,
-        can_add_sales_detail: isUserAdmin
+        can_add_sales_detail: isUserAdmin,
+        max_discount_percent: isUserAdmin ? 100 : 0
       });
       
       toast({
@@ -811,6 +815,26 @@ const ManageUsers = () => {
                                   </div>
                                 </div>
                                 
+                                <h3 className="font-semibold mb-2 mt-4">Discounts</h3>
+                                <div className="flex items-center justify-between">
+                                  <Label htmlFor="max-discount" className="flex-grow">Maximum discount (%)</Label>
+                                  <Input
+                                    id="max-discount"
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    className="w-24"
+                                    value={permissions.max_discount_percent}
+                                    onChange={(e) =>
+                                      setPermissions({
+                                        ...permissions,
+                                        max_discount_percent: Math.min(100, Math.max(0, Number(e.target.value) || 0))
+                                      })
+                                    }
+                                    disabled={!isAdmin || !editingPermissions}
+                                  />
+                                </div>
+                                
                                 {isAdmin && editingPermissions && (
                                   <div className="flex justify-end mt-4">
                                     <Button 
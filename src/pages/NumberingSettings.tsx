@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { AppHeader } from '@/components/app-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { AlertCircle, Save } from 'lucide-react';
+import {
+  fetchNumberSeries,
+  formatSeriesNumber,
+  updateNumberSeries,
+  MAX_PADDING,
+  MAX_PREFIX_LENGTH,
+  MIN_PADDING,
+  NumberSeries,
+  PREFIX_PATTERN
+} from '@/services/numberSeriesService';
+
+const SERIES_LABELS: Record<string, string> = {
+  sales: 'Sales transactions',
+  credit_memo: 'Credit memos'
+};
+
+const NumberingSettings = () => {
+  const { isAdmin } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [seriesList, setSeriesList] = useState<NumberSeries[]>([]);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSeriesList(await fetchNumberSeries());
+    } catch (error) {
+      console.error('Error loading number series:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load numbering settings",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const updateSeries = (series: string, changes: Partial<NumberSeries>) => {
+    setSeriesList(seriesList.map(item => item.series === series ? { ...item, ...changes } : item));
+  };
+
+  const handleSave = async ({ series, prefix, padding }: NumberSeries) => {
+    const trimmedPrefix = prefix.trim().toUpperCase();
+
+    if (trimmedPrefix.length > MAX_PREFIX_LENGTH || !PREFIX_PATTERN.test(trimmedPrefix)) {
+      toast({
+        title: "Validation Error",
+        description: `The prefix can have up to ${MAX_PREFIX_LENGTH} letters, digits or dashes`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!Number.isInteger(padding) || padding < MIN_PADDING || padding > MAX_PADDING) {
+      toast({
+        title: "Validation Error",
+        description: `The number of digits must be between ${MIN_PADDING} and ${MAX_PADDING}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await updateNumberSeries(series, { prefix: trimmedPrefix, padding });
+      toast({
+        title: "Success",
+        description: `${SERIES_LABELS[series] || series} numbering saved. It applies to numbers allocated from now on.`
+      });
+      await loadData();
+    } catch (error) {
+      console.error('Error saving number series:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save numbering settings",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <AppHeader currentPath="/numbering" />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold mb-1">Numbering</h1>
+          <p className="text-muted-foreground">Prefixes and digit counts for transaction and credit memo numbers</p>
+        </div>
+
+        {!isAdmin && (
+          <Alert className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Only administrators can change numbering settings.</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Number Series</CardTitle>
+              <CardDescription>
+                Numbers are taken when a sale or memo is saved. Existing numbers are never renamed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Series</TableHead>
+                    <TableHead className="w-[160px]">Prefix</TableHead>
+                    <TableHead className="w-[120px]">Digits</TableHead>
+                    <TableHead>Next number</TableHead>
+                    {isAdmin && <TableHead className="w-[100px]"></TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {seriesList.map((item) => (
+                    <TableRow key={item.series}>
+                      <TableCell>{SERIES_LABELS[item.series] || item.series}</TableCell>
+                      <TableCell>
+                        <Input
+                          value={item.prefix}
+                          maxLength={MAX_PREFIX_LENGTH}
+                          onChange={(e) => updateSeries(item.series, { prefix: e.target.value })}
+                          disabled={!isAdmin}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={MIN_PADDING}
+                          max={MAX_PADDING}
+                          step="1"
+                          value={item.padding}
+                          onChange={(e) => updateSeries(item.series, { padding: Number(e.target.value) })}
+                          disabled={!isAdmin}
+                        />
+                      </TableCell>
+                      <TableCell className="font-mono">
+                        {formatSeriesNumber({ ...item, prefix: item.prefix.trim().toUpperCase() })}
+                      </TableCell>
+                      {isAdmin && (
+                        <TableCell>
+                          <Button variant="outline" size="sm" onClick={() => handleSave(item)}>
+                            <Save className="mr-1 h-4 w-4" />
+                            Save
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default NumberingSettings;
@@ -0,0 +1,331 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { AppHeader } from '@/components/app-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { AlertCircle, Edit, Play, Plus, Trash2 } from 'lucide-react';
+import { SaleTemplateDialog, TemplateOption } from '@/components/sales/SaleTemplateDialog';
+import {
+  deleteSaleTemplate,
+  fetchSaleTemplates,
+  generateDueSales,
+  isTemplateFinished,
+  saveSaleTemplate,
+  setSaleTemplateActive,
+  FREQUENCY_LABELS,
+  SaleTemplate,
+  SaleTemplateInput
+} from '@/services/saleTemplateService';
+import { formatSaleDate } from '@/utils/formatters';
+
+const SaleTemplates = () => {
+  const { isAdmin } = useAuth();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [templates, setTemplates] = useState<SaleTemplate[]>([]);
+  const [customers, setCustomers] = useState<TemplateOption[]>([]);
+  const [employees, setEmployees] = useState<TemplateOption[]>([]);
+  const [products, setProducts] = useState<TemplateOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<SaleTemplate | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<SaleTemplate | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  // Sales link here with ?template=<id> to open the template they were generated from
+  const linkedTemplateId = searchParams.get('template');
+  useEffect(() => {
+    if (!linkedTemplateId) return;
+    const linked = templates.find(template => template.id === linkedTemplateId);
+    if (!linked) return;
+
+    setEditingTemplate(linked);
+    setEditorOpen(true);
+    setSearchParams({}, { replace: true });
+  }, [linkedTemplateId, templates, setSearchParams]);
+
+  const loadTemplates = async () => {
+    setTemplates(await fetchSaleTemplates());
+  };
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setTemplates(await fetchSaleTemplates());
+
+      const { data: customersData, error: customersError } = await supabase
+        .from('customer')
+        .select('custno, custname')
+        .order('custname');
+
+      if (customersError) throw customersError;
+      setCustomers((customersData || []).map(c => ({ value: c.custno, label: c.custname || c.custno })));
+
+      const { data: employeesData, error: employeesError } = await supabase
+        .from('employee')
+        .select('empno, firstname, lastname')
+        .order('lastname');
+
+      if (employeesError) throw employeesError;
+      setEmployees((employeesData || []).map(e => ({
+        value: e.empno,
+        label: `${e.firstname || ''} ${e.lastname || ''}`.trim() || e.empno
+      })));
+
+      const { data: productsData, error: productsError } = await supabase
+        .from('product')
+        .select('prodcode, description')
+        .order('prodcode');
+
+      if (productsError) throw productsError;
+      setProducts((productsData || []).map(p => ({
+        value: p.prodcode,
+        label: p.description ? `${p.prodcode} – ${p.description}` : p.prodcode
+      })));
+    } catch (error) {
+      console.error('Error loading sale templates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load sale templates",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const openEditor = (template: SaleTemplate | null) => {
+    setEditingTemplate(template);
+    setEditorOpen(true);
+  };
+
+  const handleSave = async (input: SaleTemplateInput) => {
+    try {
+      await saveSaleTemplate(input, editingTemplate || undefined);
+      toast({
+        title: "Template Saved",
+        description: `"${input.name.trim()}" has been saved`
+      });
+      setEditorOpen(false);
+      await loadTemplates();
+    } catch (error) {
+      console.error('Error saving sale template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save template",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleToggleActive = async (template: SaleTemplate, active: boolean) => {
+    try {
+      await setSaleTemplateActive(template.id, active);
+      setTemplates(prev => prev.map(t => t.id === template.id ? { ...t, active } : t));
+    } catch (error) {
+      console.error('Error updating sale template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update template",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!templateToDelete) return;
+
+    try {
+      await deleteSaleTemplate(templateToDelete.id);
+      toast({
+        title: "Template Deleted",
+        description: `"${templateToDelete.name}" has been deleted. Sales it already created are kept.`
+      });
+      setTemplateToDelete(null);
+      await loadTemplates();
+    } catch (error) {
+      console.error('Error deleting sale template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete template",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      setGenerating(true);
+      const created = await generateDueSales();
+      toast({
+        title: "Templates Run",
+        description: created === 0
+          ? "No sales were due"
+          : `${created} sale${created === 1 ? ' was' : 's were'} created`
+      });
+      await loadTemplates();
+    } catch (error) {
+      console.error('Error generating sales:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate due sales",
+        variant: "destructive"
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const describeSchedule = (template: SaleTemplate) =>
+    `${FREQUENCY_LABELS[template.frequency]} from ${formatSaleDate(template.startDate)}` +
+    (template.endDate ? ` until ${formatSaleDate(template.endDate)}` : '');
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <AppHeader currentPath="/templates" />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-2xl font-bold mb-1">Sale Templates</h1>
+            <p className="text-muted-foreground">Standing orders that create a sale on a schedule</p>
+          </div>
+          {isAdmin && (
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={handleGenerate} disabled={generating}>
+                <Play className="h-4 w-4 mr-2" />
+                {generating ? 'Running...' : 'Run due now'}
+              </Button>
+              <Button onClick={() => openEditor(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Template
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {!isAdmin ? (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Only administrators can manage sale templates.</AlertDescription>
+          </Alert>
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Schedule</TableHead>
+                      <TableHead>Next Sale</TableHead>
+                      <TableHead className="text-right">Products</TableHead>
+                      <TableHead className="text-right">Created</TableHead>
+                      <TableHead>Active</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loading ? (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">Loading...</TableCell>
+                      </TableRow>
+                    ) : templates.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">No templates yet</TableCell>
+                      </TableRow>
+                    ) : templates.map((template) => (
+                      <TableRow key={template.id}>
+                        <TableCell className="font-medium">
+                          {template.name}
+                          {template.lastError && (
+                            <p className="text-xs font-normal text-destructive">{template.lastError}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>{template.custname || template.custno}</TableCell>
+                        <TableCell>{describeSchedule(template)}</TableCell>
+                        <TableCell>
+                          {isTemplateFinished(template)
+                            ? <Badge variant="secondary">Finished</Badge>
+                            : formatSaleDate(template.nextRun)}
+                        </TableCell>
+                        <TableCell className="text-right">{template.lines.length}</TableCell>
+                        <TableCell className="text-right">{template.generatedCount}</TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={template.active}
+                            onCheckedChange={(active) => handleToggleActive(template, active)}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="outline" size="icon" className="h-8 w-8 mr-2" onClick={() => openEditor(template)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8 text-destructive"
+                            onClick={() => setTemplateToDelete(template)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <SaleTemplateDialog
+        open={editorOpen}
+        template={editingTemplate}
+        customers={customers}
+        employees={employees}
+        products={products}
+        onSave={handleSave}
+        onOpenChange={setEditorOpen}
+      />
+
+      <Dialog open={!!templateToDelete} onOpenChange={(open) => !open && setTemplateToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Template</DialogTitle>
+            <DialogDescription>
+              "{templateToDelete?.name}" will stop creating sales. Sales it already created are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTemplateToDelete(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleDeleteConfirm}>Delete</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SaleTemplates;
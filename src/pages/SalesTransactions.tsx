@@ -1,10 +1,32 @@
-import React, { useEffect, useState } from 'react';
-import { useLocation } from 'react-router-dom';
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useSalesPermissions } from '@/hooks/use-sales-permissions';
+import { useOnlineStatus } from '@/hooks/use-online-status';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { ChevronDown, ChevronUp, Edit, Plus, Trash2, Search, ArrowUpDown, Info } from 'lucide-react';
-import { supabase, trackSalesChanges, AuditLogEntry, getAuditLogs } from '@/integrations/supabase/client';
+import { ChevronDown, ChevronUp, Edit, Plus, Trash2, Search, ArrowUpDown, Info, RefreshCcw, Undo2, Copy, Repeat, FileText, FileDown, Printer, Download, UserCog, Users, ScanBarcode, PencilLine } from 'lucide-react';
+import { supabase, AuditLogEntry } from '@/integrations/supabase/client';
+import {
+  saveSale,
+  peekTransactionNumber,
+  groupSaleErrors,
+  fetchSalesPage,
+  fetchAllSales,
+  repriceSale,
+  fetchDiscountReasons,
+  fetchInvoiceCustomers,
+  fetchUnitPricesOn,
+  DiscountReason,
+  SaleValidationError,
+  SaveSaleResult,
+  SalesDetail,
+  SalesTransaction,
+  SalesFilters,
+  SortField,
+  SortOrder,
+  SearchField
+} from '@/services/salesService';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
 import {
@@ -37,10 +59,80 @@ import {
 } from "@/components/ui/popover";
 
 import { AppHeader } from '@/components/app-header';
+import { SalesNavigationState } from '@/components/command-palette';
+import PermissionGuard from '@/components/PermissionGuard';
+import { SalesPagination } from '@/components/sales/SalesPagination';
+import { DiscountEditor } from '@/components/sales/DiscountEditor';
+import { Discount, calculateLineAmounts, calculateSaleTotals, describeDiscount } from '@/utils/salesTotals';
+import { fetchTaxConfiguration, resolveTaxRate, TaxConfiguration } from '@/services/taxService';
+import { fetchCreditMemos, CreditMemo } from '@/services/creditMemoService';
+import { ReturnDialog } from '@/components/sales/ReturnDialog';
+import { CreditMemoList } from '@/components/sales/CreditMemoList';
+import { SalesSelectionBar } from '@/components/sales/SalesSelectionBar';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { downloadInvoicePdf, printInvoicePdf } from '@/utils/invoicePdf';
+import { formatSaleDate } from '@/utils/formatters';
+import { exportSales, SalesExportFormat, SalesExportLayout } from '@/utils/salesExport';
+import { countActiveFilters, parseSalesListParams, SalesListState, toSalesListParams, toSalesViewQuery } from '@/utils/salesListParams';
+import { SalesFilterBuilder } from '@/components/sales/SalesFilterBuilder';
+import { SalesViewMenu } from '@/components/sales/SalesViewMenu';
+import { BulkActionDialog } from '@/components/sales/BulkActionDialog';
+import { BulkSalesAction, deleteSales, fetchSalesWithReturns, reassignSales } from '@/services/salesBulkService';
+import { trashSale } from '@/services/salesTrashService';
+import {
+  deleteSaleDraft,
+  fetchSaleDrafts,
+  isEmptySaleDraft,
+  saveSaleDraft,
+  SaleDraft,
+  SaleDraftPayload
+} from '@/services/saleDraftService';
+import { SaleDraftsMenu } from '@/components/sales/SaleDraftsMenu';
+import { OfflineSyncPanel } from '@/components/sales/OfflineSyncPanel';
+import { PosMode } from '@/components/sales/PosMode';
+import { AuditHistory } from '@/components/sales/AuditHistory';
+import { fetchTransactionAuditLogs } from '@/services/auditLogService';
+import {
+  joinSalesPresence,
+  mergeSalesChanges,
+  SaleChange,
+  SalesEditor,
+  SalesPresence,
+  subscribeToSalesChanges
+} from '@/services/salesRealtimeService';
+import {
+  cacheReferenceData,
+  fetchQueuedSales,
+  isNetworkError,
+  loadCachedReferenceData,
+  peekProvisionalTransno,
+  queueSale,
+  removeQueuedSale,
+  syncQueuedSales,
+  QueuedSale,
+  SyncResult
+} from '@/services/offlineSalesService';
+import {
+  deleteSalesView,
+  fetchDefaultSalesViewId,
+  fetchSalesViews,
+  saveSalesView,
+  setDefaultSalesView,
+  SalesView
+} from '@/services/salesViewService';
 
 type Customer = {
   custno: string;
   custname: string | null;
+  tax_exempt: boolean;
 };
 
 type Employee = {
@@ -54,59 +146,34 @@ type Product = {
   prodcode: string;
   description: string | null;
   unit: string | null;
+  tax_class: string | null;
   latestPrice: number | null;
 };
 
-type SalesDetail = {
-  prodcode: string;
-  quantity: number | null;
-  description: string | null;
-  unit: string | null;
-  unitprice: number | null;
-  customUnit?: string;
-  createdBy?: string;
-  updatedBy?: string;
-  deletedBy?: string;
-};
-
-type AuditInfo = {
-  createdBy: string | null;
-  updatedBy: string | null;
-  deletedBy: string | null;
-  createdAt: string | null;
-  updatedAt: string | null;
-  deletedAt: string | null;
-};
-
-type SalesTransaction = {
-  transno: string;
-  salesdate: string | null;
-  custno: string | null;
-  empno: string | null;
-  custname: string | null;
-  empname: string | null;
-  productDetails: SalesDetail[];
-  totalPrice: number;
-  auditInfo?: AuditInfo;
-};
-
-type SortField = 'transno' | 'salesdate' | 'custname' | 'empname' | 'totalPrice';
-type SortOrder = 'asc' | 'desc';
-
 // Use the imported AuditLogEntry type
 type AuditLog = AuditLogEntry;
 
 const SalesTransactions = () => {
   const { user, isAdmin } = useAuth();
+  const { can, requirePermission, maxDiscountPercent } = useSalesPermissions();
   const location = useLocation();
   const { toast } = useToast();
+  const isOnline = useOnlineStatus();
+  // Search, filters, sort and paging live in the URL so a view can be bookmarked or shared
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [initialListState] = useState(() => parseSalesListParams(searchParams));
   
   const [salesData, setSalesData] = useState<SalesTransaction[]>([]);
-  const [filteredSalesData, setFilteredSalesData] = useState<SalesTransaction[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(initialListState.page);
+  const [pageSize, setPageSize] = useState(initialListState.pageSize);
   const [isLoading, setIsLoading] = useState(true);
   const [expandedTransaction, setExpandedTransaction] = useState<string | null>(null);
   
   const [isTransactionDialogOpen, setIsTransactionDialogOpen] = useState(false);
+  // Full-screen scanner entry, building the sale in the same form state as the dialog
+  const [isPosMode, setIsPosMode] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [currentTransaction, setCurrentTransaction] = useState<SalesTransaction | null>(null);
   const [isEditMode, setIsEditMode] = useState(false);
@@ -115,11 +182,28 @@ const SalesTransactions = () => {
   const [selectedCustomer, setSelectedCustomer] = useState<string>('');
   const [selectedEmployee, setSelectedEmployee] = useState<string>('');
   const [transactionProducts, setTransactionProducts] = useState<SalesDetail[]>([]);
+  const [orderDiscount, setOrderDiscount] = useState<Discount | null>(null);
   const [nextTransNo, setNextTransNo] = useState('');
+  // Draft the open dialog autosaves into; only new sales are drafted
+  const [activeDraftId, setActiveDraftId] = useState<string | null>(null);
+  const [saleDrafts, setSaleDrafts] = useState<SaleDraft[]>([]);
+  // Sale the dialog was prefilled from, and the old price of each copied line now priced differently
+  const [duplicatedFrom, setDuplicatedFrom] = useState<string | null>(null);
+  const [duplicatedPrices, setDuplicatedPrices] = useState<Record<string, number | null>>({});
+  // Sales entered offline, waiting on this device until they sync
+  const [queuedSales, setQueuedSales] = useState<QueuedSale[]>([]);
+  // Queued sale the dialog is correcting after the server rejected it
+  const [activeQueuedSale, setActiveQueuedSale] = useState<QueuedSale | null>(null);
+  const [syncRequest, setSyncRequest] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSync, setLastSync] = useState<SyncResult | null>(null);
+  const [offlineCachedAt, setOfflineCachedAt] = useState<string | null>(null);
   
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
+  const [discountReasons, setDiscountReasons] = useState<DiscountReason[]>([]);
+  const [taxConfiguration, setTaxConfiguration] = useState<TaxConfiguration | null>(null);
 
   const [showAddProduct, setShowAddProduct] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<string>('');
@@ -128,145 +212,406 @@ const SalesTransactions = () => {
   const [editingProductIndex, setEditingProductIndex] = useState<number | null>(null);
   const [editingUnit, setEditingUnit] = useState<string>('');
 
-  const [customerName, setCustomerName] = useState<string>('');
-  const [employeeName, setEmployeeName] = useState<string>('');
-
-  const [sortField, setSortField] = useState<SortField>('transno');
-  const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
-  const [searchTerm, setSearchTerm] = useState('');
-  const [searchField, setSearchField] = useState<string>('all');
+  const [saveErrors, setSaveErrors] = useState<SaleValidationError[]>([]);
+
+  const [sortField, setSortField] = useState<SortField>(initialListState.sortField);
+  const [sortOrder, setSortOrder] = useState<SortOrder>(initialListState.sortOrder);
+  const [searchTerm, setSearchTerm] = useState(initialListState.searchTerm);
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState(initialListState.searchTerm);
+  const [searchField, setSearchField] = useState<SearchField>(initialListState.searchField);
+  const [filters, setFilters] = useState<SalesFilters>(initialListState.filters);
+  const [salesViews, setSalesViews] = useState<SalesView[]>([]);
+  const [defaultViewId, setDefaultViewId] = useState<string | null>(null);
+  const latestSalesRequest = useRef(0);
+  // Rows on screen, for merging changes that arrive after an await
+  const salesDataRef = useRef(salesData);
+  salesDataRef.current = salesData;
+
+  // Other users on this page and the transactions they have open
+  const [salesEditors, setSalesEditors] = useState<SalesEditor[]>([]);
+  const salesPresence = useRef<SalesPresence | null>(null);
+  // Drafts whose sale was saved or queued; an autosave still in flight must not bring them back
+  const finishedDraftIds = useRef(new Set<string>());
+  // Unit prices on the sale a copy was made from, by product
+  const duplicateSourcePrices = useRef<Record<string, number | null>>({});
   
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
   const [showAuditDialog, setShowAuditDialog] = useState(false);
   const [selectedTransactionForAudit, setSelectedTransactionForAudit] = useState<string | null>(null);
+  const [repriceTransno, setRepriceTransno] = useState<string | null>(null);
+  // Credit memos of the expanded transaction
+  const [creditMemos, setCreditMemos] = useState<CreditMemo[]>([]);
+  const [returnSale, setReturnSale] = useState<SalesTransaction | null>(null);
+  // Selected rows, kept across pages so a selection can span several of them
+  const [selectedSales, setSelectedSales] = useState<Record<string, SalesTransaction>>({});
+  const [isExporting, setIsExporting] = useState(false);
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
+  const [bulkAction, setBulkAction] = useState<BulkSalesAction | null>(null);
+  // Selected sales the pending bulk action will leave alone, and why
+  const [bulkSkipped, setBulkSkipped] = useState<Record<string, string>>({});
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
 
   useEffect(() => {
-    fetchSalesData();
     fetchReferenceData();
-    if (isAdmin) {
-      fetchAuditLogs();
-    }
+    loadSalesViews(true);
+    loadSaleDrafts();
+    loadQueuedSales();
   }, [isAdmin]);
 
-  const fetchAuditLogs = async () => {
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearchTerm(searchTerm), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Autosave the sale being built, a second after the last change
+  useEffect(() => {
+    if ((!isTransactionDialogOpen && !isPosMode) || !activeDraftId || !user) return;
+
+    const payload: SaleDraftPayload = {
+      salesdate: transactionDate,
+      custno: selectedCustomer,
+      empno: selectedEmployee,
+      products: transactionProducts,
+      discount: orderDiscount
+    };
+    if (isEmptySaleDraft(payload)) return;
+
+    const timeout = setTimeout(() => {
+      saveSaleDraft(user.id, activeDraftId, payload)
+        .then(draft => {
+          if (finishedDraftIds.current.has(draft.id)) return deleteSaleDraft(user.id, draft.id);
+          setSaleDrafts(prev => [draft, ...prev.filter(d => d.id !== draft.id)]);
+        })
+        .catch(error => console.error('Error autosaving draft:', error));
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [isTransactionDialogOpen, isPosMode, activeDraftId, user, transactionDate, selectedCustomer, selectedEmployee, transactionProducts, orderDiscount]);
+
+  // Send sales entered offline when the page opens, when the connection comes back
+  // and when asked to
+  useEffect(() => {
+    if (!isOnline || !user) return;
+    const userId = user.id;
+
+    setIsSyncing(true);
+    syncQueuedSales(userId)
+      .then(result => {
+        if (result.synced.length > 0) {
+          setLastSync(result);
+          // Syncing removed the drafts these sales were entered from
+          fetchSaleDrafts(userId)
+            .then(setSaleDrafts)
+            .catch(error => console.error('Error loading drafts:', error));
+          toast({
+            title: "Offline Sales Synced",
+            description: result.synced.length === 1
+              ? `${result.synced[0].provisionalTransno} was saved as transaction #${result.synced[0].transno}`
+              : `${result.synced.length} sales entered offline have been saved`
+          });
+        }
+        if (result.rejected.length > 0) {
+          toast({
+            title: "Sync Problems",
+            description: `${result.rejected.length} sale${result.rejected.length === 1 ? '' : 's'} entered offline need${result.rejected.length === 1 ? 's' : ''} correcting`,
+            variant: "destructive"
+          });
+        }
+        return fetchQueuedSales(userId);
+      })
+      .then(setQueuedSales)
+      .catch(error => console.error('Error syncing offline sales:', error))
+      .finally(() => setIsSyncing(false));
+  }, [isOnline, user, syncRequest, toast]);
+
+  const listState: SalesListState = {
+    searchTerm: debouncedSearchTerm,
+    searchField,
+    sortField,
+    sortOrder,
+    page,
+    pageSize,
+    filters
+  };
+  const listSearch = toSalesListParams(listState).toString();
+  // Query string last read from or written to the URL
+  const syncedSearch = useRef(searchParams.toString());
+  // Everything that selects the rows, apart from the page itself
+  const queryKey = toSalesListParams({ ...listState, page: 1 }).toString();
+  const lastQueryKey = useRef(queryKey);
+
+  // Any change to the filter or sort starts again from the first page
+  useEffect(() => {
+    if (lastQueryKey.current === queryKey) return;
+    lastQueryKey.current = queryKey;
+    setPage(1);
+  }, [queryKey]);
+
+  // Follow links and history entries that open the page on a different view
+  useEffect(() => {
+    const search = searchParams.toString();
+    if (search === syncedSearch.current) return;
+    syncedSearch.current = search;
+
+    const next = parseSalesListParams(searchParams);
+    lastQueryKey.current = toSalesListParams({ ...next, page: 1 }).toString();
+    setSearchTerm(next.searchTerm);
+    setDebouncedSearchTerm(next.searchTerm);
+    setSearchField(next.searchField);
+    setSortField(next.sortField);
+    setSortOrder(next.sortOrder);
+    setPage(next.page);
+    setPageSize(next.pageSize);
+    setFilters(next.filters);
+  }, [searchParams]);
+
+  useEffect(() => {
+    if (listSearch === syncedSearch.current) return;
+    syncedSearch.current = listSearch;
+    navigate({ search: listSearch ? `?${listSearch}` : '' }, { replace: true });
+  }, [listSearch, navigate]);
+
+  useEffect(() => {
+    fetchSalesData();
+  }, [isAdmin, debouncedSearchTerm, searchField, sortField, sortOrder, page, pageSize, filters, lastSync]);
+
+  const loadSalesViews = async (openDefault = false) => {
+    if (!user) return;
+
     try {
-      // Use the new utility function for fetching audit logs with proper typing
-      const logs = await getAuditLogs();
-      setAuditLogs(logs);
+      const [views, defaultId] = await Promise.all([fetchSalesViews(user.id), fetchDefaultSalesViewId()]);
+      setSalesViews(views);
+      setDefaultViewId(defaultId);
+
+      // A link that already carries a view wins over the default
+      const defaultView = views.find(view => view.id === defaultId);
+      if (openDefault && defaultView && !location.search) {
+        applySalesView(defaultView);
+      }
     } catch (error) {
-      console.error('Error fetching audit logs:', error);
+      console.error('Error loading saved views:', error);
     }
   };
 
-  useEffect(() => {
-    let filtered = [...salesData];
-    
-    if (searchTerm.trim() !== '') {
-      const term = searchTerm.toLowerCase();
-      
-      filtered = filtered.filter(sale => {
-        if (searchField === 'transno' || searchField === 'all') {
-          if (sale.transno.toLowerCase().includes(term)) return true;
-        }
-        
-        if (searchField === 'salesdate' || searchField === 'all') {
-          if (sale.salesdate && formatDate(sale.salesdate).toLowerCase().includes(term)) return true;
-        }
-        
-        if (searchField === 'custname' || searchField === 'all') {
-          if (sale.custname && sale.custname.toLowerCase().includes(term)) return true;
-        }
-        
-        if (searchField === 'empname' || searchField === 'all') {
-          if (sale.empname && sale.empname.toLowerCase().includes(term)) return true;
-        }
-        
-        return false;
+  const loadSaleDrafts = async () => {
+    if (!user) return;
+
+    try {
+      setSaleDrafts(await fetchSaleDrafts(user.id));
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+    }
+  };
+
+  const loadQueuedSales = async () => {
+    if (!user) return;
+
+    try {
+      setQueuedSales(await fetchQueuedSales(user.id));
+    } catch (error) {
+      console.error('Error loading offline sales:', error);
+    }
+  };
+
+  const handleFixQueuedSale = (queued: QueuedSale) => {
+    if (!requirePermission('can_add_sales')) return;
+
+    setIsEditMode(false);
+    setCurrentTransaction(null);
+    resetForm();
+    setActiveDraftId(null);
+    setActiveQueuedSale(queued);
+    setNextTransNo(queued.provisionalTransno);
+    setTransactionDate(queued.sale.salesdate);
+    setSelectedCustomer(queued.sale.custno);
+    setSelectedEmployee(queued.sale.empno);
+    setTransactionProducts(queued.sale.products);
+    setOrderDiscount(queued.sale.discount);
+    setSaveErrors(queued.errors);
+    setIsTransactionDialogOpen(true);
+  };
+
+  const handleDiscardQueuedSale = async (queued: QueuedSale) => {
+    try {
+      await removeQueuedSale(queued.id);
+      setQueuedSales(prev => prev.filter(q => q.id !== queued.id));
+    } catch (error) {
+      console.error('Error discarding offline sale:', error);
+      toast({
+        title: "Error",
+        description: "Failed to discard the sale",
+        variant: "destructive"
       });
     }
-    
-    filtered.sort((a, b) => {
-      let comparison = 0;
-      
-      switch (sortField) {
-        case 'transno':
-          comparison = a.transno.localeCompare(b.transno);
-          break;
-        case 'salesdate':
-          const dateA = a.salesdate || '';
-          const dateB = b.salesdate || '';
-          comparison = dateA.localeCompare(dateB);
-          break;
-        case 'custname':
-          const custNameA = a.custname || '';
-          const custNameB = b.custname || '';
-          comparison = custNameA.localeCompare(custNameB);
-          break;
-        case 'empname':
-          const empNameA = a.empname || '';
-          const empNameB = b.empname || '';
-          comparison = empNameA.localeCompare(empNameB);
-          break;
-        case 'totalPrice':
-          comparison = a.totalPrice - b.totalPrice;
-          break;
-      }
-      
-      return sortOrder === 'asc' ? comparison : -comparison;
+  };
+
+  const handleResumeDraft = (draft: SaleDraft) => {
+    if (!requirePermission('can_add_sales')) return;
+
+    setIsEditMode(false);
+    setCurrentTransaction(null);
+    resetForm();
+    setActiveQueuedSale(null);
+    setActiveDraftId(draft.id);
+    setTransactionDate(draft.payload.salesdate || new Date().toISOString().split('T')[0]);
+    setSelectedCustomer(draft.payload.custno);
+    setSelectedEmployee(draft.payload.empno);
+    setTransactionProducts(draft.payload.products);
+    setOrderDiscount(draft.payload.discount);
+
+    fetchProvisionalTransactionNumber().then(() => {
+      setIsTransactionDialogOpen(true);
     });
-    
-    setFilteredSalesData(filtered);
-  }, [salesData, searchTerm, searchField, sortField, sortOrder]);
+  };
+
+  const handleDiscardDraft = async (draft: SaleDraft) => {
+    if (!user) return;
+
+    try {
+      await deleteSaleDraft(user.id, draft.id);
+      setSaleDrafts(prev => prev.filter(d => d.id !== draft.id));
+    } catch (error) {
+      console.error('Error discarding draft:', error);
+      toast({
+        title: "Error",
+        description: "Failed to discard draft",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const applySalesView = (view: SalesView) => {
+    const search = toSalesListParams({ ...parseSalesListParams(new URLSearchParams(view.query)), pageSize }).toString();
+    navigate({ search: search ? `?${search}` : '' });
+  };
+
+  const handleSaveView = async (name: string, shared: boolean, id?: string) => {
+    try {
+      await saveSalesView({ id, name, shared, query: toSalesViewQuery(listState) });
+      toast({
+        title: "View Saved",
+        description: `"${name.trim()}" ${shared ? 'is saved and shared with everyone' : 'is saved'}`
+      });
+      await loadSalesViews();
+    } catch (error) {
+      console.error('Error saving view:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the view",
+        variant: "destructive"
+      });
+      throw error;
+    }
+  };
+
+  const handleDeleteView = async (view: SalesView) => {
+    try {
+      await deleteSalesView(view.id);
+      toast({
+        title: "View Deleted",
+        description: `"${view.name}" was deleted`
+      });
+      await loadSalesViews();
+    } catch (error) {
+      console.error('Error deleting view:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the view",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSetDefaultView = async (viewId: string | null) => {
+    if (!user) return;
+
+    try {
+      await setDefaultSalesView(user.id, viewId);
+      setDefaultViewId(viewId);
+    } catch (error) {
+      console.error('Error setting default view:', error);
+      toast({
+        title: "Error",
+        description: "Failed to change the default view",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Only the transaction being looked at; the whole log is browsed on the audit page
+  const fetchAuditLogs = async (transno: string) => {
+    try {
+      setAuditLogs(await fetchTransactionAuditLogs(transno));
+    } catch (error) {
+      console.error('Error fetching audit logs:', error);
+    }
+  };
 
   const fetchReferenceData = async () => {
     try {
       const { data: customersData, error: customersError } = await supabase
         .from('customer')
-        .select('custno, custname');
+        .select('custno, custname, tax_exempt');
       
       if (customersError) throw customersError;
-      setCustomers(customersData || []);
       
       const { data: employeesData, error: employeesError } = await supabase
         .from('employee')
         .select('empno, firstname, lastname');
       
       if (employeesError) throw employeesError;
-      setEmployees(employeesData.map(emp => ({
+      const employeesWithNames = employeesData.map(emp => ({
         ...emp,
         fullname: `${emp.firstname || ''} ${emp.lastname || ''}`.trim()
-      })) || []);
+      })) || [];
       
       const { data: productsData, error: productsError } = await supabase
         .from('product')
-        .select('prodcode, description, unit');
+        .select('prodcode, description, unit, tax_class');
       
       if (productsError) throw productsError;
       
-      const productsWithPrices = await Promise.all(
-        (productsData || []).map(async (product) => {
-          const { data: priceData, error: priceError } = await supabase
-            .from('pricehist')
-            .select('unitprice')
-            .eq('prodcode', product.prodcode)
-            .order('effdate', { ascending: false })
-            .limit(1);
-          
-          if (priceError) throw priceError;
-          
-          return {
-            ...product,
-            latestPrice: priceData && priceData.length > 0 ? priceData[0].unitprice : null
-          };
-        })
-      );
+      const prices = await fetchUnitPricesOn(new Date().toISOString().split('T')[0]);
+      const productsWithPrices = (productsData || []).map(product => ({
+        ...product,
+        latestPrice: prices.get(product.prodcode) ?? null
+      }));
       
+      const reasons = await fetchDiscountReasons();
+      const taxConfig = await fetchTaxConfiguration();
+
+      setCustomers(customersData || []);
+      setEmployees(employeesWithNames);
       setProducts(productsWithPrices);
+      setDiscountReasons(reasons);
+      setTaxConfiguration(taxConfig);
+      setOfflineCachedAt(null);
+
+      // Keep a copy so sales can still be entered without a connection
+      cacheReferenceData({
+        customers: customersData || [],
+        employees: employeesWithNames,
+        products: productsWithPrices,
+        discountReasons: reasons,
+        taxConfiguration: taxConfig
+      }).catch(error => console.error('Error caching reference data:', error));
       
-      await fetchLatestTransactionNumber();
+      await fetchProvisionalTransactionNumber();
       
     } catch (error) {
       console.error('Error fetching reference data:', error);
+
+      const cached = isNetworkError(error) ? await loadCachedReferenceData().catch(() => undefined) : undefined;
+      if (cached) {
+        setCustomers(cached.customers);
+        setEmployees(cached.employees);
+        setProducts(cached.products);
+        setDiscountReasons(cached.discountReasons);
+        setTaxConfiguration(cached.taxConfiguration);
+        setOfflineCachedAt(cached.cachedAt);
+        await fetchProvisionalTransactionNumber();
+        return;
+      }
+
       toast({
         title: "Error",
         description: "Failed to load reference data",
@@ -275,223 +620,188 @@ const SalesTransactions = () => {
     }
   };
 
-  const fetchSalesData = async () => {
+  // A background reload keeps the current rows on screen instead of the loading skeleton
+  const fetchSalesData = async (background = false) => {
+    const requestId = ++latestSalesRequest.current;
+
     try {
-      setIsLoading(true);
-      
-      const { data: salesData, error: salesError } = await supabase
-        .from('sales')
-        .select(`
-          transno,
-          salesdate,
-          custno,
-          empno,
-          customer:custno(custname),
-          employee:empno(firstname, lastname)
-        `)
-        .order('transno', { ascending: false });
-      
-      if (salesError) throw salesError;
-      
-      if (!salesData || salesData.length === 0) {
-        setSalesData([]);
-        setFilteredSalesData([]);
-        setIsLoading(false);
-        return;
-      }
-      
-      const salesWithDetails = await Promise.all(
-        salesData.map(async (sale) => {
-          const { data: detailsData, error: detailsError } = await supabase
-            .from('salesdetail')
-            .select(`
-              prodcode,
-              quantity,
-              product:prodcode(description, unit)
-            `)
-            .eq('transno', sale.transno);
-          
-          if (detailsError) throw detailsError;
-          
-          const productDetailsWithPrice = await Promise.all(
-            (detailsData || []).map(async (detail) => {
-              const { data: priceData, error: priceError } = await supabase
-                .from('pricehist')
-                .select('unitprice')
-                .eq('prodcode', detail.prodcode)
-                .lte('effdate', sale.salesdate || new Date().toISOString())
-                .order('effdate', { ascending: false })
-                .limit(1);
-              
-              if (priceError) throw priceError;
-              
-              const unitprice = priceData && priceData.length > 0 ? priceData[0].unitprice : null;
-              
-              const { data: productData } = await supabase
-                .from('product')
-                .select('unit')
-                .eq('prodcode', detail.prodcode)
-                .single();
-              
-              // Get audit info for this sales detail
-              let createdBy = null;
-              let updatedBy = null;
-              let deletedBy = null;
-              
-              if (isAdmin) {
-                const { data: auditData } = await supabase
-                  .from('sales_audit_log')
-                  .select('action, changed_by_email')
-                  .eq('table_name', 'salesdetail')
-                  .eq('record_id', `${sale.transno}-${detail.prodcode}`)
-                  .order('created_at', { ascending: true });
-                
-                if (auditData && auditData.length > 0) {
-                  auditData.forEach(log => {
-                    if (log.action === 'created') createdBy = log.changed_by_email;
-                    else if (log.action === 'updated') updatedBy = log.changed_by_email;
-                    else if (log.action === 'deleted') deletedBy = log.changed_by_email;
-                  });
-                }
-              }
-                
-              return {
-                prodcode: detail.prodcode,
-                quantity: detail.quantity,
-                description: detail.product?.description,
-                unit: productData?.unit || detail.product?.unit,
-                unitprice,
-                customUnit: productData?.unit !== detail.product?.unit ? productData?.unit : undefined,
-                createdBy,
-                updatedBy,
-                deletedBy
-              };
-            })
-          );
-          
-          const totalPrice = productDetailsWithPrice.reduce((sum, product) => {
-            const productTotal = (product.quantity || 0) * (product.unitprice || 0);
-            return sum + productTotal;
-          }, 0);
-          
-          // Get audit info for this sales transaction
-          let auditInfo: AuditInfo | undefined = undefined;
-          
-          if (isAdmin) {
-            const { data: auditData } = await supabase
-              .from('sales_audit_log')
-              .select('action, changed_by_email, created_at')
-              .eq('table_name', 'sales')
-              .eq('record_id', sale.transno)
-              .order('created_at', { ascending: true });
-            
-            if (auditData && auditData.length > 0) {
-              auditInfo = {
-                createdBy: null,
-                updatedBy: null,
-                deletedBy: null,
-                createdAt: null,
-                updatedAt: null,
-                deletedAt: null
-              };
-              
-              auditData.forEach(log => {
-                if (log.action === 'created') {
-                  auditInfo!.createdBy = log.changed_by_email;
-                  auditInfo!.createdAt = log.created_at;
-                }
-                else if (log.action === 'updated') {
-                  auditInfo!.updatedBy = log.changed_by_email;
-                  auditInfo!.updatedAt = log.created_at;
-                }
-                else if (log.action === 'deleted') {
-                  auditInfo!.deletedBy = log.changed_by_email;
-                  auditInfo!.deletedAt = log.created_at;
-                }
-              });
-            }
-          }
-          
-          return {
-            transno: sale.transno,
-            salesdate: sale.salesdate,
-            custno: sale.custno,
-            empno: sale.empno,
-            custname: sale.customer?.custname,
-            empname: sale.employee ? `${sale.employee.firstname || ''} ${sale.employee.lastname || ''}`.trim() : null,
-            productDetails: productDetailsWithPrice,
-            totalPrice,
-            auditInfo
-          };
-        })
-      );
-      
-      setSalesData(salesWithDetails);
-      setFilteredSalesData(salesWithDetails);
+      if (!background) setIsLoading(true);
+
+      const result = await fetchSalesPage({
+        searchTerm: debouncedSearchTerm,
+        searchField,
+        sortField,
+        sortOrder,
+        page,
+        pageSize,
+        filters,
+        includeAudit: isAdmin
+      });
+
+      // Ignore responses for a page or filter the user has already moved away from
+      if (requestId !== latestSalesRequest.current) return;
+
+      setSalesData(result.rows);
+      setTotalCount(result.totalCount);
+      // Keep selected rows in step with the reloaded page so invoices show current figures
+      setSelectedSales(current => {
+        const updated = { ...current };
+        result.rows.forEach(row => {
+          if (updated[row.transno]) updated[row.transno] = row;
+        });
+        return updated;
+      });
     } catch (error) {
       console.error('Error fetching sales data:', error);
+      // Offline, the banner explains it and the last page loaded stays on screen
+      if (!isNetworkError(error)) {
+        toast({
+          title: "Error",
+          description: "Failed to load sales data",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      if (requestId === latestSalesRequest.current) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Re-read just the sales that changed, with the list's search and filters applied
+  const applySalesChanges = async (changes: SaleChange[]) => {
+    const requestId = latestSalesRequest.current;
+
+    if (isTransactionDialogOpen && isEditMode && currentTransaction &&
+        changes.some(change => change.transno === currentTransaction.transno)) {
       toast({
-        title: "Error",
-        description: "Failed to load sales data",
+        title: "Transaction Changed",
+        description: `Transaction #${currentTransaction.transno} was just changed elsewhere. Saving will replace those changes.`,
         variant: "destructive"
       });
-    } finally {
-      setIsLoading(false);
+    }
+
+    try {
+      const result = await fetchSalesPage({
+        searchTerm: debouncedSearchTerm,
+        searchField,
+        sortField,
+        sortOrder,
+        page: 1,
+        pageSize: changes.length,
+        filters,
+        includeAudit: isAdmin,
+        transnos: changes.map(change => change.transno)
+      });
+
+      // A reload started meanwhile already has the changes
+      if (requestId !== latestSalesRequest.current) return;
+
+      const merged = mergeSalesChanges(salesDataRef.current, changes, result.rows, { sortField, sortOrder, page, pageSize });
+      setSalesData(merged.rows);
+      setTotalCount(prev => Math.max(prev + merged.countChange, 0));
+      setSelectedSales(current => {
+        const updated = { ...current };
+        result.rows.forEach(row => {
+          if (updated[row.transno]) updated[row.transno] = row;
+        });
+        return updated;
+      });
+
+      if (merged.reload) fetchSalesData(true);
+    } catch (error) {
+      console.error('Error applying sales changes:', error);
     }
   };
 
+  // The subscription outlives renders, so it calls the latest handler through a ref
+  const handleSalesChanges = useRef(applySalesChanges);
+  handleSalesChanges.current = applySalesChanges;
+  useEffect(() => subscribeToSalesChanges(changes => handleSalesChanges.current(changes)), []);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const presence = joinSalesPresence({ id: user.id, email: user.email || '' }, setSalesEditors);
+    salesPresence.current = presence;
+    return () => {
+      presence.leave();
+      salesPresence.current = null;
+      setSalesEditors([]);
+    };
+  }, [user?.id, user?.email]);
+
+  const editingTransno = isTransactionDialogOpen && isEditMode ? currentTransaction?.transno ?? null : null;
+  useEffect(() => {
+    salesPresence.current?.setEditing(editingTransno);
+  }, [editingTransno, user?.id]);
+
+  // Emails of the other users editing a transaction, once each
+  const editorsOf = (transno: string) =>
+    [...new Set(salesEditors.filter(editor => editor.transno === transno).map(editor => editor.email))];
+
   const handleAddTransaction = () => {
+    if (!requirePermission('can_add_sales')) return;
+
     setIsEditMode(false);
     setCurrentTransaction(null);
     resetForm();
+    setActiveQueuedSale(null);
+    setActiveDraftId(crypto.randomUUID());
     
-    fetchLatestTransactionNumber().then(() => {
+    fetchProvisionalTransactionNumber().then(() => {
       setIsTransactionDialogOpen(true);
     });
   };
 
-  const fetchLatestTransactionNumber = async () => {
+  // The command palette opens a sale or starts a new one through navigation state. The
+  // ref lets the effect call the latest handler without re-running on every render.
+  const startNewSale = useRef(handleAddTransaction);
+  startNewSale.current = handleAddTransaction;
+  useEffect(() => {
+    const state = location.state as SalesNavigationState | null;
+    if (!state) return;
+
+    if (state.expandTransaction) setExpandedTransaction(state.expandTransaction);
+    if (state.newSale) startNewSale.current();
+    // Drop the state so a reload or going back does not repeat it
+    navigate({ search: location.search }, { replace: true, state: null });
+  }, [location.state, location.search, navigate]);
+
+  const handleStartPos = () => {
+    if (!requirePermission('can_add_sales')) return;
+
+    setIsEditMode(false);
+    setCurrentTransaction(null);
+    resetForm();
+    setActiveQueuedSale(null);
+    setActiveDraftId(crypto.randomUUID());
+
+    fetchProvisionalTransactionNumber().then(() => {
+      setIsPosMode(true);
+    });
+  };
+
+  const handlePosTender = async () => {
+    const saved = await handleSaveTransaction();
+    // Stay on the till, ready for the next customer
+    if (saved) {
+      setActiveDraftId(crypto.randomUUID());
+    }
+    return saved;
+  };
+
+  const fetchProvisionalTransactionNumber = async () => {
     try {
-      const { data: lastTrans, error: lastTransError } = await supabase
-        .from('sales')
-        .select('transno')
-        .order('transno', { ascending: false })
-        .limit(1);
-      
-      if (lastTransError) throw lastTransError;
-      
-      let nextNumber;
-      if (lastTrans && lastTrans.length > 0) {
-        const lastTransNo = lastTrans[0].transno;
-        
-        const matches = lastTransNo.match(/^([A-Za-z]*)(\d+)$/);
-        if (matches && matches.length === 3) {
-          const prefix = matches[1];
-          const numPart = matches[2];
-          
-          const nextNumValue = parseInt(numPart) + 1;
-          
-          const paddedNum = nextNumValue.toString().padStart(numPart.length, '0');
-          
-          nextNumber = `${prefix}${paddedNum}`;
-        } else {
-          const numericPart = parseInt(lastTransNo);
-          nextNumber = isNaN(numericPart) ? "1001" : (numericPart + 1).toString();
-        }
-      } else {
-        nextNumber = "TR000001";
-      }
-      
-      setNextTransNo(nextNumber);
-      return nextNumber;
+      const provisionalNumber = await peekTransactionNumber();
+      setNextTransNo(provisionalNumber);
+      return provisionalNumber;
     } catch (error) {
-      console.error('Error fetching latest transaction number:', error);
-      toast({
-        title: "Error",
-        description: "Failed to generate transaction number",
-        variant: "destructive"
-      });
-      return null;
+      console.error('Error fetching provisional transaction number:', error);
+      // Offline, the sale is numbered on this device until it syncs
+      const offlineNumber = isNetworkError(error) ? await peekProvisionalTransno().catch(() => '') : '';
+      setNextTransNo(offlineNumber);
+      return offlineNumber || null;
     }
   };
 
@@ -515,20 +825,96 @@ const SalesTransactions = () => {
   };
 
   const handleEditTransaction = (transaction: SalesTransaction) => {
+    if (!requirePermission('can_edit_sales')) return;
+
     setIsEditMode(true);
     setCurrentTransaction(transaction);
+    setActiveDraftId(null);
+    setActiveQueuedSale(null);
     
     setTransactionDate(transaction.salesdate || '');
     setSelectedCustomer(transaction.custno || '');
     setSelectedEmployee(transaction.empno || '');
-    setCustomerName(transaction.custname || '');
-    setEmployeeName(transaction.empname || '');
+    setSaveErrors([]);
     setTransactionProducts([...transaction.productDetails]);
+    setOrderDiscount(transaction.discount);
     
     setIsTransactionDialogOpen(true);
   };
 
+  const handleDuplicateTransaction = (transaction: SalesTransaction) => {
+    if (!requirePermission('can_add_sales')) return;
+
+    setIsEditMode(false);
+    setCurrentTransaction(null);
+    resetForm();
+    setActiveQueuedSale(null);
+    setActiveDraftId(crypto.randomUUID());
+
+    // Same basket at the latest known prices until the prices on the copy's date load;
+    // remember the old price wherever it moved
+    duplicateSourcePrices.current = Object.fromEntries(
+      transaction.productDetails.map(detail => [detail.prodcode, detail.unitprice])
+    );
+    const changedPrices: Record<string, number | null> = {};
+    const copiedProducts = transaction.productDetails.map(detail => {
+      const product = products.find(p => p.prodcode === detail.prodcode);
+      const unitprice = product ? product.latestPrice : detail.unitprice;
+      if (product && Number(unitprice) !== Number(detail.unitprice)) {
+        changedPrices[detail.prodcode] = detail.unitprice;
+      }
+      const taxClass = product ? product.tax_class : detail.taxClass || null;
+
+      return {
+        prodcode: detail.prodcode,
+        description: product?.description ?? detail.description,
+        unit: product?.unit ?? detail.unit,
+        customUnit: product && detail.unit && detail.unit !== product.unit ? detail.unit : undefined,
+        quantity: detail.quantity,
+        unitprice,
+        discount: detail.discount,
+        taxClass,
+        taxRate: taxConfiguration ? resolveTaxRate(taxConfiguration, taxClass) : 0
+      };
+    });
+
+    setSelectedCustomer(transaction.custno || '');
+    setSelectedEmployee(transaction.empno || '');
+    setTransactionProducts(copiedProducts);
+    setDuplicatedFrom(transaction.transno);
+    setDuplicatedPrices(changedPrices);
+
+    fetchProvisionalTransactionNumber().then(() => {
+      setIsTransactionDialogOpen(true);
+    });
+  };
+
+  // A copy is charged the prices in effect on its date, which the user may change
+  useEffect(() => {
+    if (!duplicatedFrom || !transactionDate) return;
+
+    let cancelled = false;
+    fetchUnitPricesOn(transactionDate)
+      .then(prices => {
+        if (cancelled) return;
+        const sourcePrices = duplicateSourcePrices.current;
+
+        setTransactionProducts(prev => prev.map(line => line.prodcode in sourcePrices
+          ? { ...line, unitprice: prices.get(line.prodcode) ?? null }
+          : line));
+        setDuplicatedPrices(Object.fromEntries(Object.entries(sourcePrices)
+          .filter(([prodcode, unitprice]) => Number(prices.get(prodcode) ?? null) !== Number(unitprice))));
+      })
+      .catch(error => console.error('Error loading prices for the copied sale:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [duplicatedFrom, transactionDate]);
+
   const handleDeleteTransaction = (transaction: SalesTransaction) => {
+    if (!requirePermission('can_delete_sales')) return;
+
     setCurrentTransaction(transaction);
     setIsDeleteDialogOpen(true);
   };
@@ -537,35 +923,35 @@ const SalesTransactions = () => {
     setTransactionDate(new Date().toISOString().split('T')[0]);
     setSelectedCustomer('');
     setSelectedEmployee('');
-    setCustomerName('');
-    setEmployeeName('');
+    setSaveErrors([]);
     setTransactionProducts([]);
+    setOrderDiscount(null);
     setShowAddProduct(false);
     setSelectedProduct('');
     setProductQuantity(1);
     setEditingProductIndex(null);
     setEditingUnit('');
+    setDuplicatedFrom(null);
+    setDuplicatedPrices({});
   };
 
-  const handleAddProduct = () => {
-    if (!selectedProduct) {
-      toast({
-        title: "Error",
-        description: "Please select a product",
-        variant: "destructive"
-      });
-      return;
-    }
+  /**
+   * Add a product line, or add to its quantity when the product is already on the sale.
+   * Returns false when the product is unknown or the user may not change the lines.
+   */
+  const addProductToSale = (prodcode: string, quantity: number) => {
+    const product = products.find(p => p.prodcode === prodcode);
+    if (!product) return false;
 
-    const product = products.find(p => p.prodcode === selectedProduct);
-    if (!product) return;
+    const existingProductIndex = transactionProducts.findIndex(p => p.prodcode === prodcode);
 
-    const existingProductIndex = transactionProducts.findIndex(p => p.prodcode === selectedProduct);
+    // Re-adding a product already on the sale bumps its quantity, which is an edit
+    if (!requirePermission(existingProductIndex >= 0 ? 'can_edit_sales_detail' : 'can_add_sales_detail')) return false;
 
     if (existingProductIndex >= 0) {
       const updatedProducts = [...transactionProducts];
       const existingQuantity = updatedProducts[existingProductIndex].quantity || 0;
-      updatedProducts[existingProductIndex].quantity = existingQuantity + productQuantity;
+      updatedProducts[existingProductIndex] = { ...updatedProducts[existingProductIndex], quantity: existingQuantity + quantity };
       setTransactionProducts(updatedProducts);
     } else {
       setTransactionProducts([
@@ -574,28 +960,58 @@ const SalesTransactions = () => {
           prodcode: product.prodcode,
           description: product.description,
           unit: product.unit,
-          quantity: productQuantity,
-          unitprice: product.latestPrice
+          quantity,
+          unitprice: product.latestPrice,
+          discount: null,
+          taxClass: product.tax_class,
+          taxRate: taxConfiguration ? resolveTaxRate(taxConfiguration, product.tax_class) : 0
         }
       ]);
     }
 
+    return true;
+  };
+
+  const handleAddProduct = () => {
+    if (!selectedProduct) {
+      toast({
+        title: "Error",
+        description: "Please select a product",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!addProductToSale(selectedProduct, productQuantity)) return;
+
     setSelectedProduct('');
     setProductQuantity(1);
     setShowAddProduct(false);
   };
 
+  const handleQuantityChange = (prodcode: string, quantity: number) => {
+    if (!requirePermission('can_edit_sales_detail')) return;
+
+    setTransactionProducts(transactionProducts.map(p => p.prodcode === prodcode ? { ...p, quantity } : p));
+  };
+
   const handleRemoveProduct = (prodcode: string) => {
+    if (!requirePermission('can_delete_sales_detail')) return;
+
     setTransactionProducts(transactionProducts.filter(p => p.prodcode !== prodcode));
   };
 
-  const calculateTotal = () => {
-    return transactionProducts.reduce((sum, product) => {
-      return sum + ((product.quantity || 0) * (product.unitprice || 0));
-    }, 0);
+  const handleLineDiscountChange = (index: number, discount: Discount | null) => {
+    if (!requirePermission('can_edit_sales_detail')) return;
+
+    const updatedProducts = [...transactionProducts];
+    updatedProducts[index] = { ...updatedProducts[index], discount };
+    setTransactionProducts(updatedProducts);
   };
 
   const startEditingUnit = (index: number, currentUnit: string | null) => {
+    if (!requirePermission('can_edit_sales_detail')) return;
+
     setEditingProductIndex(index);
     setEditingUnit(currentUnit || '');
   };
@@ -610,266 +1026,401 @@ const SalesTransactions = () => {
     }
   };
 
-  const cancelEditingUnit = () => {
-    setEditingProductIndex(null);
-    setEditingUnit('');
+  const cancelEditingUnit = () => {
+    setEditingProductIndex(null);
+    setEditingUnit('');
+  };
+
+  /**
+   * Save the sale being built, or queue it while offline. Resolves true once it is saved or queued.
+   */
+  const handleSaveTransaction = async () => {
+    if (!requirePermission(isEditMode ? 'can_edit_sales' : 'can_add_sales')) return false;
+
+    try {
+      if (!transactionDate || transactionProducts.length === 0) {
+        toast({
+          title: "Validation Error",
+          description: "Please fill in all required fields and add at least one product",
+          variant: "destructive"
+        });
+        return false;
+      }
+
+      if (!isOnline) {
+        if (isEditMode) {
+          toast({
+            title: "You're Offline",
+            description: "Changes to saved transactions need a connection. Try again once you're back online.",
+            variant: "destructive"
+          });
+          return false;
+        }
+        await queueOfflineSale();
+        return true;
+      }
+
+      const transno = isEditMode ? currentTransaction!.transno : nextTransNo;
+      // Lets save_sale recognise this sale if it is queued and sent again
+      const clientId = isEditMode ? undefined : activeQueuedSale?.id || crypto.randomUUID();
+      setSaveErrors([]);
+
+      let result: SaveSaleResult;
+      try {
+        result = await saveSale({
+          transno,
+          salesdate: transactionDate,
+          custno: selectedCustomer || null,
+          empno: selectedEmployee || null,
+          isNew: !isEditMode,
+          details: transactionProducts.map(product => ({
+            prodcode: product.prodcode,
+            quantity: product.quantity || 0,
+            unit: product.customUnit && product.customUnit !== product.unit ? product.customUnit : null,
+            discount: product.discount
+          })),
+          discount: orderDiscount,
+          clientId
+        });
+      } catch (error) {
+        // The connection dropped without the browser noticing yet, maybe after the
+        // save committed; the queued sale keeps the client id so it is not saved twice
+        if (!isEditMode && isNetworkError(error)) {
+          await queueOfflineSale(clientId);
+          return true;
+        }
+        throw error;
+      }
+
+      if (!result.ok) {
+        setSaveErrors(result.errors);
+        toast({
+          title: "Validation Error",
+          description: result.errors.length === 1
+            ? result.errors[0].message
+            : `Please fix the ${result.errors.length} highlighted problems`,
+          variant: "destructive"
+        });
+        return false;
+      }
+
+      toast({
+        title: isEditMode ? "Transaction Updated" : "Transaction Created",
+        description: isEditMode 
+          ? `Transaction #${result.transno} has been updated successfully` 
+          : `Transaction #${result.transno} has been created successfully`,
+      });
+
+      if (activeQueuedSale) {
+        await removeQueuedSale(activeQueuedSale.id);
+        setActiveQueuedSale(null);
+        await loadQueuedSales();
+      }
+
+      await fetchSalesData();
+      finishTransactionDialog();
+
+      if (!isEditMode) {
+        await fetchProvisionalTransactionNumber();
+      }
+      return true;
+    } catch (error) {
+      console.error('Error saving transaction:', error);
+      toast({
+        title: "Error",
+        description: `Failed to ${isEditMode ? 'update' : 'create'} transaction`,
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const finishTransactionDialog = () => {
+    setIsTransactionDialogOpen(false);
+    resetForm();
+
+    // The sale is saved or queued, so its draft has served its purpose
+    if (activeDraftId && user) {
+      const draftId = activeDraftId;
+      finishedDraftIds.current.add(draftId);
+      setActiveDraftId(null);
+      setSaleDrafts(prev => prev.filter(d => d.id !== draftId));
+      deleteSaleDraft(user.id, draftId).catch(error => console.error('Error removing draft:', error));
+    }
+  };
+
+  const queueOfflineSale = async (clientId?: string) => {
+    if (!user) return;
+
+    const queued = await queueSale(user.id, {
+      salesdate: transactionDate,
+      custno: selectedCustomer,
+      empno: selectedEmployee,
+      products: transactionProducts,
+      discount: orderDiscount
+    }, { existing: activeQueuedSale || undefined, clientId, draftId: activeDraftId || undefined });
+
+    toast({
+      title: "Saved Offline",
+      description: `${queued.provisionalTransno} is kept on this device and will sync when you're back online`
+    });
+
+    setActiveQueuedSale(null);
+    await loadQueuedSales();
+    finishTransactionDialog();
+    setNextTransNo(await peekProvisionalTransno());
   };
 
-  const handleSaveTransaction = async () => {
+  const handleDeleteConfirm = async () => {
+    if (!currentTransaction || !user) return;
+    if (!requirePermission('can_delete_sales')) return;
+
     try {
-      if (!transactionDate || transactionProducts.length === 0) {
+      // Returns reference the sale, so it has to stay for the credit memos to make sense
+      const { count: memoCount, error: memoError } = await supabase
+        .from('credit_memos')
+        .select('memo_no', { count: 'exact', head: true })
+        .eq('transno', currentTransaction.transno);
+
+      if (memoError) throw memoError;
+
+      if (memoCount) {
         toast({
-          title: "Validation Error",
-          description: "Please fill in all required fields and add at least one product",
+          title: "Cannot Delete",
+          description: `Transaction #${currentTransaction.transno} has returns recorded against it and cannot be deleted`,
           variant: "destructive"
         });
+        setIsDeleteDialogOpen(false);
         return;
       }
 
-      const transno = isEditMode ? currentTransaction!.transno : nextTransNo;
-
-      if (isEditMode) {
-        // Store old data for audit log
-        const oldData = {
-          transno,
-          salesdate: currentTransaction?.salesdate,
-          custno: currentTransaction?.custno,
-          empno: currentTransaction?.empno
-        };
+      // The sale and its lines go to the recycle bin, where an admin can restore them
+      await trashSale(currentTransaction.transno);
 
-        const newData = {
-          transno,
-          salesdate: transactionDate,
-          custno: selectedCustomer || null,
-          empno: selectedEmployee || null
-        };
-
-        const { error: updateError } = await supabase
-          .from('sales')
-          .update({
-            salesdate: transactionDate,
-            custno: selectedCustomer || null,
-            empno: selectedEmployee || null
-          })
-          .eq('transno', transno);
-
-        if (updateError) throw updateError;
-
-        // Track the update
-        if (user) {
-          await trackSalesChanges('sales', 'updated', { 
-            transno, 
-            oldData, 
-            newData 
-          }, user.id);
-        }
+      toast({
+        title: "Transaction Deleted",
+        description: `Transaction #${currentTransaction.transno} has been moved to the Trash`,
+      });
 
-        if (selectedCustomer && customerName) {
-          const { error: customerError } = await supabase
-            .from('customer')
-            .update({ custname: customerName })
-            .eq('custno', selectedCustomer);
-          
-          if (customerError) console.error('Error updating customer:', customerError);
-        }
+      toggleSelected(currentTransaction, false);
+      fetchSalesData();
+      setIsDeleteDialogOpen(false);
+    } catch (error) {
+      console.error('Error deleting transaction:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete transaction",
+        variant: "destructive"
+      });
+    }
+  };
 
-        if (selectedEmployee && employeeName) {
-          const names = employeeName.split(' ');
-          const firstname = names[0] || '';
-          const lastname = names.slice(1).join(' ') || '';
-          
-          const { error: employeeError } = await supabase
-            .from('employee')
-            .update({ firstname, lastname })
-            .eq('empno', selectedEmployee);
-          
-          if (employeeError) console.error('Error updating employee:', employeeError);
-        }
+  const fetchExpandedCreditMemos = async (transno: string) => {
+    try {
+      setCreditMemos(await fetchCreditMemos(transno));
+    } catch (error) {
+      console.error('Error fetching credit memos:', error);
+    }
+  };
 
-        // Get existing details for audit log
-        const { data: existingDetails } = await supabase
-          .from('salesdetail')
-          .select('*')
-          .eq('transno', transno);
-
-        // Track deletion of details that are not in the updated list
-        if (existingDetails && user) {
-          for (const existingDetail of existingDetails) {
-            const stillExists = transactionProducts.some(p => p.prodcode === existingDetail.prodcode);
-            if (!stillExists) {
-              await trackSalesChanges('salesdetail', 'deleted', {
-                transno,
-                prodcode: existingDetail.prodcode,
-                quantity: existingDetail.quantity,
-                oldData: existingDetail,
-                newData: null
-              }, user.id);
-            }
-          }
-        }
+  useEffect(() => {
+    setCreditMemos([]);
+    if (expandedTransaction) {
+      fetchExpandedCreditMemos(expandedTransaction);
+    }
+  }, [expandedTransaction]);
 
-        const { error: deleteError } = await supabase
-          .from('salesdetail')
-          .delete()
-          .eq('transno', transno);
+  const handleReturnTransaction = (transaction: SalesTransaction) => {
+    if (!requirePermission('can_edit_sales')) return;
 
-        if (deleteError) throw deleteError;
-      } else {
-        let custno = selectedCustomer;
-        let empno = selectedEmployee;
+    setReturnSale(transaction);
+  };
 
-        // ... keep existing code (customer and employee creation)
+  const handleReturnCreated = async () => {
+    const transno = returnSale?.transno;
+    setReturnSale(null);
 
-        const newSalesData = {
-          transno,
-          salesdate: transactionDate,
-          custno,
-          empno
-        };
-
-        const { error: insertError } = await supabase
-          .from('sales')
-          .insert(newSalesData);
-
-        if (insertError) throw insertError;
-
-        // Track creation
-        if (user) {
-          await trackSalesChanges('sales', 'created', {
-            transno,
-            newData: newSalesData
-          }, user.id);
-        }
-      }
+    if (transno) {
+      await fetchExpandedCreditMemos(transno);
+    }
+  };
 
-      const salesDetailsToInsert = transactionProducts.map(product => ({
-        transno,
-        prodcode: product.prodcode,
-        quantity: product.quantity || 0
-      }));
+  const toggleSelected = (sale: SalesTransaction, checked: boolean) => {
+    const updated = { ...selectedSales };
+    if (checked) {
+      updated[sale.transno] = sale;
+    } else {
+      delete updated[sale.transno];
+    }
+    setSelectedSales(updated);
+  };
 
-      const { error: detailsError } = await supabase
-        .from('salesdetail')
-        .insert(salesDetailsToInsert);
-
-      if (detailsError) throw detailsError;
-
-      // Track creation of details
-      if (user) {
-        for (const detail of salesDetailsToInsert) {
-          await trackSalesChanges('salesdetail', 'created', {
-            transno,
-            prodcode: detail.prodcode,
-            quantity: detail.quantity,
-            newData: detail
-          }, user.id);
-        }
+  const togglePageSelected = (checked: boolean) => {
+    const updated = { ...selectedSales };
+    salesData.forEach(sale => {
+      if (checked) {
+        updated[sale.transno] = sale;
+      } else {
+        delete updated[sale.transno];
       }
+    });
+    setSelectedSales(updated);
+  };
 
-      for (const product of transactionProducts) {
-        if (product.customUnit && product.customUnit !== product.unit) {
-          const { error: updateProductError } = await supabase
-            .from('product')
-            .update({ unit: product.customUnit })
-            .eq('prodcode', product.prodcode);
-
-          if (updateProductError) {
-            console.error('Error updating product unit:', updateProductError);
-          }
-        }
-      }
+  const handleSelectAllMatching = async () => {
+    try {
+      setIsSelectingAll(true);
+
+      const sales = await fetchAllSales({
+        searchTerm: debouncedSearchTerm,
+        searchField,
+        sortField,
+        sortOrder,
+        filters
+      });
 
+      setSelectedSales(Object.fromEntries(sales.map(sale => [sale.transno, sale])));
+    } catch (error) {
+      console.error('Error selecting matching sales:', error);
       toast({
-        title: isEditMode ? "Transaction Updated" : "Transaction Created",
-        description: isEditMode 
-          ? `Transaction #${transno} has been updated successfully` 
-          : `Transaction #${transno} has been created successfully`,
+        title: "Error",
+        description: "Failed to select all matching transactions",
+        variant: "destructive"
       });
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
 
-      await fetchSalesData();
-      if (isAdmin) {
-        await fetchAuditLogs();
-      }
-      setIsTransactionDialogOpen(false);
-      resetForm();
+  const openBulkAction = async (action: BulkSalesAction) => {
+    if (!requirePermission(action === 'delete' ? 'can_delete_sales' : 'can_edit_sales')) return;
 
-      if (!isEditMode) {
-        await fetchLatestTransactionNumber();
+    try {
+      const skipped: Record<string, string> = {};
+
+      // Returns reference the sale, so those sales have to stay
+      if (action === 'delete') {
+        const withReturns = await fetchSalesWithReturns(selectedList.map(sale => sale.transno));
+        withReturns.forEach(transno => {
+          skipped[transno] = 'has returns recorded against it';
+        });
       }
+
+      setBulkSkipped(skipped);
+      setBulkAction(action);
     } catch (error) {
-      console.error('Error saving transaction:', error);
+      console.error('Error preparing bulk action:', error);
       toast({
         title: "Error",
-        description: `Failed to ${isEditMode ? 'update' : 'create'} transaction`,
+        description: "Failed to check the selected transactions",
         variant: "destructive"
       });
     }
   };
 
-  const handleDeleteConfirm = async () => {
-    if (!currentTransaction) return;
+  const handleBulkConfirm = async (target: string | null) => {
+    if (!bulkAction || !user) return;
+    if (!requirePermission(bulkAction === 'delete' ? 'can_delete_sales' : 'can_edit_sales')) return;
+
+    const affected = selectedList.filter(sale => !bulkSkipped[sale.transno]);
 
     try {
-      // Track deletion of details first
-      if (user) {
-        const { data: details } = await supabase
-          .from('salesdetail')
-          .select('*')
-          .eq('transno', currentTransaction.transno);
-          
-        if (details) {
-          for (const detail of details) {
-            await trackSalesChanges('salesdetail', 'deleted', {
-              transno: currentTransaction.transno,
-              prodcode: detail.prodcode,
-              quantity: detail.quantity,
-              oldData: detail,
-              newData: null
-            }, user.id);
-          }
-        }
-      }
+      setIsBulkRunning(true);
 
-      const { error: detailsError } = await supabase
-        .from('salesdetail')
-        .delete()
-        .eq('transno', currentTransaction.transno);
+      if (bulkAction === 'delete') {
+        await deleteSales(affected);
+      } else if (bulkAction === 'employee') {
+        await reassignSales(affected, { empno: target || '' });
+      } else {
+        await reassignSales(affected, { custno: target || '' });
+      }
 
-      if (detailsError) throw detailsError;
+      toast({
+        title: bulkAction === 'delete' ? "Transactions Deleted" : "Transactions Updated",
+        description: `${affected.length} transaction${affected.length === 1 ? '' : 's'} ${bulkAction === 'delete' ? 'deleted' : 'reassigned'}`
+      });
 
-      // Track deletion of sales transaction
-      if (user) {
-        await trackSalesChanges('sales', 'deleted', {
-          transno: currentTransaction.transno,
-          oldData: currentTransaction,
-          newData: null
-        }, user.id);
-      }
+      const remaining = { ...selectedSales };
+      affected.forEach(sale => delete remaining[sale.transno]);
+      setSelectedSales(bulkAction === 'delete' ? remaining : {});
+      setBulkAction(null);
+      fetchSalesData();
+    } catch (error) {
+      console.error('Error running bulk action:', error);
+      toast({
+        title: "Error",
+        description: "The bulk action stopped part way. Refresh to see which transactions changed.",
+        variant: "destructive"
+      });
+      fetchSalesData();
+    } finally {
+      setIsBulkRunning(false);
+    }
+  };
 
-      const { error: salesError } = await supabase
-        .from('sales')
-        .delete()
-        .eq('transno', currentTransaction.transno);
+  const handleInvoices = async (sales: SalesTransaction[], mode: 'download' | 'print') => {
+    try {
+      const customers = await fetchInvoiceCustomers(sales.map(sale => sale.custno || ''));
 
-      if (salesError) throw salesError;
+      if (mode === 'print') {
+        printInvoicePdf(sales, customers);
+      } else {
+        downloadInvoicePdf(sales, customers);
+      }
+    } catch (error) {
+      console.error('Error generating invoices:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate the invoice PDF",
+        variant: "destructive"
+      });
+    }
+  };
 
+  const handleExportSelected = async (sales: SalesTransaction[], layout: SalesExportLayout, format: SalesExportFormat) => {
+    try {
+      await exportSales(sales, layout, format);
+    } catch (error) {
+      console.error('Error exporting sales:', error);
       toast({
-        title: "Transaction Deleted",
-        description: `Transaction #${currentTransaction.transno} has been deleted successfully`,
+        title: "Error",
+        description: "Failed to export sales data",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleExport = async (layout: SalesExportLayout, format: SalesExportFormat) => {
+    try {
+      setIsExporting(true);
+
+      // Export every matching sale, not just the page on screen
+      const sales = await fetchAllSales({
+        searchTerm: debouncedSearchTerm,
+        searchField,
+        sortField,
+        sortOrder,
+        filters
       });
 
-      fetchSalesData();
-      if (isAdmin) {
-        fetchAuditLogs();
+      if (sales.length === 0) {
+        toast({
+          title: "Nothing to Export",
+          description: "No transactions match the current search",
+        });
+        return;
       }
-      setIsDeleteDialogOpen(false);
+
+      await exportSales(sales, layout, format);
     } catch (error) {
-      console.error('Error deleting transaction:', error);
+      console.error('Error exporting sales:', error);
       toast({
         title: "Error",
-        description: "Failed to delete transaction",
+        description: "Failed to export sales data",
         variant: "destructive"
       });
+    } finally {
+      setIsExporting(false);
     }
   };
 
@@ -881,30 +1432,39 @@ const SalesTransactions = () => {
     }
   };
 
+  const handleRepriceConfirm = async () => {
+    if (!repriceTransno || !isAdmin) return;
+
+    try {
+      const changedLines = await repriceSale(repriceTransno);
+
+      toast({
+        title: "Transaction Repriced",
+        description: changedLines === 0
+          ? `Transaction #${repriceTransno} already matches price history`
+          : `${changedLines} line${changedLines === 1 ? '' : 's'} on transaction #${repriceTransno} repriced from price history`,
+      });
+
+      fetchSalesData();
+      setRepriceTransno(null);
+    } catch (error) {
+      console.error('Error repricing transaction:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reprice transaction",
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleViewAuditLogs = (transno: string) => {
     setSelectedTransactionForAudit(transno);
+    setAuditLogs([]);
     setShowAuditDialog(true);
+    fetchAuditLogs(transno);
   };
 
-  const formatDate = (dateString: string | null) => {
-    if (!dateString) return 'N/A';
-    return new Date(dateString).toLocaleDateString('en-US', {
-      day: '2-digit',
-      month: 'short',
-      year: 'numeric'
-    });
-  };
-
-  const formatDateTime = (dateString: string | null) => {
-    if (!dateString) return 'N/A';
-    return new Date(dateString).toLocaleString('en-US', {
-      day: '2-digit',
-      month: 'short',
-      year: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-  };
+  const formatDate = formatSaleDate;
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -913,12 +1473,19 @@ const SalesTransactions = () => {
     }).format(amount);
   };
 
-  const getTransactionAuditLogs = (transno: string) => {
-    return auditLogs.filter(log => 
-      (log.table_name === 'sales' && log.record_id === transno) ||
-      (log.table_name === 'salesdetail' && log.record_id.startsWith(transno + '-'))
-    );
+  const { header: headerErrors, lines: lineErrors } = groupSaleErrors(saveErrors);
+  const selectedList = Object.values(selectedSales);
+  const currentViewQuery = toSalesViewQuery(listState);
+  const activeViewId = salesViews.find(view => view.query === currentViewQuery)?.id || null;
+  const pageSelectedCount = salesData.filter(sale => selectedSales[sale.transno]).length;
+  // Saved sales keep the price mode they were created with
+  const dialogTaxContext = {
+    pricesIncludeTax: isEditMode && currentTransaction
+      ? currentTransaction.pricesIncludeTax
+      : !!taxConfiguration?.settings.pricesIncludeTax,
+    taxExempt: !!customers.find(c => c.custno === selectedCustomer)?.tax_exempt
   };
+  const dialogTotals = calculateSaleTotals(transactionProducts, orderDiscount, dialogTaxContext);
 
   return (
     <div className="min-h-screen bg-background">
@@ -927,10 +1494,43 @@ const SalesTransactions = () => {
       <main className="container mx-auto px-4 py-8">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-2xl font-bold">Sales Transactions</h2>
-          <Button onClick={handleAddTransaction} className="flex items-center gap-2">
-            <Plus className="h-4 w-4" />
-            New Transaction
-          </Button>
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="flex items-center gap-2" disabled={isExporting}>
+                  <Download className="h-4 w-4" />
+                  {isExporting ? 'Exporting...' : 'Export'}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>One row per transaction</DropdownMenuLabel>
+                <DropdownMenuItem onClick={() => handleExport('transactions', 'csv')}>CSV</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('transactions', 'xlsx')}>Excel (XLSX)</DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>One row per line item</DropdownMenuLabel>
+                <DropdownMenuItem onClick={() => handleExport('lines', 'csv')}>CSV</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('lines', 'xlsx')}>Excel (XLSX)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <SaleDraftsMenu
+              drafts={saleDrafts}
+              customers={customers.map(c => ({ value: c.custno, label: c.custname || c.custno }))}
+              onResume={handleResumeDraft}
+              onDiscard={handleDiscardDraft}
+            />
+            <PermissionGuard permission="can_add_sales">
+              <Button variant="outline" onClick={handleStartPos} className="flex items-center gap-2">
+                <ScanBarcode className="h-4 w-4" />
+                POS Mode
+              </Button>
+            </PermissionGuard>
+            <PermissionGuard permission="can_add_sales">
+              <Button onClick={handleAddTransaction} className="flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                New Transaction
+              </Button>
+            </PermissionGuard>
+          </div>
         </div>
         
         <div className="mb-6 space-y-4">
@@ -944,7 +1544,7 @@ const SalesTransactions = () => {
                 onChange={(e) => setSearchTerm(e.target.value)}
               />
             </div>
-            <Select value={searchField} onValueChange={(value) => setSearchField(value)}>
+            <Select value={searchField} onValueChange={(value) => setSearchField(value as SearchField)}>
               <SelectTrigger className="w-[180px]">
                 <SelectValue placeholder="Search in..." />
               </SelectTrigger>
@@ -957,23 +1557,110 @@ const SalesTransactions = () => {
               </SelectContent>
             </Select>
           </div>
+          <div className="flex flex-wrap items-start gap-2">
+            <SalesViewMenu
+              views={salesViews}
+              activeViewId={activeViewId}
+              defaultViewId={defaultViewId}
+              onSelect={applySalesView}
+              onSave={handleSaveView}
+              onDelete={handleDeleteView}
+              onSetDefault={handleSetDefaultView}
+            />
+            <SalesFilterBuilder
+              filters={filters}
+              customers={customers.map(c => ({ value: c.custno, label: c.custname || c.custno }))}
+              employees={employees.map(e => ({ value: e.empno, label: e.fullname }))}
+              products={products.map(p => ({ value: p.prodcode, label: p.description ? `${p.prodcode} – ${p.description}` : p.prodcode }))}
+              onChange={setFilters}
+            />
+          </div>
         </div>
         
+        <OfflineSyncPanel
+          isOnline={isOnline}
+          queue={queuedSales}
+          syncing={isSyncing}
+          cachedAt={offlineCachedAt}
+          customers={customers.map(c => ({ value: c.custno, label: c.custname || c.custno }))}
+          onSync={() => setSyncRequest(request => request + 1)}
+          onFix={handleFixQueuedSale}
+          onDiscard={handleDiscardQueuedSale}
+        />
+
+        <SalesSelectionBar
+          count={selectedList.length}
+          totalMatching={totalCount}
+          selectingAll={isSelectingAll}
+          onSelectAllMatching={handleSelectAllMatching}
+          onClear={() => setSelectedSales({})}
+        >
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <FileDown className="h-4 w-4 mr-2" />
+                Invoices &amp; export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleInvoices(selectedList, 'download')}>
+                <FileDown className="h-4 w-4 mr-2" />
+                Download invoices
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleInvoices(selectedList, 'print')}>
+                <Printer className="h-4 w-4 mr-2" />
+                Print invoices
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Export selected</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => handleExportSelected(selectedList, 'transactions', 'xlsx')}>Transactions (XLSX)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExportSelected(selectedList, 'transactions', 'csv')}>Transactions (CSV)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExportSelected(selectedList, 'lines', 'xlsx')}>Line items (XLSX)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExportSelected(selectedList, 'lines', 'csv')}>Line items (CSV)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <PermissionGuard permission="can_edit_sales">
+            <Button variant="outline" size="sm" onClick={() => openBulkAction('employee')}>
+              <UserCog className="h-4 w-4 mr-2" />
+              Reassign salesperson
+            </Button>
+          </PermissionGuard>
+          <PermissionGuard permission="can_edit_sales">
+            <Button variant="outline" size="sm" onClick={() => openBulkAction('customer')}>
+              <Users className="h-4 w-4 mr-2" />
+              Reassign customer
+            </Button>
+          </PermissionGuard>
+          <PermissionGuard permission="can_delete_sales">
+            <Button variant="outline" size="sm" className="text-destructive" onClick={() => openBulkAction('delete')}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          </PermissionGuard>
+        </SalesSelectionBar>
+        
         <Card>
           <CardContent className="p-0">
             {isLoading ? (
               <div className="flex justify-center p-6">
                 <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
               </div>
-            ) : filteredSalesData.length === 0 ? (
+            ) : salesData.length === 0 ? (
               <div className="text-center p-6 text-muted-foreground">
-                {searchTerm ? 'No matching transactions found' : 'No sales data available'}
+                {searchTerm || countActiveFilters(filters) > 0 ? 'No matching transactions found' : 'No sales data available'}
               </div>
             ) : (
               <div className="rounded-md border">
                 <Table>
                   <TableHeader>
                     <TableRow className="bg-muted/50">
+                      <TableHead className="w-[40px]">
+                        <Checkbox
+                          aria-label="Select all on this page"
+                          checked={pageSelectedCount === 0 ? false : pageSelectedCount === salesData.length ? true : 'indeterminate'}
+                          onCheckedChange={(checked) => togglePageSelected(checked === true)}
+                        />
+                      </TableHead>
                       <TableHead 
                         className="font-semibold cursor-pointer" 
                         onClick={() => handleToggleSort('transno')}
@@ -1019,14 +1706,21 @@ const SalesTransactions = () => {
                           {getSortIcon('totalPrice')}
                         </div>
                       </TableHead>
-                      <TableHead className="w-[150px]">Actions</TableHead>
+                      <TableHead className="w-[190px]">Actions</TableHead>
                       <TableHead className="w-[50px]"></TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredSalesData.map((sale) => (
+                    {salesData.map((sale) => (
                       <React.Fragment key={sale.transno}>
-                        <TableRow className="hover:bg-muted/50">
+                        <TableRow className="hover:bg-muted/50" data-state={selectedSales[sale.transno] ? 'selected' : undefined}>
+                          <TableCell>
+                            <Checkbox
+                              aria-label={`Select transaction ${sale.transno}`}
+                              checked={!!selectedSales[sale.transno]}
+                              onCheckedChange={(checked) => toggleSelected(sale, checked === true)}
+                            />
+                          </TableCell>
                           <TableCell className="font-medium">
                             <div className="flex items-center gap-1">
                               {sale.transno}
@@ -1054,6 +1748,24 @@ const SalesTransactions = () => {
                                   </Tooltip>
                                 </TooltipProvider>
                               )}
+                              {editorsOf(sale.transno).length > 0 && (
+                                <span
+                                  title={`Being edited by ${editorsOf(sale.transno).join(', ')}`}
+                                  className="text-amber-600"
+                                >
+                                  <PencilLine className="h-4 w-4" />
+                                </span>
+                              )}
+                              {sale.templateId && (
+                                <Link
+                                  to={`/templates?template=${sale.templateId}`}
+                                  title={`Generated from template "${sale.templateName || ''}"`}
+                                  className="text-muted-foreground hover:text-primary"
+                                  onClick={(e) => e.stopPropagation()}
+                                >
+                                  <Repeat className="h-4 w-4" />
+                                </Link>
+                              )}
                             </div>
                           </TableCell>
                           <TableCell>{formatDate(sale.salesdate)}</TableCell>
@@ -1062,28 +1774,68 @@ const SalesTransactions = () => {
                           <TableCell className="text-right font-medium">{formatCurrency(sale.totalPrice)}</TableCell>
                           <TableCell>
                             <div className="flex space-x-2">
-                              <Button 
-                                variant="outline" 
-                                size="icon" 
-                                className="h-8 w-8"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  handleEditTransaction(sale);
-                                }}
-                              >
-                                <Edit className="h-4 w-4" />
-                              </Button>
-                              <Button 
-                                variant="outline" 
-                                size="icon" 
-                                className="h-8 w-8 text-destructive"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  handleDeleteTransaction(sale);
-                                }}
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button 
+                                    variant="outline" 
+                                    size="icon" 
+                                    className="h-8 w-8"
+                                    aria-label="Invoice"
+                                  >
+                                    <FileText className="h-4 w-4" />
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem onClick={() => handleInvoices([sale], 'download')}>
+                                    <FileDown className="h-4 w-4 mr-2" />
+                                    Download invoice
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => handleInvoices([sale], 'print')}>
+                                    <Printer className="h-4 w-4 mr-2" />
+                                    Print invoice
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                              <PermissionGuard permission="can_edit_sales">
+                                <Button 
+                                  variant="outline" 
+                                  size="icon" 
+                                  className="h-8 w-8"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleEditTransaction(sale);
+                                  }}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              </PermissionGuard>
+                              <PermissionGuard permission="can_add_sales">
+                                <Button 
+                                  variant="outline" 
+                                  size="icon" 
+                                  className="h-8 w-8"
+                                  title="Duplicate"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleDuplicateTransaction(sale);
+                                  }}
+                                >
+                                  <Copy className="h-4 w-4" />
+                                </Button>
+                              </PermissionGuard>
+                              <PermissionGuard permission="can_delete_sales">
+                                <Button 
+                                  variant="outline" 
+                                  size="icon" 
+                                  className="h-8 w-8 text-destructive"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleDeleteTransaction(sale);
+                                  }}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </PermissionGuard>
                               {isAdmin && (
                                 <Button
                                   variant="outline"
@@ -1116,9 +1868,35 @@ const SalesTransactions = () => {
                         
                         {expandedTransaction === sale.transno && (
                           <TableRow>
-                            <TableCell colSpan={7} className="p-0 border-t">
+                            <TableCell colSpan={8} className="p-0 border-t">
                               <div className="bg-muted/20 p-4">
-                                <h4 className="font-semibold text-sm uppercase mb-2 text-muted-foreground">Transaction Details</h4>
+                                <div className="flex items-center justify-between mb-2">
+                                  <h4 className="font-semibold text-sm uppercase text-muted-foreground">Transaction Details</h4>
+                                  <div className="flex items-center gap-2">
+                                    <PermissionGuard permission="can_edit_sales">
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="h-7"
+                                        onClick={() => handleReturnTransaction(sale)}
+                                      >
+                                        <Undo2 className="h-3 w-3 mr-2" />
+                                        Return items
+                                      </Button>
+                                    </PermissionGuard>
+                                    {isAdmin && (
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="h-7"
+                                        onClick={() => setRepriceTransno(sale.transno)}
+                                      >
+                                        <RefreshCcw className="h-3 w-3 mr-2" />
+                                        Reprice from price history
+                                      </Button>
+                                    )}
+                                  </div>
+                                </div>
                                 <Table>
                                   <TableHeader>
                                     <TableRow>
@@ -1127,13 +1905,14 @@ const SalesTransactions = () => {
                                       <TableHead>Unit</TableHead>
                                       <TableHead className="text-right">Qty</TableHead>
                                       <TableHead className="text-right">Price</TableHead>
+                                      <TableHead className="text-right">Discount</TableHead>
                                       <TableHead className="text-right">Amount</TableHead>
                                       {isAdmin && <TableHead className="w-[10%]">Audit</TableHead>}
                                     </TableRow>
                                   </TableHeader>
                                   <TableBody>
                                     {sale.productDetails.map((product, index) => {
-                                      const productTotal = (product.quantity || 0) * (product.unitprice || 0);
+                                      const amounts = calculateLineAmounts(product);
                                       return (
                                         <TableRow key={`${sale.transno}-${product.prodcode}-${index}`}>
                                           <TableCell>{product.description || 'N/A'}</TableCell>
@@ -1141,7 +1920,10 @@ const SalesTransactions = () => {
                                           <TableCell>{product.customUnit || product.unit || 'N/A'}</TableCell>
                                           <TableCell className="text-right">{product.quantity || 0}</TableCell>
                                           <TableCell className="text-right">{product.unitprice ? formatCurrency(product.unitprice) : 'N/A'}</TableCell>
-                                          <TableCell className="text-right font-medium">{formatCurrency(productTotal)}</TableCell>
+                                          <TableCell className="text-right text-muted-foreground">
+                                            {amounts.discount > 0 ? `-${formatCurrency(amounts.discount)}` : ''}
+                                          </TableCell>
+                                          <TableCell className="text-right font-medium">{formatCurrency(amounts.net)}</TableCell>
                                           {isAdmin && (
                                             <TableCell>
                                               {(product.createdBy || product.updatedBy || product.deletedBy) && (
@@ -1180,14 +1962,55 @@ const SalesTransactions = () => {
                                         </TableRow>
                                       );
                                     })}
+                                    {sale.discountTotal > 0 && (
+                                      <>
+                                        <TableRow>
+                                          <TableCell colSpan={5}></TableCell>
+                                          <TableCell className="text-right text-muted-foreground">Before discounts:</TableCell>
+                                          <TableCell className="text-right">{formatCurrency(sale.grossTotal)}</TableCell>
+                                          {isAdmin && <TableCell></TableCell>}
+                                        </TableRow>
+                                        {sale.orderDiscountAmount > 0 && (
+                                          <TableRow>
+                                            <TableCell colSpan={5}></TableCell>
+                                            <TableCell className="text-right text-muted-foreground">
+                                              Order discount{sale.discount ? ` (${describeDiscount(sale.discount, formatCurrency)})` : ''}:
+                                            </TableCell>
+                                            <TableCell className="text-right">-{formatCurrency(sale.orderDiscountAmount)}</TableCell>
+                                            {isAdmin && <TableCell></TableCell>}
+                                          </TableRow>
+                                        )}
+                                        <TableRow>
+                                          <TableCell colSpan={5}></TableCell>
+                                          <TableCell className="text-right text-muted-foreground">Total discounts:</TableCell>
+                                          <TableCell className="text-right">-{formatCurrency(sale.discountTotal)}</TableCell>
+                                          {isAdmin && <TableCell></TableCell>}
+                                        </TableRow>
+                                      </>
+                                    )}
+                                    <TableRow>
+                                      <TableCell colSpan={5}></TableCell>
+                                      <TableCell className="text-right text-muted-foreground">Net (excl. tax):</TableCell>
+                                      <TableCell className="text-right">{formatCurrency(sale.totalExclTax)}</TableCell>
+                                      {isAdmin && <TableCell></TableCell>}
+                                    </TableRow>
+                                    <TableRow>
+                                      <TableCell colSpan={5}></TableCell>
+                                      <TableCell className="text-right text-muted-foreground">
+                                        {sale.taxExempt ? 'Tax (exempt):' : 'Tax:'}
+                                      </TableCell>
+                                      <TableCell className="text-right">{formatCurrency(sale.taxTotal)}</TableCell>
+                                      {isAdmin && <TableCell></TableCell>}
+                                    </TableRow>
                                     <TableRow>
-                                      <TableCell colSpan={isAdmin ? 5 : 4}></TableCell>
-                                      <TableCell className="text-right font-bold">Total:</TableCell>
+                                      <TableCell colSpan={5}></TableCell>
+                                      <TableCell className="text-right font-bold">Total (incl. tax):</TableCell>
                                       <TableCell className="text-right font-bold">{formatCurrency(sale.totalPrice)}</TableCell>
                                       {isAdmin && <TableCell></TableCell>}
                                     </TableRow>
                                   </TableBody>
                                 </Table>
+                                <CreditMemoList memos={creditMemos} />
                               </div>
                             </TableCell>
                           </TableRow>
@@ -1198,10 +2021,37 @@ const SalesTransactions = () => {
                 </Table>
               </div>
             )}
+            {totalCount > 0 && (
+              <SalesPagination
+                page={page}
+                pageSize={pageSize}
+                totalCount={totalCount}
+                onPageChange={setPage}
+                onPageSizeChange={setPageSize}
+              />
+            )}
           </CardContent>
         </Card>
       </main>
 
+      <PosMode
+        open={isPosMode}
+        transno={nextTransNo}
+        lines={transactionProducts}
+        totals={dialogTotals}
+        productCodes={products.map(p => p.prodcode)}
+        customers={customers.map(c => ({ value: c.custno, label: c.custname || c.custno }))}
+        customer={selectedCustomer}
+        errors={saveErrors}
+        isOnline={isOnline}
+        onCustomerChange={setSelectedCustomer}
+        onScan={addProductToSale}
+        onQuantityChange={handleQuantityChange}
+        onRemove={handleRemoveProduct}
+        onTender={handlePosTender}
+        onClose={() => setIsPosMode(false)}
+      />
+
       <Dialog open={isTransactionDialogOpen} onOpenChange={setIsTransactionDialogOpen}>
         <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
@@ -1209,10 +2059,22 @@ const SalesTransactions = () => {
             <DialogDescription>
               {isEditMode 
                 ? `Update details for transaction #${currentTransaction?.transno}` 
-                : `Create a new sales transaction with transaction #${nextTransNo}`
+                : duplicatedFrom
+                ? `Copy of transaction #${duplicatedFrom} at the prices on its date. Highlighted lines are priced differently than before.`
+                : 'Create a new sales transaction. The transaction number is assigned when you save.'
               }
             </DialogDescription>
           </DialogHeader>
+
+          {editingTransno && editorsOf(editingTransno).length > 0 && (
+            <div className="flex items-center gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+              <PencilLine className="h-4 w-4 shrink-0" />
+              <span>
+                {editorsOf(editingTransno).join(', ')} {editorsOf(editingTransno).length === 1 ? 'has' : 'have'} this
+                transaction open too. Whoever saves last replaces the other's changes.
+              </span>
+            </div>
+          )}
           
           <div className="grid gap-6 py-4">
             <div className="grid grid-cols-3 gap-4">
@@ -1222,9 +2084,16 @@ const SalesTransactions = () => {
                   id="transactionNo"
                   type="text"
                   value={isEditMode ? currentTransaction?.transno || '' : nextTransNo}
+                  placeholder="Assigned on save"
                   disabled
                   className="bg-muted"
                 />
+                {!isEditMode && nextTransNo && (
+                  <p className="text-xs text-muted-foreground">Provisional, may change if another sale is saved first</p>
+                )}
+                {headerErrors.transno && (
+                  <p className="text-sm font-medium text-destructive">{headerErrors.transno}</p>
+                )}
               </div>
               <div className="space-y-2">
                 <Label htmlFor="transactionDate">Transaction Date</Label>
@@ -1233,49 +2102,75 @@ const SalesTransactions = () => {
                   type="date"
                   value={transactionDate}
                   onChange={(e) => setTransactionDate(e.target.value)}
+                  className={headerErrors.salesdate ? "border-destructive" : undefined}
                 />
+                {headerErrors.salesdate && (
+                  <p className="text-sm font-medium text-destructive">{headerErrors.salesdate}</p>
+                )}
               </div>
             </div>
             
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="customer">Customer</Label>
-                <Input
-                  id="customer"
-                  type="text"
-                  placeholder="Enter customer name"
-                  value={customerName}
-                  onChange={(e) => setCustomerName(e.target.value)}
-                />
+                <Select value={selectedCustomer} onValueChange={setSelectedCustomer}>
+                  <SelectTrigger id="customer" className={headerErrors.custno ? "border-destructive" : undefined}>
+                    <SelectValue placeholder="Select customer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {customers.map((customer) => (
+                      <SelectItem key={customer.custno} value={customer.custno}>
+                        {customer.custname || customer.custno}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {headerErrors.custno && (
+                  <p className="text-sm font-medium text-destructive">{headerErrors.custno}</p>
+                )}
               </div>
               
               <div className="space-y-2">
                 <Label htmlFor="employee">Employee</Label>
-                <Input
-                  id="employee"
-                  type="text"
-                  placeholder="Enter employee name"
-                  value={employeeName}
-                  onChange={(e) => setEmployeeName(e.target.value)}
-                />
+                <Select value={selectedEmployee} onValueChange={setSelectedEmployee}>
+                  <SelectTrigger id="employee" className={headerErrors.empno ? "border-destructive" : undefined}>
+                    <SelectValue placeholder="Select employee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {employees.map((employee) => (
+                      <SelectItem key={employee.empno} value={employee.empno}>
+                        {employee.fullname || employee.empno}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {headerErrors.empno && (
+                  <p className="text-sm font-medium text-destructive">{headerErrors.empno}</p>
+                )}
               </div>
             </div>
+
+            {headerErrors.form && (
+              <p className="text-sm font-medium text-destructive">{headerErrors.form}</p>
+            )}
             
             <div className="space-y-4">
               <div className="flex justify-between items-center">
                 <h4 className="font-medium">Products</h4>
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => setShowAddProduct(true)}
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Product
-                </Button>
+                <PermissionGuard permission="can_add_sales_detail">
+                  <Button 
+                    type="button" 
+                    variant="outline" 
+                    size="sm"
+                    onClick={() => setShowAddProduct(true)}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Product
+                  </Button>
+                </PermissionGuard>
               </div>
               
-              {showAddProduct && (
+              {showAddProduct && can('can_add_sales_detail') && (
                 <Card className="p-4 border border-dashed border-primary/50 bg-primary/5">
                   <div className="grid grid-cols-3 gap-4 mb-4">
                     <div>
@@ -1325,16 +2220,31 @@ const SalesTransactions = () => {
                         <TableHead>Unit</TableHead>
                         <TableHead className="text-right">Qty</TableHead>
                         <TableHead className="text-right">Price</TableHead>
+                        <TableHead className="text-right">Discount</TableHead>
                         <TableHead className="text-right">Amount</TableHead>
                         <TableHead className="w-[100px]">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {transactionProducts.map((product, index) => {
-                        const productTotal = (product.quantity || 0) * (product.unitprice || 0);
+                        const amounts = calculateLineAmounts(product);
                         return (
-                          <TableRow key={`new-${product.prodcode}-${index}`}>
-                            <TableCell>{product.description || 'N/A'}</TableCell>
+                          <TableRow 
+                            key={`new-${product.prodcode}-${index}`}
+                            className={
+                              lineErrors[product.prodcode]
+                                ? "bg-destructive/10"
+                                : product.prodcode in duplicatedPrices
+                                ? "bg-amber-50 dark:bg-amber-900/20"
+                                : undefined
+                            }
+                          >
+                            <TableCell>
+                              {product.description || 'N/A'}
+                              {lineErrors[product.prodcode]?.map((message) => (
+                                <p key={message} className="text-xs font-medium text-destructive">{message}</p>
+                              ))}
+                            </TableCell>
                             <TableCell>
                               {editingProductIndex === index ? (
                                 <div className="flex items-center space-x-2">
@@ -1361,34 +2271,57 @@ const SalesTransactions = () => {
                                   </Button>
                                 </div>
                               ) : (
-                                <span 
-                                  className="cursor-pointer hover:underline" 
-                                  onClick={() => startEditingUnit(index, product.unit)}
-                                >
-                                  {product.customUnit || product.unit || 'N/A'}
-                                </span>
+                                <PermissionGuard permission="can_edit_sales_detail">
+                                  <span 
+                                    className={can('can_edit_sales_detail') ? "cursor-pointer hover:underline" : undefined}
+                                    onClick={() => startEditingUnit(index, product.unit)}
+                                  >
+                                    {product.customUnit || product.unit || 'N/A'}
+                                  </span>
+                                </PermissionGuard>
                               )}
                             </TableCell>
                             <TableCell className="text-right">{product.quantity || 0}</TableCell>
-                            <TableCell className="text-right">{product.unitprice ? formatCurrency(product.unitprice) : 'N/A'}</TableCell>
-                            <TableCell className="text-right font-medium">{formatCurrency(productTotal)}</TableCell>
+                            <TableCell className="text-right">
+                              {product.unitprice ? formatCurrency(product.unitprice) : 'N/A'}
+                              {product.prodcode in duplicatedPrices && (
+                                <p className="text-xs text-amber-700 dark:text-amber-400">
+                                  was {duplicatedPrices[product.prodcode] !== null ? formatCurrency(duplicatedPrices[product.prodcode]!) : 'N/A'}
+                                </p>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <PermissionGuard permission="can_edit_sales_detail">
+                                <DiscountEditor
+                                  discount={product.discount}
+                                  base={amounts.gross}
+                                  reasons={discountReasons}
+                                  maxPercent={maxDiscountPercent}
+                                  onChange={(discount) => handleLineDiscountChange(index, discount)}
+                                  label="None"
+                                />
+                              </PermissionGuard>
+                            </TableCell>
+                            <TableCell className="text-right font-medium">{formatCurrency(amounts.net)}</TableCell>
                             <TableCell>
-                              <Button 
-                                variant="ghost" 
-                                size="icon" 
-                                className="h-8 w-8 text-destructive" 
-                                onClick={() => handleRemoveProduct(product.prodcode)}
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
+                              <PermissionGuard permission="can_delete_sales_detail">
+                                <Button 
+                                  variant="ghost" 
+                                  size="icon" 
+                                  className="h-8 w-8 text-destructive" 
+                                  onClick={() => handleRemoveProduct(product.prodcode)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </PermissionGuard>
                             </TableCell>
                           </TableRow>
                         );
                       })}
                       <TableRow>
                         <TableCell colSpan={3}></TableCell>
-                        <TableCell className="text-right font-bold">Total:</TableCell>
-                        <TableCell className="text-right font-bold">{formatCurrency(calculateTotal())}</TableCell>
+                        <TableCell colSpan={2} className="text-right font-bold">Subtotal:</TableCell>
+                        <TableCell className="text-right font-bold">{formatCurrency(dialogTotals.subtotal)}</TableCell>
                         <TableCell></TableCell>
                       </TableRow>
                     </TableBody>
@@ -1399,18 +2332,62 @@ const SalesTransactions = () => {
                   No products added yet. Click the "Add Product" button to add one.
                 </div>
               )}
+              {headerErrors.details && (
+                <p className="text-sm font-medium text-destructive">{headerErrors.details}</p>
+              )}
               
-              <div className="rounded-md bg-muted p-4">
+              <div className="rounded-md bg-muted p-4 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Before discounts:</span>
+                  <span>{formatCurrency(dialogTotals.gross)}</span>
+                </div>
+                {dialogTotals.lineDiscounts > 0 && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Line discounts:</span>
+                    <span>-{formatCurrency(dialogTotals.lineDiscounts)}</span>
+                  </div>
+                )}
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Order discount:</span>
+                  <div className="flex items-center gap-2">
+                    <DiscountEditor
+                      discount={orderDiscount}
+                      base={dialogTotals.subtotal}
+                      reasons={discountReasons}
+                      maxPercent={maxDiscountPercent}
+                      onChange={setOrderDiscount}
+                      label="Add"
+                    />
+                    <span>{dialogTotals.orderDiscount > 0 ? `-${formatCurrency(dialogTotals.orderDiscount)}` : formatCurrency(0)}</span>
+                  </div>
+                </div>
+                {headerErrors.discount && (
+                  <p className="text-sm font-medium text-destructive">{headerErrors.discount}</p>
+                )}
+                <div className="flex items-center justify-between text-sm border-t pt-2">
+                  <span className="text-muted-foreground">Net (excl. tax):</span>
+                  <span>{formatCurrency(dialogTotals.net)}</span>
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {dialogTaxContext.taxExempt
+                      ? 'Tax (customer is exempt):'
+                      : dialogTaxContext.pricesIncludeTax ? 'Tax (included in prices):' : 'Tax:'}
+                  </span>
+                  <span>{formatCurrency(dialogTotals.tax)}</span>
+                </div>
                 <div className="flex items-center justify-between">
                   <span className="font-semibold">Total Amount:</span>
-                  <span className="text-xl font-bold">{formatCurrency(calculateTotal())}</span>
+                  <span className="text-xl font-bold">{formatCurrency(dialogTotals.total)}</span>
                 </div>
               </div>
             </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsTransactionDialogOpen(false)}>Cancel</Button>
-            <Button onClick={handleSaveTransaction}>{isEditMode ? 'Update' : 'Create'} Transaction</Button>
+            <PermissionGuard permission={isEditMode ? 'can_edit_sales' : 'can_add_sales'}>
+              <Button onClick={handleSaveTransaction}>{isEditMode ? 'Update' : 'Create'} Transaction</Button>
+            </PermissionGuard>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -1420,20 +2397,62 @@ const SalesTransactions = () => {
           <DialogHeader>
             <DialogTitle>Delete Transaction</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete transaction #{currentTransaction?.transno}? This action cannot be undone.
+              Are you sure you want to delete transaction #{currentTransaction?.transno}? It will be moved to the Trash, where an admin can restore it.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="gap-2 sm:justify-end">
             <Button variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
               Cancel
             </Button>
-            <Button variant="destructive" onClick={handleDeleteConfirm}>
-              Delete
-            </Button>
+            <PermissionGuard permission="can_delete_sales">
+              <Button variant="destructive" onClick={handleDeleteConfirm}>
+                Delete
+              </Button>
+            </PermissionGuard>
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
+      <ReturnDialog
+        sale={returnSale}
+        memos={creditMemos}
+        onOpenChange={(open) => !open && setReturnSale(null)}
+        onCreated={handleReturnCreated}
+      />
+
+      <BulkActionDialog
+        action={bulkAction}
+        sales={selectedList}
+        skipped={bulkSkipped}
+        employees={employees.map(e => ({ value: e.empno, label: e.fullname }))}
+        customers={customers.map(c => ({ value: c.custno, label: c.custname || c.custno }))}
+        running={isBulkRunning}
+        onConfirm={handleBulkConfirm}
+        onOpenChange={(open) => !open && setBulkAction(null)}
+      />
+
+      {isAdmin && (
+        <Dialog open={repriceTransno !== null} onOpenChange={(open) => !open && setRepriceTransno(null)}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Reprice Transaction</DialogTitle>
+              <DialogDescription>
+                Replace the prices stored on transaction #{repriceTransno} with the prices in effect on its sale date.
+                Use this only to correct an invoice after fixing price history. Each changed line is recorded in the audit log.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter className="gap-2 sm:justify-end">
+              <Button variant="outline" onClick={() => setRepriceTransno(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleRepriceConfirm}>
+                Reprice
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
       {isAdmin && (
         <Dialog open={showAuditDialog} onOpenChange={setShowAuditDialog}>
           <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -1447,41 +2466,12 @@ const SalesTransactions = () => {
             </DialogHeader>
             
             <div className="mt-4">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Date/Time</TableHead>
-                    <TableHead>Action</TableHead>
-                    <TableHead>Table</TableHead>
-                    <TableHead>Record ID</TableHead>
-                    <TableHead>User</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {(selectedTransactionForAudit 
-                    ? getTransactionAuditLogs(selectedTransactionForAudit) 
-                    : auditLogs
-                  ).map((log) => (
-                    <TableRow key={log.id}>
-                      <TableCell className="whitespace-nowrap">{formatDateTime(log.created_at)}</TableCell>
-                      <TableCell>
-                        <span className={
-                          log.action === 'created' 
-                            ? 'text-green-600 font-medium' 
-                            : log.action === 'updated'
-                            ? 'text-blue-600 font-medium'
-                            : 'text-red-600 font-medium'
-                        }>
-                          {log.action.charAt(0).toUpperCase() + log.action.slice(1)}
-                        </span>
-                      </TableCell>
-                      <TableCell>{log.table_name}</TableCell>
-                      <TableCell>{log.record_id}</TableCell>
-                      <TableCell>{log.changed_by_email}</TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
+              <AuditHistory
+                entries={auditLogs}
+                allEntries={auditLogs}
+                customers={customers.map(c => ({ value: c.custno, label: c.custname || c.custno }))}
+                employees={employees.map(e => ({ value: e.empno, label: e.fullname }))}
+              />
             </div>
             
             <DialogFooter>
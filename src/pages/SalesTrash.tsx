@@ -0,0 +1,278 @@
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { AppHeader } from '@/components/app-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { AlertCircle, ChevronDown, ChevronRight, RotateCcw, Search, Trash2 } from 'lucide-react';
+import { SalesPagination } from '@/components/sales/SalesPagination';
+import { SalesTransaction } from '@/services/salesService';
+import { fetchDeletedSalesPage, purgeSale, restoreSale } from '@/services/salesTrashService';
+import { formatCurrency, formatSaleDate } from '@/utils/formatters';
+
+const formatDateTime = (dateString: string | null | undefined) => {
+  if (!dateString) return 'N/A';
+  return new Date(dateString).toLocaleString('en-US', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const SalesTrash = () => {
+  const { user, isAdmin } = useAuth();
+  const { toast } = useToast();
+  const [sales, setSales] = useState<SalesTransaction[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(25);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [expandedRows, setExpandedRows] = useState<Record<string, boolean>>({});
+  const [saleToPurge, setSaleToPurge] = useState<SalesTransaction | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const loadDeletedSales = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await fetchDeletedSalesPage({
+        searchTerm: searchTerm.trim(),
+        searchField: 'all',
+        sortField: 'transno',
+        sortOrder: 'desc',
+        page,
+        pageSize
+      });
+      setSales(result.rows);
+      setTotalCount(result.totalCount);
+    } catch (error) {
+      console.error('Error fetching deleted sales:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the Trash",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [searchTerm, page, pageSize, toast]);
+
+  useEffect(() => {
+    if (isAdmin) loadDeletedSales();
+  }, [isAdmin, loadDeletedSales]);
+
+  const toggleRow = (transno: string) => {
+    setExpandedRows(prev => ({ ...prev, [transno]: !prev[transno] }));
+  };
+
+  const handleRestore = async (sale: SalesTransaction) => {
+    if (!user) return;
+
+    try {
+      setWorking(true);
+      await restoreSale(sale.transno);
+      toast({
+        title: "Transaction Restored",
+        description: `Transaction #${sale.transno} is back in the sales list`
+      });
+      loadDeletedSales();
+    } catch (error) {
+      console.error('Error restoring transaction:', error);
+      toast({
+        title: "Error",
+        description: "Failed to restore transaction",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handlePurgeConfirm = async () => {
+    if (!saleToPurge) return;
+
+    try {
+      setWorking(true);
+      await purgeSale(saleToPurge.transno);
+      toast({
+        title: "Transaction Purged",
+        description: `Transaction #${saleToPurge.transno} has been permanently deleted`
+      });
+      setSaleToPurge(null);
+      loadDeletedSales();
+    } catch (error) {
+      console.error('Error purging transaction:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to permanently delete transaction",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <AppHeader currentPath="/trash" />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold mb-1">Trash</h1>
+          <p className="text-muted-foreground">Deleted sales, kept until they are restored or permanently deleted</p>
+        </div>
+
+        {!isAdmin ? (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Only administrators can view the Trash.</AlertDescription>
+          </Alert>
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              <div className="p-4 border-b">
+                <div className="relative max-w-sm">
+                  <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search deleted sales..."
+                    className="pl-8"
+                    value={searchTerm}
+                    onChange={(e) => {
+                      setSearchTerm(e.target.value);
+                      setPage(1);
+                    }}
+                  />
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[40px]" />
+                      <TableHead>Trans No</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Employee</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead>Deleted</TableHead>
+                      <TableHead>Deleted By</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loading ? (
+                      <TableRow>
+                        <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">Loading...</TableCell>
+                      </TableRow>
+                    ) : sales.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">The Trash is empty</TableCell>
+                      </TableRow>
+                    ) : sales.map((sale) => (
+                      <Fragment key={sale.transno}>
+                        <TableRow>
+                          <TableCell>
+                            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => toggleRow(sale.transno)}>
+                              {expandedRows[sale.transno] ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            </Button>
+                          </TableCell>
+                          <TableCell className="font-mono">{sale.transno}</TableCell>
+                          <TableCell>{formatSaleDate(sale.salesdate)}</TableCell>
+                          <TableCell>{sale.custname || sale.custno || 'N/A'}</TableCell>
+                          <TableCell>{sale.empname || sale.empno || 'N/A'}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(sale.totalPrice)}</TableCell>
+                          <TableCell className="whitespace-nowrap">{formatDateTime(sale.deletedAt)}</TableCell>
+                          <TableCell>{sale.deletedBy || 'Unknown'}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button variant="outline" size="sm" className="mr-2" disabled={working} onClick={() => handleRestore(sale)}>
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Restore
+                            </Button>
+                            <Button variant="destructive" size="sm" disabled={working} onClick={() => setSaleToPurge(sale)}>
+                              <Trash2 className="h-4 w-4 mr-1" />
+                              Delete permanently
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                        {expandedRows[sale.transno] && (
+                          <TableRow>
+                            <TableCell colSpan={9} className="bg-muted/50">
+                              <Table>
+                                <TableHeader>
+                                  <TableRow>
+                                    <TableHead>Product</TableHead>
+                                    <TableHead>Description</TableHead>
+                                    <TableHead className="text-right">Quantity</TableHead>
+                                    <TableHead className="text-right">Unit Price</TableHead>
+                                    <TableHead className="text-right">Amount</TableHead>
+                                  </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                  {sale.productDetails.map((product) => (
+                                    <TableRow key={product.prodcode}>
+                                      <TableCell className="font-mono">{product.prodcode}</TableCell>
+                                      <TableCell>{product.description || 'N/A'}</TableCell>
+                                      <TableCell className="text-right">{product.quantity} {product.unit}</TableCell>
+                                      <TableCell className="text-right">{formatCurrency(product.unitprice || 0)}</TableCell>
+                                      <TableCell className="text-right">{formatCurrency(product.amountInclTax || 0)}</TableCell>
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <SalesPagination
+                page={page}
+                pageSize={pageSize}
+                totalCount={totalCount}
+                onPageChange={setPage}
+                onPageSizeChange={(size) => {
+                  setPageSize(size);
+                  setPage(1);
+                }}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <Dialog open={!!saleToPurge} onOpenChange={(open) => !open && setSaleToPurge(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Permanently</DialogTitle>
+            <DialogDescription>
+              Transaction #{saleToPurge?.transno} and its products will be removed for good. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaleToPurge(null)}>Cancel</Button>
+            <Button variant="destructive" disabled={working} onClick={handlePurgeConfirm}>Delete permanently</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SalesTrash;
@@ -0,0 +1,434 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { AppHeader } from '@/components/app-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { AlertCircle, Plus, Save } from 'lucide-react';
+import {
+  fetchTaxConfiguration,
+  saveTaxClass,
+  setCustomerTaxExempt,
+  setProductTaxClass,
+  updateTaxSettings,
+  TaxClass,
+  TaxSettings as TaxSettingsValues
+} from '@/services/taxService';
+
+const DEFAULT_CLASS = 'default';
+
+type ProductRow = {
+  prodcode: string;
+  description: string | null;
+  tax_class: string | null;
+};
+
+type CustomerRow = {
+  custno: string;
+  custname: string | null;
+  tax_exempt: boolean;
+};
+
+const emptyClass: TaxClass = { code: '', description: '', rate: 0, active: true };
+
+const TaxSettings = () => {
+  const { isAdmin } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [settings, setSettings] = useState<TaxSettingsValues>({ pricesIncludeTax: false, defaultTaxClass: null });
+  const [classes, setClasses] = useState<TaxClass[]>([]);
+  const [newClass, setNewClass] = useState<TaxClass>(emptyClass);
+  const [products, setProducts] = useState<ProductRow[]>([]);
+  const [customers, setCustomers] = useState<CustomerRow[]>([]);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const configuration = await fetchTaxConfiguration();
+      setSettings(configuration.settings);
+      setClasses(configuration.classes);
+
+      const { data: productsData, error: productsError } = await supabase
+        .from('product')
+        .select('prodcode, description, tax_class')
+        .order('prodcode');
+
+      if (productsError) throw productsError;
+      setProducts(productsData || []);
+
+      const { data: customersData, error: customersError } = await supabase
+        .from('customer')
+        .select('custno, custname, tax_exempt')
+        .order('custname');
+
+      if (customersError) throw customersError;
+      setCustomers(customersData || []);
+    } catch (error) {
+      console.error('Error loading tax settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load tax settings",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleSaveSettings = async () => {
+    try {
+      await updateTaxSettings(settings);
+      toast({
+        title: "Success",
+        description: "Tax settings saved. They apply to sales created from now on."
+      });
+    } catch (error) {
+      console.error('Error saving tax settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save tax settings",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSaveClass = async (taxClass: TaxClass) => {
+    if (!taxClass.code.trim() || !taxClass.description.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "A tax class needs a code and a description",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (taxClass.rate < 0 || taxClass.rate > 100) {
+      toast({
+        title: "Validation Error",
+        description: "The rate must be between 0 and 100",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await saveTaxClass({ ...taxClass, code: taxClass.code.trim().toUpperCase() });
+      toast({
+        title: "Success",
+        description: `Tax class ${taxClass.code.trim().toUpperCase()} saved`
+      });
+      setNewClass(emptyClass);
+      await loadData();
+    } catch (error) {
+      console.error('Error saving tax class:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save tax class",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateClass = (code: string, changes: Partial<TaxClass>) => {
+    setClasses(classes.map(taxClass => taxClass.code === code ? { ...taxClass, ...changes } : taxClass));
+  };
+
+  const handleProductClassChange = async (prodcode: string, value: string) => {
+    const taxClass = value === DEFAULT_CLASS ? null : value;
+
+    try {
+      await setProductTaxClass(prodcode, taxClass);
+      setProducts(products.map(product => product.prodcode === prodcode ? { ...product, tax_class: taxClass } : product));
+    } catch (error) {
+      console.error('Error updating product tax class:', error);
+      toast({
+        title: "Error",
+        description: `Failed to update the tax class of ${prodcode}`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleCustomerExemptChange = async (custno: string, taxExempt: boolean) => {
+    try {
+      await setCustomerTaxExempt(custno, taxExempt);
+      setCustomers(customers.map(customer => customer.custno === custno ? { ...customer, tax_exempt: taxExempt } : customer));
+    } catch (error) {
+      console.error('Error updating customer tax exemption:', error);
+      toast({
+        title: "Error",
+        description: `Failed to update customer ${custno}`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const activeClasses = classes.filter(taxClass => taxClass.active);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <AppHeader currentPath="/tax-settings" />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold mb-1">Tax Settings</h1>
+          <p className="text-muted-foreground">Tax rates, price mode, product tax classes and exempt customers</p>
+        </div>
+
+        {!isAdmin && (
+          <Alert className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Only administrators can change tax settings.</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-64 w-full" />
+          </div>
+        ) : (
+          <div className="grid gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Pricing</CardTitle>
+                <CardDescription>
+                  Saved sales keep the price mode they were created with; changing it only affects new sales.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="prices-include-tax">Prices include tax (VAT-inclusive)</Label>
+                  <Switch
+                    id="prices-include-tax"
+                    checked={settings.pricesIncludeTax}
+                    onCheckedChange={(checked) => setSettings({ ...settings, pricesIncludeTax: checked })}
+                    disabled={!isAdmin}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label>Default tax class</Label>
+                  <Select
+                    value={settings.defaultTaxClass || ''}
+                    onValueChange={(value) => setSettings({ ...settings, defaultTaxClass: value })}
+                    disabled={!isAdmin}
+                  >
+                    <SelectTrigger className="w-[220px]">
+                      <SelectValue placeholder="Select tax class" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeClasses.map((taxClass) => (
+                        <SelectItem key={taxClass.code} value={taxClass.code}>
+                          {taxClass.description} ({taxClass.rate}%)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {isAdmin && (
+                  <div className="flex justify-end">
+                    <Button onClick={handleSaveSettings}>
+                      <Save className="mr-2 h-4 w-4" />
+                      Save Settings
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Tax Classes</CardTitle>
+                <CardDescription>
+                  Lines keep the rate in effect when they were added to a sale.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Code</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="w-[120px]">Rate (%)</TableHead>
+                      <TableHead className="w-[80px]">Active</TableHead>
+                      {isAdmin && <TableHead className="w-[100px]"></TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {classes.map((taxClass) => (
+                      <TableRow key={taxClass.code}>
+                        <TableCell className="font-mono text-xs">{taxClass.code}</TableCell>
+                        <TableCell>
+                          <Input
+                            value={taxClass.description}
+                            onChange={(e) => updateClass(taxClass.code, { description: e.target.value })}
+                            disabled={!isAdmin}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.01"
+                            value={taxClass.rate}
+                            onChange={(e) => updateClass(taxClass.code, { rate: Number(e.target.value) })}
+                            disabled={!isAdmin}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={taxClass.active}
+                            onCheckedChange={(checked) => updateClass(taxClass.code, { active: checked })}
+                            disabled={!isAdmin}
+                          />
+                        </TableCell>
+                        {isAdmin && (
+                          <TableCell>
+                            <Button variant="outline" size="sm" onClick={() => handleSaveClass(taxClass)}>
+                              Save
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                    {isAdmin && (
+                      <TableRow>
+                        <TableCell>
+                          <Input
+                            placeholder="CODE"
+                            value={newClass.code}
+                            onChange={(e) => setNewClass({ ...newClass, code: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            placeholder="Description"
+                            value={newClass.description}
+                            onChange={(e) => setNewClass({ ...newClass, description: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.01"
+                            value={newClass.rate}
+                            onChange={(e) => setNewClass({ ...newClass, rate: Number(e.target.value) })}
+                          />
+                        </TableCell>
+                        <TableCell></TableCell>
+                        <TableCell>
+                          <Button size="sm" onClick={() => handleSaveClass(newClass)}>
+                            <Plus className="mr-1 h-4 w-4" />
+                            Add
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Product Tax Classes</CardTitle>
+                </CardHeader>
+                <CardContent className="max-h-[480px] overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="w-[200px]">Tax class</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {products.map((product) => (
+                        <TableRow key={product.prodcode}>
+                          <TableCell>
+                            <div>{product.description || 'N/A'}</div>
+                            <div className="font-mono text-xs text-muted-foreground">{product.prodcode}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={product.tax_class || DEFAULT_CLASS}
+                              onValueChange={(value) => handleProductClassChange(product.prodcode, value)}
+                              disabled={!isAdmin}
+                            >
+                              <SelectTrigger className="h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={DEFAULT_CLASS}>Default</SelectItem>
+                                {activeClasses.map((taxClass) => (
+                                  <SelectItem key={taxClass.code} value={taxClass.code}>
+                                    {taxClass.description} ({taxClass.rate}%)
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Tax-Exempt Customers</CardTitle>
+                </CardHeader>
+                <CardContent className="max-h-[480px] overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Customer</TableHead>
+                        <TableHead className="w-[100px]">Exempt</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {customers.map((customer) => (
+                        <TableRow key={customer.custno}>
+                          <TableCell>
+                            <div>{customer.custname || 'N/A'}</div>
+                            <div className="font-mono text-xs text-muted-foreground">{customer.custno}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={customer.tax_exempt}
+                              onCheckedChange={(checked) => handleCustomerExemptChange(customer.custno, checked)}
+                              disabled={!isAdmin}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default TaxSettings;
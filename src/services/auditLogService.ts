@@ -0,0 +1,116 @@
+import { AuditLogEntry, supabase } from "@/integrations/supabase/client";
+import { auditTransno } from "@/utils/auditDiff";
+
+export const AUDIT_TABLES = [
+  'sales',
+  'salesdetail',
+  'credit_memos',
+  'pricehist',
+  'customer',
+  'product',
+  'user_roles',
+  'user_permissions'
+];
+export const AUDIT_ACTIONS = ['created', 'updated', 'deleted', 'restored', 'purged'];
+
+export interface AuditLogFilters {
+  tableName?: string;
+  action?: string;
+  // Matched anywhere in the email
+  changedByEmail?: string;
+  // Inclusive dates (YYYY-MM-DD) in the browser's time zone
+  dateFrom?: string;
+  dateTo?: string;
+  // Matched anywhere in the record id, so a transno also finds its line items
+  recordId?: string;
+}
+
+export interface AuditLogPageQuery {
+  filters: AuditLogFilters;
+  page: number;
+  pageSize: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  totalCount: number;
+}
+
+// Rows per request when exporting everything that matches
+const EXPORT_BATCH_SIZE = 1000;
+
+const localMidnight = (date: string, addDays = 0) => {
+  const midnight = new Date(`${date}T00:00:00`);
+  midnight.setDate(midnight.getDate() + addDays);
+  return midnight.toISOString();
+};
+
+const escapeLike = (value: string) => value.replace(/[%_\\]/g, match => `\\${match}`);
+
+const filteredQuery = (filters: AuditLogFilters) => {
+  let query = supabase
+    .from('sales_audit_log')
+    .select('*', { count: 'exact' });
+
+  if (filters.tableName) query = query.eq('table_name', filters.tableName);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.changedByEmail?.trim()) query = query.ilike('changed_by_email', `%${escapeLike(filters.changedByEmail.trim())}%`);
+  if (filters.recordId?.trim()) query = query.ilike('record_id', `%${escapeLike(filters.recordId.trim())}%`);
+  if (filters.dateFrom) query = query.gte('created_at', localMidnight(filters.dateFrom));
+  if (filters.dateTo) query = query.lt('created_at', localMidnight(filters.dateTo, 1));
+
+  return query
+    .order('created_at', { ascending: false })
+    .order('id');
+};
+
+/**
+ * One page of audit entries matching the filters, newest first
+ */
+export const fetchAuditLogPage = async ({ filters, page, pageSize }: AuditLogPageQuery): Promise<AuditLogPage> => {
+  const from = (page - 1) * pageSize;
+  const { data, error, count } = await filteredQuery(filters).range(from, from + pageSize - 1);
+
+  if (error) throw error;
+
+  return { entries: (data || []) as AuditLogEntry[], totalCount: count || 0 };
+};
+
+/**
+ * Every audit entry matching the filters, fetched in batches
+ */
+export const fetchAllAuditLogs = async (filters: AuditLogFilters): Promise<AuditLogEntry[]> => {
+  const entries: AuditLogEntry[] = [];
+
+  for (let from = 0; ; from += EXPORT_BATCH_SIZE) {
+    const { data, error } = await filteredQuery(filters).range(from, from + EXPORT_BATCH_SIZE - 1);
+    if (error) throw error;
+
+    entries.push(...((data || []) as AuditLogEntry[]));
+    if (!data || data.length < EXPORT_BATCH_SIZE) return entries;
+  }
+};
+
+/**
+ * All entries for one transaction: the sale, its line items and its credit memos.
+ * Each match is its own query, so the transno never has to be quoted into an or() filter.
+ */
+export const fetchTransactionAuditLogs = async (transno: string): Promise<AuditLogEntry[]> => {
+  const auditLogQuery = () => supabase.from('sales_audit_log').select('*');
+
+  const results = await Promise.all([
+    auditLogQuery().eq('record_id', transno),
+    auditLogQuery().like('record_id', `${escapeLike(transno)}-%`),
+    auditLogQuery().eq('new_data->>transno', transno)
+  ]);
+
+  const entries = new Map<string, AuditLogEntry>();
+  results.forEach(({ data, error }) => {
+    if (error) throw error;
+    ((data || []) as AuditLogEntry[]).forEach(entry => entries.set(entry.id, entry));
+  });
+
+  return [...entries.values()]
+    .filter(entry => auditTransno(entry) === transno)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
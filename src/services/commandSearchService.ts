@@ -0,0 +1,82 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type CommandSearchKind = 'sale' | 'customer' | 'product' | 'employee';
+
+export interface CommandSearchResult {
+  kind: CommandSearchKind;
+  // transno, custno, prodcode or empno
+  id: string;
+  label: string;
+  detail: string | null;
+}
+
+// Results per kind; the palette is for jumping to a record, not browsing
+const RESULT_LIMIT = 5;
+
+/**
+ * Search transactions, customers, products and employees matching a term. Characters
+ * that have a meaning in PostgREST filters are dropped from the term.
+ */
+export const searchRecords = async (term: string): Promise<CommandSearchResult[]> => {
+  const cleaned = term.replace(/[%_,()*\\]/g, '').trim();
+  if (!cleaned) return [];
+  const pattern = `%${cleaned}%`;
+
+  const [sales, customers, products, employees] = await Promise.all([
+    supabase
+      .from('sales')
+      .select('transno, salesdate, customer:custno(custname)')
+      .ilike('transno', pattern)
+      .is('deleted_at', null)
+      .order('transno', { ascending: false })
+      .limit(RESULT_LIMIT),
+    supabase
+      .from('customer')
+      .select('custno, custname')
+      .or(`custname.ilike.${pattern},custno.ilike.${pattern}`)
+      .order('custname')
+      .limit(RESULT_LIMIT),
+    supabase
+      .from('product')
+      .select('prodcode, description')
+      .or(`prodcode.ilike.${pattern},description.ilike.${pattern}`)
+      .order('prodcode')
+      .limit(RESULT_LIMIT),
+    supabase
+      .from('employee')
+      .select('empno, firstname, lastname')
+      .or(`firstname.ilike.${pattern},lastname.ilike.${pattern},empno.ilike.${pattern}`)
+      .order('lastname')
+      .limit(RESULT_LIMIT)
+  ]);
+
+  const error = sales.error || customers.error || products.error || employees.error;
+  if (error) throw error;
+
+  return [
+    ...(sales.data || []).map(sale => ({
+      kind: 'sale' as const,
+      id: sale.transno,
+      label: sale.transno,
+      detail: [sale.salesdate, sale.customer?.custname].filter(Boolean).join(' · ') || null
+    })),
+    ...(customers.data || []).map(customer => ({
+      kind: 'customer' as const,
+      id: customer.custno,
+      label: customer.custname || customer.custno,
+      detail: customer.custno
+    })),
+    ...(products.data || []).map(product => ({
+      kind: 'product' as const,
+      id: product.prodcode,
+      label: product.prodcode,
+      detail: product.description
+    })),
+    ...(employees.data || []).map(employee => ({
+      kind: 'employee' as const,
+      id: employee.empno,
+      label: `${employee.firstname || ''} ${employee.lastname || ''}`.trim() || employee.empno,
+      detail: employee.empno
+    }))
+  ];
+};
@@ -0,0 +1,118 @@
+import { supabase } from "@/integrations/supabase/client";
+import { SaleValidationError } from "@/services/salesService";
+
+export interface CreditMemoLine {
+  prodcode: string;
+  quantity: number;
+  description: string | null;
+  unit: string | null;
+  unitprice: number | null;
+  netAmount: number;
+  taxAmount: number;
+}
+
+export interface CreditMemo {
+  memoNo: string;
+  transno: string;
+  memoDate: string;
+  reason: string | null;
+  createdAt: string;
+  lines: CreditMemoLine[];
+  netTotal: number;
+  taxTotal: number;
+  // What is credited back to the customer, including tax
+  total: number;
+}
+
+export interface ReturnLineInput {
+  prodcode: string;
+  quantity: number;
+}
+
+export interface CreateCreditMemoResult {
+  ok: boolean;
+  memoNo: string | null;
+  errors: SaleValidationError[];
+}
+
+/**
+ * Fetch the credit memos recorded against a sale, oldest first
+ */
+export const fetchCreditMemos = async (transno: string): Promise<CreditMemo[]> => {
+  const { data, error } = await supabase
+    .from('credit_memos')
+    .select(`
+      memo_no,
+      transno,
+      memo_date,
+      reason,
+      created_at,
+      credit_memo_lines(prodcode, quantity, description, unit, unitprice, net_amount, tax_amount)
+    `)
+    .eq('transno', transno)
+    .order('created_at');
+
+  if (error) throw error;
+
+  return (data || []).map(memo => {
+    const lines = memo.credit_memo_lines.map(line => ({
+      prodcode: line.prodcode,
+      quantity: Number(line.quantity) || 0,
+      description: line.description,
+      unit: line.unit,
+      unitprice: line.unitprice,
+      netAmount: Number(line.net_amount) || 0,
+      taxAmount: Number(line.tax_amount) || 0
+    }));
+    const netTotal = lines.reduce((sum, line) => sum + line.netAmount, 0);
+    const taxTotal = lines.reduce((sum, line) => sum + line.taxAmount, 0);
+
+    return {
+      memoNo: memo.memo_no,
+      transno: memo.transno,
+      memoDate: memo.memo_date,
+      reason: memo.reason,
+      createdAt: memo.created_at,
+      lines,
+      netTotal,
+      taxTotal,
+      total: netTotal + taxTotal
+    };
+  });
+};
+
+/**
+ * Quantity of each product already returned across a sale's credit memos
+ */
+export const getReturnedQuantities = (memos: CreditMemo[]) => {
+  const returned: Record<string, number> = {};
+
+  memos.forEach(memo => {
+    memo.lines.forEach(line => {
+      returned[line.prodcode] = (returned[line.prodcode] || 0) + line.quantity;
+    });
+  });
+
+  return returned;
+};
+
+/**
+ * Record a return against a sale as a new credit memo. The original sale is left as it was.
+ */
+export const createCreditMemo = async (
+  transno: string,
+  lines: ReturnLineInput[],
+  reason: string
+): Promise<CreateCreditMemoResult> => {
+  const { data, error } = await supabase.rpc('create_credit_memo', {
+    p_transno: transno,
+    p_lines: lines.map(line => ({ prodcode: line.prodcode, quantity: line.quantity })),
+    p_reason: reason
+  });
+
+  if (error) throw error;
+
+  const result = data as unknown as { ok: boolean; memo_no: string | null; errors: SaleValidationError[] };
+
+  return { ok: result.ok, memoNo: result.memo_no, errors: result.errors };
+};
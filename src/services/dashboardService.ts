@@ -3,7 +3,14 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/components/ui/use-toast";
 
 export interface DashboardStats {
+  // Net of line and order discounts and excluding tax
   totalSales: number;
+  totalDiscounts: number;
+  totalTax: number;
+  // totalSales plus tax
+  totalGrossSales: number;
+  // Credited back through returns, excluding tax; already taken off totalSales
+  totalReturns: number;
   totalTransactions: number;
   totalCustomers: number;
   totalProducts: number;
@@ -48,37 +55,15 @@ export const fetchDashboardStats = async (): Promise<{
   categoryData: CategoryData[];
 }> => {
   try {
-    // Fetch transactions from salesdetail and join with product for pricing
+    // Fetch line items with the price, unit and description charged and their amounts
+    // after line and order discounts, split into net and tax, leaving out the recycle bin
     const { data: salesDetailData, error: salesDetailError } = await supabase
-      .from('salesdetail')
-      .select(`
-        transno,
-        prodcode,
-        quantity,
-        product:prodcode(
-          description,
-          unit
-        )
-      `);
+      .from('sales_line_items')
+      .select('transno, prodcode, quantity, unitprice, unit, description, gross_amount, amount, amount_excl_tax, tax_amount')
+      .is('deleted_at', null);
 
     if (salesDetailError) throw salesDetailError;
 
-    // Fetch price history to calculate transaction amounts
-    const { data: priceHistData, error: priceHistError } = await supabase
-      .from('pricehist')
-      .select('*');
-      
-    if (priceHistError) throw priceHistError;
-    
-    // Get latest price for each product
-    const latestPrices: Record<string, number> = {};
-    priceHistData.forEach(price => {
-      const prodcode = price.prodcode;
-      if (!latestPrices[prodcode] || new Date(price.effdate) > new Date(String(latestPrices[prodcode]))) {
-        latestPrices[prodcode] = parseFloat(String(price.unitprice));
-      }
-    });
-
     // Fetch sales data to get transaction dates
     const { data: salesData, error: salesError } = await supabase
       .from('sales')
@@ -87,33 +72,66 @@ export const fetchDashboardStats = async (): Promise<{
         salesdate,
         customer:custno(custname),
         employee:empno(firstname, lastname)
-      `);
+      `)
+      .is('deleted_at', null);
       
     if (salesError) throw salesError;
 
     // Create transaction records by combining salesdetail with prices
     const transactions = salesDetailData.map(detail => {
       const sale = salesData.find(s => s.transno === detail.transno);
-      const price = latestPrices[detail.prodcode] || 0;
-      const amount = parseFloat(String(detail.quantity)) * price;
+      const price = Number(detail.unitprice) || 0;
+      const amount = Number(detail.amount_excl_tax) || 0;
       
       return {
         id: `${detail.transno}-${detail.prodcode}`,
         transno: detail.transno,
         prodcode: detail.prodcode,
-        product_name: detail.product?.description || 'Unknown Product',
-        unit: detail.product?.unit || 'Unit',
+        product_name: detail.description || 'Unknown Product',
+        unit: detail.unit || 'Unit',
         quantity: parseFloat(String(detail.quantity)),
         price: price,
         amount: amount,
+        discount: (Number(detail.gross_amount) || 0) - (Number(detail.amount) || 0),
+        tax: Number(detail.tax_amount) || 0,
         created_at: sale?.salesdate || new Date().toISOString(),
+        is_return: false,
       };
     });
 
+    // Returns are kept as credit memos against the original sale and count against
+    // sales on the day they were credited, unless that sale is in the recycle bin
+    const { data: creditLineData, error: creditLineError } = await supabase
+      .from('credit_memo_lines')
+      .select('memo_no, prodcode, quantity, unitprice, unit, description, net_amount, tax_amount, credit_memos!inner(transno, memo_date, sales!inner(deleted_at))')
+      .is('credit_memos.sales.deleted_at', null);
+
+    if (creditLineError) throw creditLineError;
+
+    const returns = creditLineData.map(line => ({
+      id: `${line.memo_no}-${line.prodcode}`,
+      transno: line.credit_memos?.transno || line.memo_no,
+      prodcode: line.prodcode,
+      product_name: `Return: ${line.description || 'Unknown Product'}`,
+      unit: line.unit || 'Unit',
+      quantity: -(Number(line.quantity) || 0),
+      price: Number(line.unitprice) || 0,
+      amount: -(Number(line.net_amount) || 0),
+      discount: 0,
+      tax: -(Number(line.tax_amount) || 0),
+      created_at: line.credit_memos?.memo_date || new Date().toISOString(),
+      is_return: true,
+    }));
+
+    transactions.push(...returns);
+
     // Calculate total sales from all transactions
     const totalSales = transactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+    const totalDiscounts = transactions.reduce((sum, transaction) => sum + transaction.discount, 0);
+    const totalTax = transactions.reduce((sum, transaction) => sum + transaction.tax, 0);
+    const totalReturns = -returns.reduce((sum, line) => sum + line.amount, 0);
     // Get accurate total transaction count (unique transaction numbers)
-    const uniqueTransactions = new Set(transactions.map(t => t.transno));
+    const uniqueTransactions = new Set(transactions.filter(t => !t.is_return).map(t => t.transno));
     const totalTransactions = uniqueTransactions.size;
     
     // Fetch customer count
@@ -214,6 +232,10 @@ export const fetchDashboardStats = async (): Promise<{
     return {
       stats: {
         totalSales,
+        totalDiscounts,
+        totalTax,
+        totalGrossSales: totalSales + totalTax,
+        totalReturns,
         totalTransactions,
         totalCustomers: customerCount || 0,
         totalProducts: productCount || 0,
@@ -237,6 +259,10 @@ export const fetchDashboardStats = async (): Promise<{
     return {
       stats: {
         totalSales: 0,
+        totalDiscounts: 0,
+        totalTax: 0,
+        totalGrossSales: 0,
+        totalReturns: 0,
         totalTransactions: 0,
         totalCustomers: 0,
         totalProducts: 0,
@@ -0,0 +1,52 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface NumberSeries {
+  series: string;
+  prefix: string;
+  padding: number;
+  nextValue: number;
+}
+
+// Same rules as the database check on transaction_number_series
+export const MAX_PREFIX_LENGTH = 10;
+export const PREFIX_PATTERN = /^[A-Za-z0-9-]*$/;
+export const MIN_PADDING = 1;
+export const MAX_PADDING = 20;
+
+/**
+ * Fetch the transaction and credit memo number series
+ */
+export const fetchNumberSeries = async (): Promise<NumberSeries[]> => {
+  const { data, error } = await supabase
+    .from('transaction_number_series')
+    .select('series, prefix, padding, next_value')
+    .order('series');
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    series: row.series,
+    prefix: row.prefix,
+    padding: row.padding,
+    nextValue: Number(row.next_value)
+  }));
+};
+
+/**
+ * Number a series will hand out next, formatted as format_transaction_number does
+ */
+export const formatSeriesNumber = ({ prefix, padding, nextValue }: Omit<NumberSeries, 'series'>) =>
+  prefix + String(nextValue).padStart(padding, '0');
+
+/**
+ * Change a series' prefix and padding (admins only). The counter itself is never
+ * changed here: numbers are only taken by the RPCs that create sales and memos.
+ */
+export const updateNumberSeries = async (series: string, { prefix, padding }: Pick<NumberSeries, 'prefix' | 'padding'>) => {
+  const { error } = await supabase
+    .from('transaction_number_series')
+    .update({ prefix, padding, updated_at: new Date().toISOString() })
+    .eq('series', series);
+
+  if (error) throw error;
+};
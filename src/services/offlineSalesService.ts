@@ -0,0 +1,184 @@
+import { offlineDelete, offlineGet, offlineGetAll, offlinePut } from "@/lib/offlineDb";
+import { DiscountReason, saveSale, SaleInput, SaleValidationError } from "@/services/salesService";
+import { deleteSaleDraft, retryDraftDeletions, SaleDraftPayload } from "@/services/saleDraftService";
+import { TaxConfiguration } from "@/services/taxService";
+
+// What the transaction dialog needs to build a sale without a connection
+export interface OfflineReferenceData {
+  customers: { custno: string; custname: string | null; tax_exempt: boolean }[];
+  employees: { empno: string; firstname: string | null; lastname: string | null; fullname: string }[];
+  products: { prodcode: string; description: string | null; unit: string | null; tax_class: string | null; latestPrice: number | null }[];
+  discountReasons: DiscountReason[];
+  taxConfiguration: TaxConfiguration | null;
+  cachedAt: string;
+}
+
+export type QueuedSaleStatus = 'pending' | 'rejected';
+
+export interface QueuedSale {
+  // Also sent to save_sale as the client id, so a repeated sync never saves it twice
+  id: string;
+  // Who entered it; each user only sees and syncs their own queued sales
+  userId: string;
+  // Shown until the server allocates the real number on sync
+  provisionalTransno: string;
+  sale: SaleDraftPayload;
+  // Draft the sale was entered from, removed once the sale syncs
+  draftId?: string;
+  queuedAt: string;
+  status: QueuedSaleStatus;
+  // Why the server refused the sale on the last sync
+  errors: SaleValidationError[];
+}
+
+export interface SyncResult {
+  synced: { provisionalTransno: string; transno: string }[];
+  rejected: QueuedSale[];
+  // The connection dropped part way; the rest stays queued
+  interrupted: boolean;
+}
+
+const REFERENCE_KEY = 'reference-data';
+const COUNTER_KEY = 'provisional-counter';
+
+/**
+ * Whether an error means the server could not be reached, rather than that it said no
+ */
+export const isNetworkError = (error: unknown) => {
+  if (!navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : (error as { message?: string } | null)?.message || '';
+  return /failed to fetch|networkerror|fetcherror|load failed/i.test(message);
+};
+
+export const cacheReferenceData = (data: Omit<OfflineReferenceData, 'cachedAt'>) =>
+  offlinePut('cache', { ...data, cachedAt: new Date().toISOString() }, REFERENCE_KEY);
+
+export const loadCachedReferenceData = () =>
+  offlineGet<OfflineReferenceData>('cache', REFERENCE_KEY);
+
+const formatProvisional = (counter: number) => `OFFLINE-${String(counter).padStart(4, '0')}`;
+
+/**
+ * The provisional number the next offline sale will get on this device
+ */
+export const peekProvisionalTransno = async () =>
+  formatProvisional(((await offlineGet<number>('cache', COUNTER_KEY)) || 0) + 1);
+
+/**
+ * Convert what the dialog holds into the input save_sale takes for a new sale
+ */
+export const toNewSaleInput = (sale: SaleDraftPayload): SaleInput => ({
+  transno: '',
+  salesdate: sale.salesdate,
+  custno: sale.custno || null,
+  empno: sale.empno || null,
+  isNew: true,
+  details: sale.products.map(product => ({
+    prodcode: product.prodcode,
+    quantity: product.quantity || 0,
+    unit: product.customUnit && product.customUnit !== product.unit ? product.customUnit : null,
+    discount: product.discount
+  })),
+  discount: sale.discount
+});
+
+export interface QueueSaleOptions {
+  // The queued sale being replaced after a correction
+  existing?: QueuedSale;
+  // Client id the sale may already have been sent with
+  clientId?: string;
+  draftId?: string;
+}
+
+/**
+ * Put a sale in the local queue, or replace a queued one after it has been corrected
+ */
+export const queueSale = async (
+  userId: string,
+  sale: SaleDraftPayload,
+  { existing, clientId, draftId }: QueueSaleOptions = {}
+): Promise<QueuedSale> => {
+  let provisionalTransno = existing?.provisionalTransno;
+
+  if (!provisionalTransno) {
+    const counter = ((await offlineGet<number>('cache', COUNTER_KEY)) || 0) + 1;
+    await offlinePut('cache', counter, COUNTER_KEY);
+    provisionalTransno = formatProvisional(counter);
+  }
+
+  const queued: QueuedSale = {
+    id: existing?.id || clientId || crypto.randomUUID(),
+    userId,
+    provisionalTransno,
+    sale,
+    draftId: draftId || existing?.draftId,
+    queuedAt: existing?.queuedAt || new Date().toISOString(),
+    status: 'pending',
+    errors: []
+  };
+
+  await offlinePut('queue', queued);
+  return queued;
+};
+
+/**
+ * A user's queued sales in the order they were entered
+ */
+export const fetchQueuedSales = async (userId: string) =>
+  (await offlineGetAll<QueuedSale>('queue'))
+    .filter(queued => queued.userId === userId)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+
+export const removeQueuedSale = (id: string) => offlineDelete('queue', id);
+
+const sendPendingSales = async (userId: string): Promise<SyncResult> => {
+  const result: SyncResult = { synced: [], rejected: [], interrupted: false };
+  const pending = (await fetchQueuedSales(userId)).filter(queued => queued.status === 'pending');
+  await retryDraftDeletions(userId);
+
+  for (const queued of pending) {
+    try {
+      const saved = await saveSale({ ...toNewSaleInput(queued.sale), clientId: queued.id });
+
+      if (saved.ok && saved.transno) {
+        await removeQueuedSale(queued.id);
+        result.synced.push({ provisionalTransno: queued.provisionalTransno, transno: saved.transno });
+        // Removing the draft failed while offline, so it would otherwise come back
+        if (queued.draftId) {
+          await deleteSaleDraft(userId, queued.draftId)
+            .catch(error => console.error('Error removing the draft of a synced sale:', error));
+        }
+      } else {
+        const rejected: QueuedSale = { ...queued, status: 'rejected', errors: saved.errors };
+        await offlinePut('queue', rejected);
+        result.rejected.push(rejected);
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        result.interrupted = true;
+        break;
+      }
+      throw error;
+    }
+  }
+
+  return result;
+};
+
+// One sync at a time per user, so two syncs never send the same sale side by side
+const runningSyncs = new Map<string, Promise<SyncResult>>();
+
+/**
+ * Send a user's pending sales to the server in the order they were entered. Sales the
+ * server rejects stay queued with its errors until someone corrects or discards them.
+ */
+export const syncQueuedSales = (userId: string): Promise<SyncResult> => {
+  let running = runningSyncs.get(userId);
+  if (!running) {
+    running = sendPendingSales(userId).finally(() => {
+      runningSyncs.delete(userId);
+    });
+    runningSyncs.set(userId, running);
+  }
+  return running;
+};
@@ -0,0 +1,181 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { SalesDetail } from "@/services/salesService";
+import { Discount } from "@/utils/salesTotals";
+
+// What the transaction dialog holds for a sale that has not been saved yet
+export interface SaleDraftPayload {
+  salesdate: string;
+  custno: string;
+  empno: string;
+  products: SalesDetail[];
+  discount: Discount | null;
+}
+
+export interface SaleDraft {
+  id: string;
+  payload: SaleDraftPayload;
+  updatedAt: string;
+  // Kept only in this browser because the server could not be reached
+  local: boolean;
+}
+
+type LocalDrafts = Record<string, { payload: SaleDraftPayload; updatedAt: string }>;
+
+const storageKey = (userId: string) => `sale-drafts:${userId}`;
+// Drafts whose sale was saved but whose server copy could not be removed yet
+const deletedStorageKey = (userId: string) => `sale-drafts-deleted:${userId}`;
+
+const readLocalDrafts = (userId: string): LocalDrafts => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(userId)) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeLocalDrafts = (userId: string, drafts: LocalDrafts) => {
+  if (Object.keys(drafts).length === 0) {
+    localStorage.removeItem(storageKey(userId));
+  } else {
+    localStorage.setItem(storageKey(userId), JSON.stringify(drafts));
+  }
+};
+
+const readPendingDeletions = (userId: string): Set<string> => {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(deletedStorageKey(userId)) || '[]'));
+  } catch {
+    return new Set();
+  }
+};
+
+const writePendingDeletions = (userId: string, ids: Set<string>) => {
+  if (ids.size === 0) {
+    localStorage.removeItem(deletedStorageKey(userId));
+  } else {
+    localStorage.setItem(deletedStorageKey(userId), JSON.stringify([...ids]));
+  }
+};
+
+const removeServerDraft = (id: string) =>
+  supabase
+    .from('sale_drafts')
+    .delete()
+    .eq('id', id);
+
+const upsertDraft = (id: string, payload: SaleDraftPayload, updatedAt: string) =>
+  supabase
+    .from('sale_drafts')
+    .upsert({ id, payload: payload as unknown as Json, updated_at: updatedAt });
+
+/**
+ * A draft is only worth keeping once something has been entered beyond the defaults
+ */
+export const isEmptySaleDraft = (payload: SaleDraftPayload) =>
+  payload.products.length === 0 && !payload.custno && !payload.empno;
+
+/**
+ * Remove the server copies of drafts whose sale was saved while they could not be
+ * deleted. Returns the ids still waiting.
+ */
+export const retryDraftDeletions = async (userId: string): Promise<Set<string>> => {
+  const pending = readPendingDeletions(userId);
+
+  for (const id of [...pending]) {
+    const { error } = await removeServerDraft(id);
+    if (!error) pending.delete(id);
+  }
+
+  writePendingDeletions(userId, pending);
+  return pending;
+};
+
+/**
+ * The user's drafts, newest first. Drafts left in this browser while offline are
+ * pushed to the server on the way, and drafts of sales already saved are left out.
+ */
+export const fetchSaleDrafts = async (userId: string): Promise<SaleDraft[]> => {
+  const deleted = await retryDraftDeletions(userId);
+  const localDrafts = readLocalDrafts(userId);
+  for (const id of deleted) delete localDrafts[id];
+
+  const { data, error } = await supabase
+    .from('sale_drafts')
+    .select('id, payload, updated_at')
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching sale drafts, using the local copies:', error);
+    writeLocalDrafts(userId, localDrafts);
+    return Object.entries(localDrafts)
+      .map(([id, draft]) => ({ id, ...draft, local: true }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  const drafts = new Map<string, SaleDraft>((data || []).filter(row => !deleted.has(row.id)).map(row => [row.id, {
+    id: row.id,
+    payload: row.payload as unknown as SaleDraftPayload,
+    updatedAt: row.updated_at,
+    local: false
+  }]));
+
+  for (const [id, draft] of Object.entries(localDrafts)) {
+    const serverDraft = drafts.get(id);
+    if (serverDraft && serverDraft.updatedAt >= draft.updatedAt) {
+      delete localDrafts[id];
+      continue;
+    }
+
+    const { error: syncError } = await upsertDraft(id, draft.payload, draft.updatedAt);
+    if (!syncError) delete localDrafts[id];
+    drafts.set(id, { id, ...draft, local: !!syncError });
+  }
+
+  writeLocalDrafts(userId, localDrafts);
+
+  return [...drafts.values()].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Save a draft on the server, or in this browser when the server cannot be reached
+ */
+export const saveSaleDraft = async (userId: string, id: string, payload: SaleDraftPayload): Promise<SaleDraft> => {
+  const updatedAt = new Date().toISOString();
+  const localDrafts = readLocalDrafts(userId);
+  const { error } = await upsertDraft(id, payload, updatedAt);
+
+  if (error) {
+    console.error('Error saving sale draft, keeping it locally:', error);
+    writeLocalDrafts(userId, { ...localDrafts, [id]: { payload, updatedAt } });
+    return { id, payload, updatedAt, local: true };
+  }
+
+  if (localDrafts[id]) {
+    delete localDrafts[id];
+    writeLocalDrafts(userId, localDrafts);
+  }
+
+  return { id, payload, updatedAt, local: false };
+};
+
+/**
+ * Remove a draft. Until the server copy is gone the id is remembered in this browser,
+ * so the draft is not offered again and the removal is retried on the next load.
+ */
+export const deleteSaleDraft = async (userId: string, id: string) => {
+  const localDrafts = readLocalDrafts(userId);
+  if (localDrafts[id]) {
+    delete localDrafts[id];
+    writeLocalDrafts(userId, localDrafts);
+  }
+  writePendingDeletions(userId, readPendingDeletions(userId).add(id));
+
+  const { error } = await removeServerDraft(id);
+
+  if (error) throw error;
+
+  const pending = readPendingDeletions(userId);
+  pending.delete(id);
+  writePendingDeletions(userId, pending);
+};
@@ -0,0 +1,196 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type SaleFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface SaleTemplateLine {
+  prodcode: string;
+  quantity: number;
+}
+
+export interface SaleTemplate {
+  id: string;
+  name: string;
+  custno: string;
+  custname: string | null;
+  empno: string | null;
+  frequency: SaleFrequency;
+  startDate: string;
+  endDate: string | null;
+  // Date of the next sale to generate; past endDate once the schedule has run out
+  nextRun: string;
+  generatedCount: number;
+  active: boolean;
+  // Why the last due occurrence could not be generated
+  lastError: string | null;
+  lines: SaleTemplateLine[];
+}
+
+export interface SaleTemplateInput {
+  id?: string;
+  name: string;
+  custno: string;
+  empno: string | null;
+  frequency: SaleFrequency;
+  startDate: string;
+  endDate: string | null;
+  active: boolean;
+  lines: SaleTemplateLine[];
+}
+
+export const FREQUENCY_LABELS: Record<SaleFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly'
+};
+
+const toIsoDate = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Date of a template's nth occurrence, counting the start date as occurrence 0. Matches
+ * sale_template_occurrence: monthly occurrences keep the start day or the month's last day.
+ */
+export const templateOccurrence = (frequency: SaleFrequency, startDate: string, n: number) => {
+  const start = new Date(`${startDate}T00:00:00Z`);
+
+  if (frequency !== 'monthly') {
+    start.setUTCDate(start.getUTCDate() + n * (frequency === 'weekly' ? 7 : 1));
+    return toIsoDate(start);
+  }
+
+  const month = start.getUTCMonth() + n;
+  const lastDay = new Date(Date.UTC(start.getUTCFullYear(), month + 1, 0)).getUTCDate();
+  return toIsoDate(new Date(Date.UTC(start.getUTCFullYear(), month, Math.min(start.getUTCDate(), lastDay))));
+};
+
+/**
+ * First occurrence on or after a date
+ */
+const firstOccurrenceFrom = (frequency: SaleFrequency, startDate: string, from: string) => {
+  let n = 0;
+  while (templateOccurrence(frequency, startDate, n) < from) n++;
+  return { n, date: templateOccurrence(frequency, startDate, n) };
+};
+
+/**
+ * Whether the schedule still has occurrences to generate
+ */
+export const isTemplateFinished = (template: SaleTemplate) =>
+  !!template.endDate && template.nextRun > template.endDate;
+
+export const fetchSaleTemplates = async (): Promise<SaleTemplate[]> => {
+  const { data, error } = await supabase
+    .from('sale_templates')
+    .select(`
+      id, name, custno, empno, frequency, start_date, end_date, next_run, generated_count, active, last_error,
+      customer:custno(custname),
+      sale_template_lines(prodcode, quantity)
+    `)
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    id: row.id,
+    name: row.name,
+    custno: row.custno,
+    custname: row.customer?.custname || null,
+    empno: row.empno,
+    frequency: row.frequency as SaleFrequency,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    nextRun: row.next_run,
+    generatedCount: row.generated_count,
+    active: row.active,
+    lastError: row.last_error,
+    lines: row.sale_template_lines.map(line => ({ prodcode: line.prodcode, quantity: Number(line.quantity) }))
+  }));
+};
+
+/**
+ * Create a template, or update one when an id is given. A new schedule, or a change to
+ * when one starts or repeats, runs from today on and never backfills past dates.
+ */
+export const saveSaleTemplate = async (template: SaleTemplateInput, existing?: SaleTemplate): Promise<string> => {
+  const values = {
+    name: template.name.trim(),
+    custno: template.custno,
+    empno: template.empno || null,
+    frequency: template.frequency,
+    start_date: template.startDate,
+    end_date: template.endDate || null,
+    active: template.active,
+    updated_at: new Date().toISOString()
+  };
+  const rescheduled = !existing
+    || existing.startDate !== template.startDate
+    || existing.frequency !== template.frequency;
+  const first = firstOccurrenceFrom(template.frequency, template.startDate, toIsoDate(new Date()));
+  const schedule = rescheduled ? { generated_count: first.n, next_run: first.date } : {};
+
+  let id = template.id;
+
+  if (id) {
+    const { error } = await supabase
+      .from('sale_templates')
+      .update({ ...values, ...schedule })
+      .eq('id', id);
+
+    if (error) throw error;
+  } else {
+    const { data, error } = await supabase
+      .from('sale_templates')
+      .insert({ ...values, generated_count: first.n, next_run: first.date })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    id = data.id;
+  }
+
+  // Lines are replaced as a set; the template is small enough that diffing buys nothing
+  const { error: deleteError } = await supabase
+    .from('sale_template_lines')
+    .delete()
+    .eq('template_id', id);
+
+  if (deleteError) throw deleteError;
+
+  if (template.lines.length > 0) {
+    const { error: linesError } = await supabase
+      .from('sale_template_lines')
+      .insert(template.lines.map(line => ({ template_id: id!, prodcode: line.prodcode, quantity: line.quantity })));
+
+    if (linesError) throw linesError;
+  }
+
+  return id;
+};
+
+export const setSaleTemplateActive = async (id: string, active: boolean) => {
+  const { error } = await supabase
+    .from('sale_templates')
+    .update({ active, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deleteSaleTemplate = async (id: string) => {
+  const { error } = await supabase
+    .from('sale_templates')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Generate every sale that has come due (admins only). Returns how many were created.
+ */
+export const generateDueSales = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('generate_due_sales', {});
+
+  if (error) throw error;
+
+  return data || 0;
+};
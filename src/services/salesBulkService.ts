@@ -0,0 +1,65 @@
+import { supabase } from "@/integrations/supabase/client";
+import { SalesTransaction } from "@/services/salesService";
+import { trashSale } from "@/services/salesTrashService";
+
+export type BulkSalesAction = 'delete' | 'employee' | 'customer';
+
+export interface BulkReassignment {
+  // An empty string clears the field; a missing one is left as it is
+  empno?: string;
+  custno?: string;
+}
+
+// Keeps .in() filters well inside URL length limits
+const CHUNK_SIZE = 100;
+
+const chunk = <T>(items: T[]) => {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += CHUNK_SIZE) {
+    chunks.push(items.slice(start, start + CHUNK_SIZE));
+  }
+  return chunks;
+};
+
+/**
+ * Transaction numbers, out of those given, that have returns recorded against them
+ */
+export const fetchSalesWithReturns = async (transnos: string[]): Promise<Set<string>> => {
+  const withReturns = new Set<string>();
+
+  for (const batch of chunk(transnos)) {
+    const { data, error } = await supabase
+      .from('credit_memos')
+      .select('transno')
+      .in('transno', batch);
+
+    if (error) throw error;
+    (data || []).forEach(memo => withReturns.add(memo.transno));
+  }
+
+  return withReturns;
+};
+
+/**
+ * Move sales to another salesperson and/or customer. The server takes the tax exemption
+ * from the new customer and recomputes each sale's tax in the same transaction.
+ */
+export const reassignSales = async (sales: SalesTransaction[], changes: BulkReassignment) => {
+  for (const batch of chunk(sales)) {
+    const { error } = await supabase.rpc('reassign_sales', {
+      p_transnos: batch.map(sale => sale.transno),
+      p_changes: { ...changes }
+    });
+
+    if (error) throw error;
+  }
+};
+
+/**
+ * Move sales with their line items to the recycle bin
+ */
+export const deleteSales = async (sales: SalesTransaction[]) => {
+  for (const sale of sales) {
+    await trashSale(sale.transno);
+  }
+};
@@ -0,0 +1,300 @@
+import ExcelJS from 'exceljs';
+import Papa from 'papaparse';
+import { supabase } from "@/integrations/supabase/client";
+import { SaleValidationError } from "@/services/salesService";
+
+export type ImportField = 'transno' | 'salesdate' | 'custno' | 'empno' | 'prodcode' | 'quantity' | 'unitprice' | 'unit';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'transno', label: 'Transaction No', required: true, aliases: ['transno', 'transaction no', 'transaction number', 'invoice', 'receipt', 'ref'] },
+  { field: 'salesdate', label: 'Date', required: true, aliases: ['salesdate', 'sales date', 'date', 'transaction date'] },
+  { field: 'custno', label: 'Customer No', required: false, aliases: ['custno', 'customer no', 'customer number', 'customer'] },
+  { field: 'empno', label: 'Employee No', required: false, aliases: ['empno', 'employee no', 'employee number', 'employee', 'cashier'] },
+  { field: 'prodcode', label: 'Product Code', required: true, aliases: ['prodcode', 'product code', 'product', 'sku', 'item'] },
+  { field: 'quantity', label: 'Quantity', required: true, aliases: ['quantity', 'qty'] },
+  { field: 'unitprice', label: 'Unit Price', required: false, aliases: ['unitprice', 'unit price', 'price'] },
+  { field: 'unit', label: 'Unit', required: false, aliases: ['unit', 'uom'] }
+];
+
+// Column header chosen for each field; empty when the file has no such column
+export type ImportMapping = Record<ImportField, string>;
+
+export interface ParsedImportFile {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportError extends SaleValidationError {
+  // Row in the file, counting the header row as 1
+  row: number | null;
+  ref: string | null;
+}
+
+export interface ImportLine {
+  row: number;
+  prodcode: string;
+  quantity: number | null;
+  unitprice: number | null;
+  unit: string;
+}
+
+export interface ImportSale {
+  ref: string;
+  row: number;
+  salesdate: string | null;
+  custno: string;
+  empno: string;
+  lines: ImportLine[];
+  // Problems found while reading the file, before the database sees the sale
+  errors: ImportError[];
+}
+
+export interface ImportSaleResult {
+  ref: string;
+  transno: string | null;
+  ok: boolean;
+  errors: ImportError[];
+}
+
+// A batch the database refused as a whole; it and the batches after it were not sent
+export interface ImportFailure {
+  message: string;
+  fromRow: number;
+  toRow: number;
+}
+
+export interface ImportRun {
+  results: ImportSaleResult[];
+  failure: ImportFailure | null;
+}
+
+const IMPORT_BATCH_SIZE = 50;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+const isXlsxFile = (file: File) => /\.xlsx$/i.test(file.name);
+
+// Date cells hold the day at UTC midnight; everything else as the spreadsheet shows it
+const cellText = (cell: ExcelJS.Cell) =>
+  cell.value instanceof Date ? cell.value.toISOString().split('T')[0] : cell.text;
+
+// The first worksheet as rows of cell text
+const readXlsxRows = async (file: File): Promise<string[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow(row => {
+    rows.push(Array.from({ length: sheet.columnCount }, (_, index) => cellText(row.getCell(index + 1))));
+  });
+  return rows;
+};
+
+const readCsvRows = async (file: File): Promise<string[][]> =>
+  Papa.parse<string[]>(await file.text(), { skipEmptyLines: 'greedy' }).data;
+
+/**
+ * Read a CSV file, or the first sheet of an XLSX file, into a header row and data rows,
+ * all as text
+ */
+export const parseImportFile = async (file: File): Promise<ParsedImportFile> => {
+  const [headers = [], ...rows] = isXlsxFile(file) ? await readXlsxRows(file) : await readCsvRows(file);
+
+  return {
+    headers: headers.map(header => String(header).trim()),
+    rows: rows
+      .map(row => headers.map((_, index) => String(row[index] ?? '').trim()))
+      .filter(row => row.some(Boolean))
+  };
+};
+
+/**
+ * Match file columns to import fields by their header names
+ */
+export const guessImportMapping = (headers: string[]): ImportMapping => {
+  const normalized = headers.map(normalizeHeader);
+
+  return IMPORT_FIELDS.reduce((mapping, { field, aliases }) => {
+    const index = normalized.findIndex(header => aliases.includes(header));
+    return { ...mapping, [field]: index >= 0 ? headers[index] : '' };
+  }, {} as ImportMapping);
+};
+
+/**
+ * Parse a date as YYYY-MM-DD or the US M/D/YYYY the rest of the app displays; null if invalid
+ */
+export const parseImportDate = (value: string) => {
+  let match = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  let year: number, month: number, day: number;
+
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    if (!match) return null;
+    [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return date.toISOString().split('T')[0];
+};
+
+const parseImportNumber = (value: string) => {
+  if (!value) return null;
+  const number = Number(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Group file rows into sales by transaction number. Rows without a product code only
+ * carry header values; every other row is a line of its sale.
+ */
+export const buildImportSales = (file: ParsedImportFile, mapping: ImportMapping): ImportSale[] => {
+  const columns = Object.fromEntries(
+    IMPORT_FIELDS.map(({ field }) => [field, mapping[field] ? file.headers.indexOf(mapping[field]) : -1])
+  ) as Record<ImportField, number>;
+  const sales = new Map<string, ImportSale>();
+  const unnumbered: ImportSale[] = [];
+
+  file.rows.forEach((values, index) => {
+    const row = index + 2;
+    const value = (field: ImportField) => (columns[field] >= 0 ? values[columns[field]] || '' : '');
+    const ref = value('transno');
+    const errors: ImportError[] = [];
+    const error = (field: string, message: string, prodcode?: string) =>
+      errors.push({ row, ref: ref || null, field, message, prodcode });
+
+    if (!ref) {
+      error('transno', 'Transaction number is required');
+      unnumbered.push({ ref: '', row, salesdate: null, custno: '', empno: '', lines: [], errors });
+      return;
+    }
+
+    const rawDate = value('salesdate');
+    const salesdate = rawDate ? parseImportDate(rawDate) : null;
+    if (rawDate && !salesdate) error('salesdate', `"${rawDate}" is not a valid date`);
+
+    let sale = sales.get(ref);
+    if (!sale) {
+      sale = { ref, row, salesdate, custno: value('custno'), empno: value('empno'), lines: [], errors: [] };
+      sales.set(ref, sale);
+    } else {
+      // Header values may repeat on every line, but they have to agree
+      if (salesdate && sale.salesdate && salesdate !== sale.salesdate) error('salesdate', `Date differs from row ${sale.row}`);
+      if (value('custno') && sale.custno && value('custno') !== sale.custno) error('custno', `Customer differs from row ${sale.row}`);
+      if (value('empno') && sale.empno && value('empno') !== sale.empno) error('empno', `Employee differs from row ${sale.row}`);
+      sale.salesdate = sale.salesdate || salesdate;
+      sale.custno = sale.custno || value('custno');
+      sale.empno = sale.empno || value('empno');
+    }
+
+    const prodcode = value('prodcode');
+    if (prodcode) {
+      const quantity = parseImportNumber(value('quantity'));
+      const unitprice = parseImportNumber(value('unitprice'));
+
+      if (value('quantity') && quantity === null) error('quantity', `"${value('quantity')}" is not a number`, prodcode);
+      if (value('unitprice') && unitprice === null) error('unitprice', `"${value('unitprice')}" is not a number`, prodcode);
+
+      sale.lines.push({ row, prodcode, quantity, unitprice, unit: value('unit') });
+    }
+
+    sale.errors.push(...errors);
+  });
+
+  return [...unnumbered, ...sales.values()];
+};
+
+const saleRows = (sale: ImportSale) => [sale.row, ...sale.lines.map(line => line.row)];
+
+/**
+ * Send sales to the import_sales RPC in batches. A dry run only validates; otherwise each
+ * batch writes the sales that pass and reports the rest. Sales with problems in the file
+ * itself are never written.
+ *
+ * Each batch commits on its own, so a batch that fails stops the run without undoing the
+ * ones before it: their results are returned with the failure, and every sale that was
+ * not sent is reported as not imported.
+ */
+export const runSalesImport = async (
+  sales: ImportSale[],
+  options: { dryRun: boolean; keepNumbers: boolean; onProgress?: (done: number, total: number) => void }
+): Promise<ImportRun> => {
+  const results: ImportSaleResult[] = [];
+  // Rows without a transaction number cannot be grouped into a sale, so only the file check applies
+  const toSend = sales.filter(sale => sale.ref && (options.dryRun || sale.errors.length === 0));
+
+  sales
+    .filter(sale => !toSend.includes(sale))
+    .forEach(sale => results.push({ ref: sale.ref, transno: null, ok: false, errors: sale.errors }));
+
+  for (let start = 0; start < toSend.length; start += IMPORT_BATCH_SIZE) {
+    const batch = toSend.slice(start, start + IMPORT_BATCH_SIZE);
+
+    const { data, error } = await supabase.rpc('import_sales', {
+      p_sales: batch.map(sale => ({
+        ref: sale.ref,
+        row: sale.row,
+        salesdate: sale.salesdate,
+        custno: sale.custno,
+        empno: sale.empno,
+        lines: sale.lines.map(line => ({
+          row: line.row,
+          prodcode: line.prodcode,
+          quantity: line.quantity,
+          unitprice: line.unitprice,
+          unit: line.unit
+        }))
+      })),
+      p_dry_run: options.dryRun,
+      p_keep_numbers: options.keepNumbers
+    });
+
+    const result = data as unknown as {
+      ok: boolean;
+      results: { ref: string | null; transno: string | null; ok: boolean; errors: (SaleValidationError & { row: number | null })[] }[];
+      errors: SaleValidationError[];
+    } | null;
+
+    if (error || !result?.ok) {
+      const rows = batch.flatMap(saleRows);
+      const failure: ImportFailure = {
+        message: error?.message || result?.errors[0]?.message || 'The import was rejected',
+        fromRow: Math.min(...rows),
+        toRow: Math.max(...rows)
+      };
+
+      toSend.slice(start).forEach(sale => results.push({
+        ref: sale.ref,
+        transno: null,
+        ok: false,
+        errors: [...sale.errors, {
+          row: sale.row,
+          ref: sale.ref,
+          field: 'import',
+          message: `Not imported: the batch with rows ${failure.fromRow}–${failure.toRow} failed (${failure.message})`
+        }]
+      }));
+
+      return { results, failure };
+    }
+
+    result.results.forEach((saleResult, index) => {
+      const sale = batch[index];
+      const errors = [
+        ...sale.errors,
+        ...saleResult.errors.map(saleError => ({ ...saleError, ref: sale.ref || null }))
+      ];
+
+      results.push({ ref: sale.ref, transno: saleResult.transno, ok: errors.length === 0, errors });
+    });
+
+    options.onProgress?.(Math.min(start + IMPORT_BATCH_SIZE, toSend.length), toSend.length);
+  }
+
+  return { results, failure: null };
+};
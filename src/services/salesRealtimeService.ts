@@ -0,0 +1,216 @@
+import { supabase } from "@/integrations/supabase/client";
+import { SalesTransaction, SortField, SortOrder } from "@/services/salesService";
+
+// How a sale changed; changes to its line items count as updates to the sale
+export type SaleChangeType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface SaleChange {
+  transno: string;
+  type: SaleChangeType;
+}
+
+// Another user on the sales page, and the transaction they have open for editing
+export interface SalesEditor {
+  userId: string;
+  email: string;
+  transno: string | null;
+}
+
+export interface SalesPresence {
+  // Move this user to another transaction, or to none
+  setEditing: (transno: string | null) => void;
+  leave: () => void;
+}
+
+// One save touches the header and every line, so changes are collected briefly first
+const CHANGE_BATCH_DELAY = 300;
+
+/**
+ * Listen for sales and line items written by anyone. The callback gets each changed
+ * transaction once per batch. Returns a function that stops listening.
+ */
+export const subscribeToSalesChanges = (onChange: (changes: SaleChange[]) => void) => {
+  let pending = new Map<string, SaleChangeType>();
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const queue = (transno: string | undefined, type: SaleChangeType) => {
+    if (!transno) return;
+    // Adding or removing the header says more than the line changes that come with it
+    if (type !== 'UPDATE' || !pending.has(transno)) pending.set(transno, type);
+
+    if (timeout) return;
+    timeout = setTimeout(() => {
+      const changes = [...pending].map(([changed, changeType]) => ({ transno: changed, type: changeType }));
+      pending = new Map();
+      timeout = null;
+      onChange(changes);
+    }, CHANGE_BATCH_DELAY);
+  };
+
+  const rowTransno = (row: unknown) => (row as { transno?: string } | null)?.transno;
+
+  const channel = supabase
+    .channel('sales-changes')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'sales' }, payload => {
+      queue(rowTransno(payload.new) || rowTransno(payload.old), payload.eventType);
+    })
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'salesdetail' }, payload => {
+      queue(rowTransno(payload.new) || rowTransno(payload.old), 'UPDATE');
+    })
+    .subscribe();
+
+  return () => {
+    if (timeout) clearTimeout(timeout);
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * Join the sales page's presence channel. The callback gets every other user on the
+ * page whenever someone joins, leaves or opens a different transaction.
+ */
+export const joinSalesPresence = (
+  user: { id: string; email: string },
+  onSync: (editors: SalesEditor[]) => void
+): SalesPresence => {
+  let editing: string | null = null;
+  let subscribed = false;
+
+  const channel = supabase.channel('sales-presence', { config: { presence: { key: user.id } } });
+
+  const track = () => {
+    if (!subscribed) return;
+    channel.track({ userId: user.id, email: user.email, transno: editing })
+      .catch(error => console.error('Error sharing edit presence:', error));
+  };
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      const state = channel.presenceState<SalesEditor>();
+      // A user with several tabs open appears once per tab
+      onSync(Object.values(state).flat()
+        .filter(editor => editor.userId !== user.id)
+        .map(({ userId, email, transno }) => ({ userId, email, transno })));
+    })
+    .subscribe(status => {
+      subscribed = status === 'SUBSCRIBED';
+      track();
+    });
+
+  return {
+    setEditing: (transno) => {
+      editing = transno;
+      track();
+    },
+    leave: () => {
+      subscribed = false;
+      supabase.removeChannel(channel);
+    }
+  };
+};
+
+const compareText = (a: string | null, b: string | null) => (a || '').localeCompare(b || '');
+
+// Nulls sort first ascending and last descending, as they do in get_sales_page
+const compareDates = (a: string | null, b: string | null) =>
+  a === b ? 0 : a === null ? -1 : b === null ? 1 : a.localeCompare(b);
+
+/**
+ * The order get_sales_page returns rows in, ties broken by the newest transaction
+ */
+export const compareSales = (sortField: SortField, sortOrder: SortOrder) => (a: SalesTransaction, b: SalesTransaction) => {
+  let result = 0;
+  switch (sortField) {
+    case 'transno':
+      result = compareText(a.transno, b.transno);
+      break;
+    case 'salesdate':
+      result = compareDates(a.salesdate, b.salesdate);
+      break;
+    case 'custname':
+      result = compareText(a.custname, b.custname);
+      break;
+    case 'empname':
+      result = compareText(a.empname, b.empname);
+      break;
+    case 'totalPrice':
+      result = a.totalPrice - b.totalPrice;
+      break;
+  }
+  return (sortOrder === 'asc' ? result : -result) || compareText(b.transno, a.transno);
+};
+
+export interface SalesMergeOptions {
+  sortField: SortField;
+  sortOrder: SortOrder;
+  page: number;
+  pageSize: number;
+}
+
+export interface SalesMergeResult {
+  rows: SalesTransaction[];
+  countChange: number;
+  // The page and its count can't be worked out from the changes alone; fetch it again
+  reload: boolean;
+}
+
+/**
+ * Apply changed sales to the page on screen. `refreshed` holds the changed sales that
+ * still match the page's search and filters, re-read from the database; the others
+ * were deleted, trashed or no longer match. A matching sale not on screen, whether new,
+ * restored or changed to match, is only placed on the page when it sorts within it.
+ *
+ * A removed row leaves a gap the next page fills, and a matching sale that was not
+ * inserted may already be counted on another page, so both ask for a reload. So does a
+ * sale that now sorts before the first row of a later page or after the last row of a
+ * full one: it may belong on another page and shift the rows between them.
+ */
+export const mergeSalesChanges = (
+  rows: SalesTransaction[],
+  changes: SaleChange[],
+  refreshed: SalesTransaction[],
+  { sortField, sortOrder, page, pageSize }: SalesMergeOptions
+): SalesMergeResult => {
+  const compare = compareSales(sortField, sortOrder);
+  let merged = [...rows];
+  let countChange = 0;
+  let reload = false;
+
+  changes.forEach(({ transno, type }) => {
+    const index = merged.findIndex(row => row.transno === transno);
+    const row = refreshed.find(sale => sale.transno === transno);
+    const lastPage = merged.length < pageSize;
+
+    if (index >= 0) {
+      if (row) {
+        const others = merged.filter(sale => sale.transno !== transno);
+        const position = others.findIndex(sale => compare(row, sale) < 0);
+        if ((position === 0 && page > 1) || (position === -1 && !lastPage)) reload = true;
+        merged[index] = row;
+      } else {
+        merged.splice(index, 1);
+        countChange--;
+        reload = true;
+      }
+      return;
+    }
+
+    if (!row) return;
+
+    const position = merged.findIndex(sale => compare(row, sale) < 0);
+    if (type === 'INSERT') {
+      countChange++;
+      if (position === 0 && page > 1) reload = true;
+    } else {
+      reload = true;
+    }
+    if (position > 0 || (position === 0 && page === 1) || (position === -1 && lastPage)) {
+      merged.splice(position === -1 ? merged.length : position, 0, row);
+    }
+  });
+
+  merged.sort(compare);
+  if (merged.length > pageSize) merged = merged.slice(0, pageSize);
+
+  return { rows: merged, countChange, reload };
+};
@@ -0,0 +1,427 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Discount, DiscountType } from "@/utils/salesTotals";
+
+export interface SalesDetail {
+  prodcode: string;
+  quantity: number | null;
+  description: string | null;
+  unit: string | null;
+  unitprice: number | null;
+  discount: Discount | null;
+  grossAmount?: number;
+  discountAmount?: number;
+  netAmount?: number;
+  taxClass?: string | null;
+  taxRate?: number | null;
+  taxAmount?: number;
+  // What the customer paid for the line: after all discounts, including tax
+  amountInclTax?: number;
+  customUnit?: string;
+  createdBy?: string;
+  updatedBy?: string;
+  deletedBy?: string;
+}
+
+export interface AuditInfo {
+  createdBy: string | null;
+  updatedBy: string | null;
+  deletedBy: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  deletedAt: string | null;
+}
+
+export interface SalesTransaction {
+  transno: string;
+  salesdate: string | null;
+  custno: string | null;
+  empno: string | null;
+  custname: string | null;
+  empname: string | null;
+  productDetails: SalesDetail[];
+  discount: Discount | null;
+  grossTotal: number;
+  lineDiscountTotal: number;
+  orderDiscountAmount: number;
+  discountTotal: number;
+  pricesIncludeTax: boolean;
+  taxExempt: boolean;
+  totalExclTax: number;
+  taxTotal: number;
+  // What the customer pays: after discounts, including tax
+  totalPrice: number;
+  auditInfo?: AuditInfo;
+  // Set while the sale sits in the recycle bin
+  deletedAt?: string | null;
+  deletedBy?: string | null;
+  // Recurring template the sale was generated from
+  templateId?: string | null;
+  templateName?: string | null;
+}
+
+export interface DiscountReason {
+  code: string;
+  description: string;
+}
+
+export type SortField = 'transno' | 'salesdate' | 'custname' | 'empname' | 'totalPrice';
+export type SortOrder = 'asc' | 'desc';
+export type SearchField = 'all' | 'transno' | 'salesdate' | 'custname' | 'empname';
+
+// Compound filters applied on top of the search; every field is optional
+export interface SalesFilters {
+  dateFrom?: string;
+  dateTo?: string;
+  minTotal?: number;
+  maxTotal?: number;
+  custno?: string;
+  empno?: string;
+  prodcode?: string;
+}
+
+export interface SalesPageQuery {
+  searchTerm: string;
+  searchField: SearchField;
+  sortField: SortField;
+  sortOrder: SortOrder;
+  page: number;
+  pageSize: number;
+  filters?: SalesFilters;
+  includeAudit?: boolean;
+  // List the recycle bin instead of live sales
+  deleted?: boolean;
+  // Only these sales, e.g. to re-read rows changed by another user
+  transnos?: string[];
+}
+
+export interface SalesPage {
+  rows: SalesTransaction[];
+  totalCount: number;
+}
+
+// Shape of a row returned by the get_sales_page RPC
+interface SalesPageRow {
+  transno: string;
+  salesdate: string | null;
+  custno: string | null;
+  empno: string | null;
+  custname: string | null;
+  empname: string | null;
+  total_price: number | null;
+  gross_total: number | null;
+  line_discount_total: number | null;
+  order_discount_amount: number | null;
+  discount_total: number | null;
+  discount_type: DiscountType | null;
+  discount_value: number | null;
+  discount_reason: string | null;
+  prices_include_tax: boolean | null;
+  tax_exempt: boolean | null;
+  total_excl_tax: number | null;
+  tax_total: number | null;
+  deleted_at: string | null;
+  deleted_by_email: string | null;
+  template_id: string | null;
+  template_name: string | null;
+  line_items: {
+    prodcode: string;
+    quantity: number | null;
+    description: string | null;
+    unit: string | null;
+    unitprice: number | null;
+    discount_type: DiscountType | null;
+    discount_value: number | null;
+    discount_reason: string | null;
+    gross_amount: number | null;
+    line_discount_amount: number | null;
+    net_amount: number | null;
+    tax_class: string | null;
+    tax_rate: number | null;
+    tax_amount: number | null;
+    amount_incl_tax: number | null;
+    created_by: string | null;
+    updated_by: string | null;
+  }[];
+  audit: {
+    created_by: string | null;
+    created_at: string | null;
+    updated_by: string | null;
+    updated_at: string | null;
+  } | null;
+}
+
+const toDiscount = (type: DiscountType | null, value: number | null, reason: string | null): Discount | null =>
+  type ? { type, value: value === null ? null : Number(value), reason } : null;
+
+const toSalesTransaction = (row: SalesPageRow): SalesTransaction => ({
+  transno: row.transno,
+  salesdate: row.salesdate,
+  custno: row.custno,
+  empno: row.empno,
+  custname: row.custname,
+  empname: row.empname,
+  discount: toDiscount(row.discount_type, row.discount_value, row.discount_reason),
+  grossTotal: Number(row.gross_total) || 0,
+  lineDiscountTotal: Number(row.line_discount_total) || 0,
+  orderDiscountAmount: Number(row.order_discount_amount) || 0,
+  discountTotal: Number(row.discount_total) || 0,
+  pricesIncludeTax: !!row.prices_include_tax,
+  taxExempt: !!row.tax_exempt,
+  totalExclTax: Number(row.total_excl_tax) || 0,
+  taxTotal: Number(row.tax_total) || 0,
+  totalPrice: Number(row.total_price) || 0,
+  productDetails: row.line_items.map(item => ({
+    prodcode: item.prodcode,
+    quantity: item.quantity,
+    description: item.description,
+    unit: item.unit,
+    unitprice: item.unitprice,
+    discount: toDiscount(item.discount_type, item.discount_value, item.discount_reason),
+    grossAmount: Number(item.gross_amount) || 0,
+    discountAmount: Number(item.line_discount_amount) || 0,
+    netAmount: Number(item.net_amount) || 0,
+    taxClass: item.tax_class,
+    taxRate: item.tax_rate === null ? null : Number(item.tax_rate),
+    taxAmount: Number(item.tax_amount) || 0,
+    amountInclTax: Number(item.amount_incl_tax) || 0,
+    createdBy: item.created_by || undefined,
+    updatedBy: item.updated_by || undefined
+  })),
+  auditInfo: row.audit ? {
+    createdBy: row.audit.created_by,
+    updatedBy: row.audit.updated_by,
+    deletedBy: null,
+    createdAt: row.audit.created_at,
+    updatedAt: row.audit.updated_at,
+    deletedAt: null
+  } : undefined,
+  deletedAt: row.deleted_at,
+  deletedBy: row.deleted_by_email,
+  templateId: row.template_id,
+  templateName: row.template_name
+});
+
+/**
+ * Fetch one page of sales with their line items and totals, filtered and sorted by the database
+ */
+export const fetchSalesPage = async (query: SalesPageQuery): Promise<SalesPage> => {
+  const { data, error } = await supabase.rpc('get_sales_page', {
+    p_search: query.searchTerm,
+    p_search_field: query.searchField,
+    p_sort_field: query.sortField,
+    p_sort_order: query.sortOrder,
+    p_limit: query.pageSize,
+    p_offset: (query.page - 1) * query.pageSize,
+    p_include_audit: !!query.includeAudit,
+    p_filters: {
+      date_from: query.filters?.dateFrom || null,
+      date_to: query.filters?.dateTo || null,
+      min_total: query.filters?.minTotal ?? null,
+      max_total: query.filters?.maxTotal ?? null,
+      custno: query.filters?.custno || null,
+      empno: query.filters?.empno || null,
+      prodcode: query.filters?.prodcode || null,
+      deleted: !!query.deleted,
+      transnos: query.transnos || null
+    }
+  });
+
+  if (error) throw error;
+
+  const result = data as unknown as { total_count: number; rows: SalesPageRow[] };
+
+  return {
+    rows: result.rows.map(toSalesTransaction),
+    totalCount: Number(result.total_count) || 0
+  };
+};
+
+const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * Fetch every sale matching a search, in the requested order, a batch at a time
+ */
+export const fetchAllSales = async (query: Omit<SalesPageQuery, 'page' | 'pageSize'>): Promise<SalesTransaction[]> => {
+  const sales: SalesTransaction[] = [];
+  let page = 1;
+  let totalCount = 0;
+
+  do {
+    const result = await fetchSalesPage({ ...query, page, pageSize: EXPORT_BATCH_SIZE });
+    sales.push(...result.rows);
+    totalCount = result.totalCount;
+    if (result.rows.length === 0) break;
+    page++;
+  } while (sales.length < totalCount);
+
+  return sales;
+};
+
+export interface SaleLineInput {
+  prodcode: string;
+  quantity: number;
+  // Only sent when the user changed the line's unit in the dialog
+  unit?: string | null;
+  discount?: Discount | null;
+}
+
+export interface SaleInput {
+  // Ignored for new sales; the server allocates the number on commit
+  transno: string;
+  salesdate: string;
+  custno: string | null;
+  empno: string | null;
+  details: SaleLineInput[];
+  discount?: Discount | null;
+  isNew: boolean;
+  // Identifies a new sale across retries: sending it again returns the number it got
+  clientId?: string;
+}
+
+export interface SaleValidationError {
+  // 'form', 'transno', 'salesdate', 'custno', 'empno', 'details', 'discount', or a line field
+  // ('prodcode', 'quantity', 'discount')
+  field: string;
+  message: string;
+  // Set for line-level errors
+  prodcode?: string;
+}
+
+export interface SaveSaleResult {
+  ok: boolean;
+  transno: string | null;
+  errors: SaleValidationError[];
+}
+
+/**
+ * Create or replace a sale header and all of its line items in one database transaction
+ */
+export const saveSale = async (sale: SaleInput): Promise<SaveSaleResult> => {
+  const { data, error } = await supabase.rpc('save_sale', {
+    p_transno: sale.transno,
+    p_salesdate: sale.salesdate,
+    p_custno: sale.custno || '',
+    p_empno: sale.empno || '',
+    p_details: sale.details.map(detail => ({
+      prodcode: detail.prodcode,
+      quantity: detail.quantity,
+      unit: detail.unit || null,
+      discount_type: detail.discount?.type || null,
+      discount_value: detail.discount?.type ? detail.discount.value : null,
+      discount_reason: detail.discount?.type ? detail.discount.reason : null
+    })),
+    p_is_new: sale.isNew,
+    p_discount: sale.discount?.type ? {
+      type: sale.discount.type,
+      value: sale.discount.value,
+      reason: sale.discount.reason
+    } : null,
+    p_client_id: sale.clientId
+  });
+
+  if (error) throw error;
+
+  return data as unknown as SaveSaleResult;
+};
+
+/**
+ * Fetch the number the next new sale will probably get. Nothing is reserved: the real
+ * number is allocated by save_sale when the sale is committed and may differ.
+ */
+export const peekTransactionNumber = async (series = 'sales'): Promise<string> => {
+  const { data, error } = await supabase.rpc('peek_transaction_number', { p_series: series });
+
+  if (error) throw error;
+
+  return data || '';
+};
+
+// Products per request when looking up the prices in effect on a date
+const PRICE_BATCH_SIZE = 1000;
+
+/**
+ * Unit price of every product on a date (YYYY-MM-DD): its latest price history entry
+ * effective on or before that day, as effective_unit_price picks it
+ */
+export const fetchUnitPricesOn = async (date: string): Promise<Map<string, number | null>> => {
+  const prices = new Map<string, number | null>();
+
+  for (let from = 0; ; from += PRICE_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .rpc('unit_prices_on', { p_on: date })
+      .range(from, from + PRICE_BATCH_SIZE - 1);
+
+    if (error) throw error;
+
+    (data || []).forEach(row => prices.set(row.prodcode, row.unitprice));
+    if (!data || data.length < PRICE_BATCH_SIZE) return prices;
+  }
+};
+
+/**
+ * Fetch the active discount reason codes for the discount pickers
+ */
+export const fetchDiscountReasons = async (): Promise<DiscountReason[]> => {
+  const { data, error } = await supabase
+    .from('discount_reasons')
+    .select('code, description')
+    .eq('active', true)
+    .order('description');
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+/**
+ * Fetch the name and address of each customer, keyed by custno, for printing invoices
+ */
+export const fetchInvoiceCustomers = async (custnos: string[]) => {
+  const customers: Record<string, { custname: string | null; address: string | null }> = {};
+  const unique = [...new Set(custnos.filter(Boolean))];
+
+  if (unique.length === 0) return customers;
+
+  const { data, error } = await supabase
+    .from('customer')
+    .select('custno, custname, address')
+    .in('custno', unique);
+
+  if (error) throw error;
+
+  (data || []).forEach(customer => {
+    customers[customer.custno] = { custname: customer.custname, address: customer.address };
+  });
+
+  return customers;
+};
+
+/**
+ * Re-read a sale's line prices from price history as of its sale date (admins only).
+ * Returns the number of lines whose price changed.
+ */
+export const repriceSale = async (transno: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('reprice_sale', { p_transno: transno });
+
+  if (error) throw error;
+
+  return data || 0;
+};
+
+/**
+ * Group validation errors by field so the dialog can show them inline
+ */
+export const groupSaleErrors = (errors: SaleValidationError[]) => {
+  const header: Record<string, string> = {};
+  const lines: Record<string, string[]> = {};
+
+  errors.forEach(error => {
+    if (error.prodcode) {
+      lines[error.prodcode] = [...(lines[error.prodcode] || []), error.message];
+    } else if (!header[error.field]) {
+      header[error.field] = error.message;
+    }
+  });
+
+  return { header, lines };
+};
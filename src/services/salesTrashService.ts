@@ -0,0 +1,32 @@
+import { supabase } from "@/integrations/supabase/client";
+import { fetchSalesPage, SalesPage, SalesPageQuery } from "@/services/salesService";
+
+/**
+ * Move a sale and its line items to the recycle bin. Fails for a sale with credit memos.
+ */
+export const trashSale = async (transno: string) => {
+  const { error } = await supabase.rpc('trash_sale', { p_transno: transno });
+  if (error) throw error;
+};
+
+/**
+ * Bring a sale and its line items back from the recycle bin. Admins only.
+ */
+export const restoreSale = async (transno: string) => {
+  const { error } = await supabase.rpc('restore_sale', { p_transno: transno });
+  if (error) throw error;
+};
+
+/**
+ * Permanently remove a sale that is already in the recycle bin. Admins only.
+ */
+export const purgeSale = async (transno: string) => {
+  const { error } = await supabase.rpc('purge_sale', { p_transno: transno });
+  if (error) throw error;
+};
+
+/**
+ * One page of the recycle bin, searched and sorted like the sales list
+ */
+export const fetchDeletedSalesPage = (query: Omit<SalesPageQuery, 'deleted'>): Promise<SalesPage> =>
+  fetchSalesPage({ ...query, deleted: true });
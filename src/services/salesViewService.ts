@@ -0,0 +1,93 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface SalesView {
+  id: string;
+  name: string;
+  // Sales list query string: search, sort and filters, without paging
+  query: string;
+  shared: boolean;
+  isOwn: boolean;
+}
+
+export interface SalesViewInput {
+  id?: string;
+  name: string;
+  query: string;
+  shared: boolean;
+}
+
+/**
+ * Fetch the user's own views and the views others have shared, by name
+ */
+export const fetchSalesViews = async (userId: string): Promise<SalesView[]> => {
+  const { data, error } = await supabase
+    .from('sales_views')
+    .select('id, user_id, name, query, shared')
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(view => ({
+    id: view.id,
+    name: view.name,
+    query: view.query,
+    shared: view.shared,
+    isOwn: view.user_id === userId
+  }));
+};
+
+/**
+ * Create a view, or update one of the user's own views when an id is given
+ */
+export const saveSalesView = async (view: SalesViewInput): Promise<string> => {
+  const values = { name: view.name.trim(), query: view.query, shared: view.shared };
+
+  if (view.id) {
+    const { error } = await supabase
+      .from('sales_views')
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq('id', view.id);
+
+    if (error) throw error;
+    return view.id;
+  }
+
+  const { data, error } = await supabase
+    .from('sales_views')
+    .insert(values)
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+export const deleteSalesView = async (id: string) => {
+  const { error } = await supabase
+    .from('sales_views')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * The view the user opens the sales page with, if any
+ */
+export const fetchDefaultSalesViewId = async (): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('sales_view_preferences')
+    .select('default_view_id')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.default_view_id || null;
+};
+
+export const setDefaultSalesView = async (userId: string, viewId: string | null) => {
+  const { error } = await supabase
+    .from('sales_view_preferences')
+    .upsert({ user_id: userId, default_view_id: viewId, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+};
@@ -0,0 +1,104 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface TaxClass {
+  code: string;
+  description: string;
+  rate: number;
+  active: boolean;
+}
+
+export interface TaxSettings {
+  pricesIncludeTax: boolean;
+  defaultTaxClass: string | null;
+}
+
+export interface TaxConfiguration {
+  settings: TaxSettings;
+  classes: TaxClass[];
+}
+
+/**
+ * Fetch the tax settings and all tax classes
+ */
+export const fetchTaxConfiguration = async (): Promise<TaxConfiguration> => {
+  const { data: settingsData, error: settingsError } = await supabase
+    .from('tax_settings')
+    .select('prices_include_tax, default_tax_class')
+    .maybeSingle();
+
+  if (settingsError) throw settingsError;
+
+  const { data: classesData, error: classesError } = await supabase
+    .from('tax_classes')
+    .select('code, description, rate, active')
+    .order('code');
+
+  if (classesError) throw classesError;
+
+  return {
+    settings: {
+      pricesIncludeTax: !!settingsData?.prices_include_tax,
+      defaultTaxClass: settingsData?.default_tax_class || null
+    },
+    classes: (classesData || []).map(taxClass => ({ ...taxClass, rate: Number(taxClass.rate) || 0 }))
+  };
+};
+
+/**
+ * Rate a product is taxed at: its own class, else the default class (0 if neither applies)
+ */
+export const resolveTaxRate = (configuration: TaxConfiguration, productTaxClass: string | null) => {
+  const code = productTaxClass || configuration.settings.defaultTaxClass;
+  return configuration.classes.find(taxClass => taxClass.code === code)?.rate || 0;
+};
+
+/**
+ * Save the tax settings (admins only)
+ */
+export const updateTaxSettings = async (settings: TaxSettings) => {
+  const { error } = await supabase
+    .from('tax_settings')
+    .upsert({
+      id: true,
+      prices_include_tax: settings.pricesIncludeTax,
+      default_tax_class: settings.defaultTaxClass,
+      updated_at: new Date().toISOString()
+    });
+
+  if (error) throw error;
+};
+
+/**
+ * Create or update a tax class (admins only)
+ */
+export const saveTaxClass = async (taxClass: TaxClass) => {
+  const { error } = await supabase
+    .from('tax_classes')
+    .upsert(taxClass);
+
+  if (error) throw error;
+};
+
+/**
+ * Assign a product to a tax class, or back to the default with null (admins only)
+ */
+export const setProductTaxClass = async (prodcode: string, taxClass: string | null) => {
+  const { error } = await supabase
+    .from('product')
+    .update({ tax_class: taxClass })
+    .eq('prodcode', prodcode);
+
+  if (error) throw error;
+};
+
+/**
+ * Mark a customer as tax-exempt or not (admins only)
+ */
+export const setCustomerTaxExempt = async (custno: string, taxExempt: boolean) => {
+  const { error } = await supabase
+    .from('customer')
+    .update({ tax_exempt: taxExempt })
+    .eq('custno', custno);
+
+  if (error) throw error;
+};
@@ -0,0 +1,243 @@
+import { AuditLogEntry } from '@/integrations/supabase/client';
+
+/**
+ * Field-by-field comparison of sales_audit_log snapshots, and replaying a transaction's
+ * entries to show what it looked like at any point in its history.
+ *
+ * Entries are written by database triggers and hold whole rows; credit memos carry their
+ * lines under `lines`. Older entries came from several writers: imports and recurring
+ * templates logged the sale with its lines under `lines`, purges logged the lines that
+ * were removed, and the recycle bin and bulk actions logged only the fields they touched.
+ */
+
+type Snapshot = Record<string, unknown>;
+
+export interface AuditFieldChange {
+  field: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+export type AuditLineChangeKind = 'added' | 'removed' | 'changed' | 'returned';
+
+export interface AuditLineChange {
+  prodcode: string;
+  kind: AuditLineChangeKind;
+  changes: AuditFieldChange[];
+}
+
+export interface AuditDiff {
+  fields: AuditFieldChange[];
+  lines: AuditLineChange[];
+}
+
+export interface SaleSnapshot {
+  transno: string;
+  // False before the sale was created and after it was purged
+  exists: boolean;
+  header: Snapshot;
+  lines: Snapshot[];
+}
+
+export const SALE_FIELD_LABELS: Record<string, string> = {
+  salesdate: 'Date',
+  custno: 'Customer',
+  empno: 'Salesperson',
+  discount_type: 'Order discount type',
+  discount_value: 'Order discount',
+  discount_reason: 'Order discount reason',
+  prices_include_tax: 'Prices include tax',
+  tax_exempt: 'Tax exempt',
+  deleted_at: 'In trash since'
+};
+
+export const LINE_FIELD_LABELS: Record<string, string> = {
+  quantity: 'Quantity',
+  unit: 'Unit',
+  unitprice: 'Unit price',
+  discount_type: 'Discount type',
+  discount_value: 'Discount',
+  discount_reason: 'Discount reason',
+  tax_rate: 'Tax rate'
+};
+
+export const LINE_KIND_LABELS: Record<AuditLineChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  returned: 'Returned'
+};
+
+const MEMO_FIELD_LABELS: Record<string, string> = {
+  memo_date: 'Date',
+  reason: 'Reason'
+};
+
+const asSnapshot = (value: unknown): Snapshot | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Snapshot) : null;
+
+const asLines = (value: unknown): Snapshot[] =>
+  Array.isArray(value) ? value.filter((line): line is Snapshot => !!asSnapshot(line) && typeof line.prodcode === 'string') : [];
+
+// Tables without labels of their own are compared on every column, under its own name
+const columnLabels = (...snapshots: (Snapshot | null)[]) =>
+  Object.fromEntries(
+    [...new Set(snapshots.flatMap(snapshot => (snapshot ? Object.keys(snapshot) : [])))].sort().map(field => [field, field])
+  );
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Labelled fields that differ between two snapshots. A side that is missing (created or
+ * removed) counts as empty, and fields a partial snapshot leaves out are not compared.
+ */
+const compareFields = (labels: Record<string, string>, before: Snapshot | null, after: Snapshot | null) =>
+  Object.entries(labels).flatMap(([field, label]) => {
+    const inBefore = !!before && field in before;
+    const inAfter = !!after && field in after;
+    if (before && after ? !inAfter : !inBefore && !inAfter) return [];
+
+    const oldValue = before?.[field] ?? null;
+    const newValue = after?.[field] ?? null;
+    if (sameValue(oldValue, newValue)) return [];
+
+    return [{ field, label, before: oldValue, after: newValue }];
+  });
+
+const compareLines = (before: Snapshot[], after: Snapshot[]): AuditLineChange[] => {
+  const prodcodes = [...new Set([...before, ...after].map(line => line.prodcode as string))].sort();
+
+  return prodcodes.flatMap(prodcode => {
+    const oldLine = before.find(line => line.prodcode === prodcode) || null;
+    const newLine = after.find(line => line.prodcode === prodcode) || null;
+    const changes = compareFields(LINE_FIELD_LABELS, oldLine, newLine);
+    const kind: AuditLineChangeKind = !oldLine ? 'added' : !newLine ? 'removed' : 'changed';
+
+    return kind === 'changed' && changes.length === 0 ? [] : [{ prodcode, kind, changes }];
+  });
+};
+
+/**
+ * The transaction an entry belongs to
+ */
+export const auditTransno = (entry: AuditLogEntry): string | null => {
+  if (entry.table_name === 'sales') return entry.record_id;
+
+  const data = asSnapshot(entry.new_data) || asSnapshot(entry.old_data);
+  return typeof data?.transno === 'string' ? data.transno : null;
+};
+
+/**
+ * What an entry changed, field by field and line by line
+ */
+export const diffAuditEntry = (entry: AuditLogEntry): AuditDiff => {
+  const before = asSnapshot(entry.old_data);
+  const after = asSnapshot(entry.new_data);
+
+  if (entry.table_name === 'salesdetail') {
+    return { fields: [], lines: compareLines(before ? [before] : [], after ? [after] : []) };
+  }
+
+  if (entry.table_name === 'credit_memos') {
+    return {
+      fields: compareFields(MEMO_FIELD_LABELS, null, after),
+      lines: asLines(after?.lines).map(line => ({
+        prodcode: line.prodcode as string,
+        kind: 'returned',
+        changes: compareFields({ quantity: 'Quantity' }, null, line)
+      }))
+    };
+  }
+
+  if (entry.table_name !== 'sales') {
+    return { fields: compareFields(columnLabels(before, after), before, after), lines: [] };
+  }
+
+  // A sale in the recycle bin keeps its lines, so only a purge removes them
+  return {
+    fields: entry.action === 'deleted' ? [] : compareFields(SALE_FIELD_LABELS, before, after),
+    lines: compareLines(asLines(before?.lines), asLines(after?.lines))
+  };
+};
+
+const describeValue = (value: unknown) => (value === null || value === undefined || value === '' ? '—' : String(value));
+
+/**
+ * A diff as one line of text, e.g. "Customer: C001 → C002; Added P100 (Quantity: 2)"
+ */
+export const describeAuditDiff = (diff: AuditDiff) => {
+  const describeChange = (change: AuditFieldChange, showBefore: boolean) =>
+    showBefore
+      ? `${change.label}: ${describeValue(change.before)} → ${describeValue(change.after)}`
+      : `${change.label}: ${describeValue(change.after ?? change.before)}`;
+  return [
+    ...diff.fields.map(change => describeChange(change, change.before !== null && change.after !== null)),
+    ...diff.lines.map(line => {
+      const changes = line.changes.map(change => describeChange(change, line.kind === 'changed')).join(', ');
+      return `${LINE_KIND_LABELS[line.kind]} ${line.prodcode}${changes ? ` (${changes})` : ''}`;
+    })
+  ].join('; ');
+};
+
+// Entries of one save share a timestamp; the sale row comes before its lines
+const TABLE_ORDER: Record<string, number> = { sales: 0, salesdetail: 1, credit_memos: 2 };
+
+const chronological = (a: AuditLogEntry, b: AuditLogEntry) =>
+  a.created_at.localeCompare(b.created_at) || (TABLE_ORDER[a.table_name] ?? 3) - (TABLE_ORDER[b.table_name] ?? 3);
+
+const pickFields = (data: Snapshot, labels: Record<string, string>) =>
+  Object.fromEntries(Object.entries(data).filter(([field]) => field in labels));
+
+/**
+ * Replay a transaction's entries up to and including the given one. Entries logged at the
+ * same moment as it are part of the same save, so they are replayed too. Changes made
+ * before the audit log existed are not known, so older sales may show gaps.
+ */
+export const reconstructSale = (entries: AuditLogEntry[], entryId: string): SaleSnapshot | null => {
+  const target = entries.find(entry => entry.id === entryId);
+  const transno = target && auditTransno(target);
+  if (!target || !transno) return null;
+
+  const snapshot: SaleSnapshot = { transno, exists: false, header: {}, lines: [] };
+  const lines = new Map<string, Snapshot>();
+
+  entries
+    .filter(entry => auditTransno(entry) === transno && entry.created_at <= target.created_at)
+    .sort(chronological)
+    .forEach(entry => {
+      const after = asSnapshot(entry.new_data);
+
+      if (entry.table_name === 'sales') {
+        if (entry.action === 'purged') {
+          snapshot.exists = false;
+          snapshot.header = {};
+          lines.clear();
+          return;
+        }
+
+        snapshot.exists = true;
+        if (entry.action === 'deleted') {
+          snapshot.header = { ...snapshot.header, deleted_at: after?.deleted_at ?? entry.created_at };
+          return;
+        }
+        if (after) {
+          snapshot.header = { ...snapshot.header, ...pickFields(after, SALE_FIELD_LABELS) };
+          asLines(after.lines).forEach(line => lines.set(line.prodcode as string, line));
+        }
+      } else if (entry.table_name === 'salesdetail') {
+        const prodcode = (after || asSnapshot(entry.old_data))?.prodcode;
+        if (typeof prodcode !== 'string') return;
+
+        // A line moved to the trash with its sale is still part of it
+        if (!after) {
+          lines.delete(prodcode);
+        } else {
+          lines.set(prodcode, { ...lines.get(prodcode), ...after });
+        }
+      }
+    });
+
+  snapshot.lines = [...lines.values()].sort((a, b) => String(a.prodcode).localeCompare(String(b.prodcode)));
+  return snapshot;
+};
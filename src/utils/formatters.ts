@@ -28,3 +28,15 @@ export const formatDate = (dateString: string) => {
 export const formatFullDate = (dateString: string) => {
   return new Date(dateString).toLocaleDateString();
 };
+
+/**
+ * Format a sale date the way the sales table shows it (e.g., "Jan 05, 2023")
+ */
+export const formatSaleDate = (dateString: string | null) => {
+  if (!dateString) return 'N/A';
+  return new Date(dateString).toLocaleDateString('en-US', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric'
+  });
+};
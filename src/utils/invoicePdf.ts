@@ -0,0 +1,171 @@
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { SalesTransaction } from '@/services/salesService';
+import { formatCurrency } from '@/utils/formatters';
+import { calculateLineAmounts, describeDiscount } from '@/utils/salesTotals';
+
+/**
+ * Client-side invoice / receipt PDFs for sales transactions
+ */
+
+const BRAND_NAME = 'SellSmart';
+const BRAND_COLOR: [number, number, number] = [37, 99, 235];
+const MARGIN = 15;
+
+export interface InvoiceCustomer {
+  custname: string | null;
+  address: string | null;
+}
+
+type InvoiceDocument = jsPDF & { lastAutoTable?: { finalY: number } };
+
+const formatInvoiceDate = (dateString: string | null) => {
+  if (!dateString) return 'N/A';
+  return new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+/**
+ * Draw one sale onto the current page of a document
+ */
+const drawInvoice = (doc: InvoiceDocument, sale: SalesTransaction, customer?: InvoiceCustomer) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const right = pageWidth - MARGIN;
+
+  // Brand band
+  doc.setFillColor(...BRAND_COLOR);
+  doc.rect(0, 0, pageWidth, 28, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text(BRAND_NAME, MARGIN, 18);
+  doc.setFontSize(14);
+  doc.text('INVOICE', right, 18, { align: 'right' });
+
+  // Header
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Bill to', MARGIN, 42);
+  doc.setFont('helvetica', 'normal');
+  const billTo = [
+    customer?.custname || sale.custname || 'Walk-in customer',
+    ...(customer?.address ? doc.splitTextToSize(customer.address, 80) as string[] : [])
+  ];
+  doc.text(billTo, MARGIN, 48);
+
+  const details: [string, string][] = [
+    ['Invoice no.', sale.transno],
+    ['Date', formatInvoiceDate(sale.salesdate)],
+    ['Salesperson', sale.empname || 'N/A'],
+  ];
+  details.forEach(([label, value], index) => {
+    const y = 42 + index * 6;
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, right - 60, y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, right, y, { align: 'right' });
+  });
+
+  // Lines
+  autoTable(doc, {
+    startY: Math.max(48 + billTo.length * 5, 62) + 6,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Product', 'Code', 'Unit', 'Qty', 'Price', 'Discount', 'Amount']],
+    body: sale.productDetails.map(product => {
+      const amounts = calculateLineAmounts(product);
+      return [
+        product.description || 'N/A',
+        product.prodcode,
+        product.customUnit || product.unit || '',
+        String(product.quantity || 0),
+        product.unitprice ? formatCurrency(product.unitprice) : 'N/A',
+        amounts.discount > 0 ? `-${formatCurrency(amounts.discount)}` : '',
+        formatCurrency(amounts.net)
+      ];
+    }),
+    headStyles: { fillColor: BRAND_COLOR },
+    styles: { fontSize: 9 },
+    columnStyles: {
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' }
+    }
+  });
+
+  // Totals
+  const totals: [string, string][] = [];
+  if (sale.discountTotal > 0) {
+    totals.push(['Before discounts', formatCurrency(sale.grossTotal)]);
+    if (sale.orderDiscountAmount > 0) {
+      const label = describeDiscount(sale.discount, formatCurrency);
+      totals.push([`Order discount${label ? ` (${label})` : ''}`, `-${formatCurrency(sale.orderDiscountAmount)}`]);
+    }
+  }
+  totals.push(['Net (excl. tax)', formatCurrency(sale.totalExclTax)]);
+  totals.push([sale.taxExempt ? 'Tax (exempt)' : 'Tax', formatCurrency(sale.taxTotal)]);
+
+  let y = (doc.lastAutoTable?.finalY || 80) + 10;
+  doc.setFontSize(10);
+  totals.forEach(([label, value]) => {
+    doc.setFont('helvetica', 'normal');
+    doc.text(label, right - 60, y);
+    doc.text(value, right, y, { align: 'right' });
+    y += 6;
+  });
+
+  doc.setDrawColor(...BRAND_COLOR);
+  doc.line(right - 60, y - 3, right, y - 3);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text('Total (incl. tax)', right - 60, y + 3);
+  doc.text(formatCurrency(sale.totalPrice), right, y + 3, { align: 'right' });
+
+  // Footer
+  const pageHeight = doc.internal.pageSize.getHeight();
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(120, 120, 120);
+  doc.text(
+    sale.pricesIncludeTax ? 'Prices include tax.' : 'Prices exclude tax.',
+    MARGIN,
+    pageHeight - 12
+  );
+  doc.text(`Thank you for your business. ${BRAND_NAME}`, right, pageHeight - 12, { align: 'right' });
+};
+
+/**
+ * Build a PDF with one invoice per page, in the order given
+ */
+export const buildInvoicePdf = (sales: SalesTransaction[], customers: Record<string, InvoiceCustomer> = {}) => {
+  const doc: InvoiceDocument = new jsPDF({ unit: 'mm', format: 'a4' });
+
+  sales.forEach((sale, index) => {
+    if (index > 0) doc.addPage();
+    drawInvoice(doc, sale, sale.custno ? customers[sale.custno] : undefined);
+  });
+
+  return doc;
+};
+
+/**
+ * Save invoices as a PDF file: invoice-<transno>.pdf for one sale, invoices-<date>.pdf for several
+ */
+export const downloadInvoicePdf = (sales: SalesTransaction[], customers: Record<string, InvoiceCustomer> = {}) => {
+  const doc = buildInvoicePdf(sales, customers);
+  const fileName = sales.length === 1
+    ? `invoice-${sales[0].transno}.pdf`
+    : `invoices-${new Date().toISOString().split('T')[0]}.pdf`;
+
+  doc.save(fileName);
+};
+
+/**
+ * Open invoices in a new tab with the browser's print dialog
+ */
+export const printInvoicePdf = (sales: SalesTransaction[], customers: Record<string, InvoiceCustomer> = {}) => {
+  const doc = buildInvoicePdf(sales, customers);
+  doc.autoPrint();
+  window.open(doc.output('bloburl'), '_blank');
+};
@@ -0,0 +1,190 @@
+import ExcelJS from 'exceljs';
+import { AuditLogEntry } from '@/integrations/supabase/client';
+import { SalesDetail, SalesTransaction } from '@/services/salesService';
+import { describeAuditDiff, diffAuditEntry } from '@/utils/auditDiff';
+import { formatCurrency, formatSaleDate } from '@/utils/formatters';
+import { calculateLineAmounts } from '@/utils/salesTotals';
+
+/**
+ * Spreadsheet exports of the sales list, one row per transaction or per line item, and of
+ * the audit log
+ */
+
+export type SalesExportLayout = 'transactions' | 'lines';
+export type SalesExportFormat = 'csv' | 'xlsx';
+
+type CellKind = 'text' | 'number' | 'currency' | 'date';
+
+interface ExportColumn<T> {
+  header: string;
+  kind: CellKind;
+  value: (row: T) => string | number | null;
+}
+
+interface LineRow {
+  sale: SalesTransaction;
+  product: SalesDetail;
+}
+
+// Same display as the table: "$1,234.50" and "Jan 05, 2023"
+const XLSX_FORMATS: Partial<Record<CellKind, string>> = {
+  currency: '"$"#,##0.00',
+  date: 'mmm dd, yyyy'
+};
+
+const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+
+const TRANSACTION_COLUMNS: ExportColumn<SalesTransaction>[] = [
+  { header: 'Transaction No', kind: 'text', value: sale => sale.transno },
+  { header: 'Date', kind: 'date', value: sale => sale.salesdate },
+  { header: 'Customer', kind: 'text', value: sale => sale.custname || 'N/A' },
+  { header: 'Employee', kind: 'text', value: sale => sale.empname || 'N/A' },
+  { header: 'Items', kind: 'number', value: sale => sale.productDetails.length },
+  { header: 'Before Discounts', kind: 'currency', value: sale => sale.grossTotal },
+  { header: 'Line Discounts', kind: 'currency', value: sale => sale.lineDiscountTotal },
+  { header: 'Order Discount', kind: 'currency', value: sale => sale.orderDiscountAmount },
+  { header: 'Net (excl. tax)', kind: 'currency', value: sale => sale.totalExclTax },
+  { header: 'Tax', kind: 'currency', value: sale => sale.taxTotal },
+  { header: 'Total (incl. tax)', kind: 'currency', value: sale => sale.totalPrice },
+  { header: 'Prices Include Tax', kind: 'text', value: sale => yesNo(sale.pricesIncludeTax) },
+  { header: 'Tax Exempt', kind: 'text', value: sale => yesNo(sale.taxExempt) }
+];
+
+const LINE_COLUMNS: ExportColumn<LineRow>[] = [
+  { header: 'Transaction No', kind: 'text', value: ({ sale }) => sale.transno },
+  { header: 'Date', kind: 'date', value: ({ sale }) => sale.salesdate },
+  { header: 'Customer', kind: 'text', value: ({ sale }) => sale.custname || 'N/A' },
+  { header: 'Employee', kind: 'text', value: ({ sale }) => sale.empname || 'N/A' },
+  { header: 'Product Code', kind: 'text', value: ({ product }) => product.prodcode },
+  { header: 'Description', kind: 'text', value: ({ product }) => product.description || 'N/A' },
+  { header: 'Unit', kind: 'text', value: ({ product }) => product.customUnit || product.unit || '' },
+  { header: 'Quantity', kind: 'number', value: ({ product }) => product.quantity || 0 },
+  { header: 'Unit Price', kind: 'currency', value: ({ product }) => product.unitprice },
+  { header: 'Before Discount', kind: 'currency', value: ({ product }) => calculateLineAmounts(product).gross },
+  { header: 'Line Discount', kind: 'currency', value: ({ product }) => calculateLineAmounts(product).discount },
+  { header: 'Net', kind: 'currency', value: ({ product }) => calculateLineAmounts(product).net },
+  { header: 'Tax Class', kind: 'text', value: ({ product }) => product.taxClass || '' },
+  { header: 'Tax Rate (%)', kind: 'number', value: ({ product }) => product.taxRate ?? null },
+  { header: 'Tax', kind: 'currency', value: ({ product }) => product.taxAmount || 0 },
+  // After the line's share of the order discount
+  { header: 'Total (incl. tax)', kind: 'currency', value: ({ product }) => product.amountInclTax || 0 }
+];
+
+const AUDIT_COLUMNS: ExportColumn<AuditLogEntry>[] = [
+  { header: 'Date/Time', kind: 'text', value: entry => new Date(entry.created_at).toLocaleString('en-US') },
+  { header: 'Table', kind: 'text', value: entry => entry.table_name },
+  { header: 'Record ID', kind: 'text', value: entry => entry.record_id },
+  { header: 'Action', kind: 'text', value: entry => entry.action },
+  { header: 'User', kind: 'text', value: entry => entry.changed_by_email },
+  { header: 'Changes', kind: 'text', value: entry => describeAuditDiff(diffAuditEntry(entry)) },
+  { header: 'Old Data', kind: 'text', value: entry => (entry.old_data ? JSON.stringify(entry.old_data) : null) },
+  { header: 'New Data', kind: 'text', value: entry => (entry.new_data ? JSON.stringify(entry.new_data) : null) }
+];
+
+// Spreadsheet apps run text that starts with these as a formula
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+const formatCsvValue = (kind: CellKind, value: string | number | null) => {
+  if (value === null || value === '') return '';
+  if (kind === 'currency') return formatCurrency(Number(value));
+  if (kind === 'date') return formatSaleDate(String(value));
+
+  const text = String(value);
+  return kind === 'text' && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+};
+
+const escapeCsv = (text: string) =>
+  /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+const toCsv = <T>(columns: ExportColumn<T>[], rows: T[]) => {
+  const lines = [
+    columns.map(column => escapeCsv(column.header)).join(','),
+    ...rows.map(row =>
+      columns.map(column => escapeCsv(formatCsvValue(column.kind, column.value(row)))).join(',')
+    )
+  ];
+
+  return lines.join('\r\n');
+};
+
+// Sale dates are calendar days (YYYY-MM-DD). ExcelJS stores a Date by its UTC time, so
+// the day is built at UTC midnight from its parts and shows the same day in every zone.
+const toExcelDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const toWorkbook = <T>(columns: ExportColumn<T>[], rows: T[], sheetName: string) => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+
+  // Keep the values numeric and apply the table's display formats on top
+  sheet.columns = columns.map(column => ({
+    header: column.header,
+    width: Math.max(column.header.length + 2, 12),
+    style: XLSX_FORMATS[column.kind] ? { numFmt: XLSX_FORMATS[column.kind] } : {}
+  }));
+
+  rows.forEach(row => {
+    sheet.addRow(columns.map(column => {
+      const value = column.value(row);
+      if (value === null || value === '') return null;
+      return column.kind === 'date' ? toExcelDate(String(value)) : value;
+    }));
+  });
+
+  return workbook;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const exportRows = async <T>(
+  columns: ExportColumn<T>[],
+  rows: T[],
+  format: SalesExportFormat,
+  baseName: string,
+  sheetName: string
+) => {
+  if (format === 'csv') {
+    // The byte order mark lets Excel read the file as UTF-8
+    downloadBlob(new Blob(['\uFEFF' + toCsv(columns, rows)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+    return;
+  }
+
+  const buffer = await toWorkbook(columns, rows, sheetName).xlsx.writeBuffer();
+  downloadBlob(
+    new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `${baseName}.xlsx`
+  );
+};
+
+/**
+ * Download sales as a CSV or XLSX file, keeping the order they are given in
+ */
+export const exportSales = (sales: SalesTransaction[], layout: SalesExportLayout, format: SalesExportFormat) => {
+  const date = new Date().toISOString().split('T')[0];
+
+  if (layout === 'lines') {
+    const rows = sales.flatMap(sale => sale.productDetails.map(product => ({ sale, product })));
+    return exportRows(LINE_COLUMNS, rows, format, `sales-lines-${date}`, 'Line Items');
+  }
+
+  return exportRows(TRANSACTION_COLUMNS, sales, format, `sales-${date}`, 'Transactions');
+};
+
+/**
+ * Download audit log entries as a CSV file, keeping the order they are given in
+ */
+export const exportAuditLog = (entries: AuditLogEntry[]) => {
+  const date = new Date().toISOString().split('T')[0];
+  return exportRows(AUDIT_COLUMNS, entries, 'csv', `audit-log-${date}`, 'Audit Log');
+};
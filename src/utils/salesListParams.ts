@@ -0,0 +1,120 @@
+
+import { SalesFilters, SearchField, SortField, SortOrder } from '@/services/salesService';
+
+/**
+ * Search, filter, sort and paging state of the sales list, encoded in the URL query
+ * string so a filtered view can be bookmarked or shared
+ */
+
+export interface SalesListState {
+  searchTerm: string;
+  searchField: SearchField;
+  sortField: SortField;
+  sortOrder: SortOrder;
+  page: number;
+  pageSize: number;
+  filters: SalesFilters;
+}
+
+export const DEFAULT_SALES_LIST_STATE: SalesListState = {
+  searchTerm: '',
+  searchField: 'all',
+  sortField: 'transno',
+  sortOrder: 'desc',
+  page: 1,
+  pageSize: 25,
+  filters: {}
+};
+
+const SEARCH_FIELDS: SearchField[] = ['all', 'transno', 'salesdate', 'custname', 'empname'];
+const SORT_FIELDS: SortField[] = ['transno', 'salesdate', 'custname', 'empname', 'totalPrice'];
+const PAGE_SIZES = [10, 25, 50, 100];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Short parameter names keep shared links readable
+const FILTER_PARAMS: Record<keyof SalesFilters, string> = {
+  dateFrom: 'from',
+  dateTo: 'to',
+  minTotal: 'min',
+  maxTotal: 'max',
+  custno: 'customer',
+  empno: 'employee',
+  prodcode: 'product'
+};
+
+const oneOf = <T extends string>(value: string | null, allowed: T[], fallback: T) =>
+  value && (allowed as string[]).includes(value) ? (value as T) : fallback;
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Read the list state from a query string. Unknown or malformed values fall back to the defaults.
+ */
+export const parseSalesListParams = (params: URLSearchParams): SalesListState => {
+  const page = parseNumber(params.get('page'));
+  const pageSize = parseNumber(params.get('size'));
+  const date = (name: string) => {
+    const value = params.get(name);
+    return value && DATE_PATTERN.test(value) ? value : undefined;
+  };
+  const text = (name: string) => params.get(name)?.trim() || undefined;
+
+  const filters: SalesFilters = {
+    dateFrom: date(FILTER_PARAMS.dateFrom),
+    dateTo: date(FILTER_PARAMS.dateTo),
+    minTotal: parseNumber(params.get(FILTER_PARAMS.minTotal)),
+    maxTotal: parseNumber(params.get(FILTER_PARAMS.maxTotal)),
+    custno: text(FILTER_PARAMS.custno),
+    empno: text(FILTER_PARAMS.empno),
+    prodcode: text(FILTER_PARAMS.prodcode)
+  };
+
+  return {
+    searchTerm: params.get('q') || '',
+    searchField: oneOf(params.get('in'), SEARCH_FIELDS, DEFAULT_SALES_LIST_STATE.searchField),
+    sortField: oneOf(params.get('sort'), SORT_FIELDS, DEFAULT_SALES_LIST_STATE.sortField),
+    sortOrder: oneOf(params.get('order'), ['asc', 'desc'], DEFAULT_SALES_LIST_STATE.sortOrder),
+    page: page && page >= 1 ? Math.floor(page) : 1,
+    pageSize: pageSize && PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_SALES_LIST_STATE.pageSize,
+    filters: Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined))
+  };
+};
+
+/**
+ * Write the list state as a query string, leaving out anything at its default
+ */
+export const toSalesListParams = (state: SalesListState) => {
+  const params = new URLSearchParams();
+  const defaults = DEFAULT_SALES_LIST_STATE;
+
+  if (state.searchTerm) params.set('q', state.searchTerm);
+  if (state.searchTerm && state.searchField !== defaults.searchField) params.set('in', state.searchField);
+
+  (Object.keys(FILTER_PARAMS) as (keyof SalesFilters)[]).forEach(key => {
+    const value = state.filters[key];
+    if (value !== undefined && value !== '') params.set(FILTER_PARAMS[key], String(value));
+  });
+
+  if (state.sortField !== defaults.sortField) params.set('sort', state.sortField);
+  if (state.sortOrder !== defaults.sortOrder) params.set('order', state.sortOrder);
+  if (state.page !== defaults.page) params.set('page', String(state.page));
+  if (state.pageSize !== defaults.pageSize) params.set('size', String(state.pageSize));
+
+  return params;
+};
+
+/**
+ * Number of compound filters in use
+ */
+export const countActiveFilters = (filters: SalesFilters) =>
+  Object.values(filters).filter(value => value !== undefined && value !== '').length;
+
+/**
+ * Query string saved with a named view: search, sort and filters, without paging
+ */
+export const toSalesViewQuery = (state: SalesListState) =>
+  toSalesListParams({ ...state, page: DEFAULT_SALES_LIST_STATE.page, pageSize: DEFAULT_SALES_LIST_STATE.pageSize }).toString();
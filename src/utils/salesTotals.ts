@@ -0,0 +1,134 @@
+/**
+ * Sale total calculations shared by the transaction dialog, POS mode, invoices and exports.
+ * These mirror the discount_amount and tax_amount functions and sales views in the database.
+ */
+
+export type DiscountType = 'percent' | 'amount';
+
+export interface Discount {
+  type: DiscountType | null;
+  value: number | null;
+  reason: string | null;
+}
+
+export interface PricedLine {
+  // Decides which line takes the rounding difference of the order discount
+  prodcode?: string;
+  quantity: number | null;
+  unitprice: number | null;
+  discount?: Discount | null;
+  taxRate?: number | null;
+}
+
+export interface TaxContext {
+  // Unit prices already include tax (VAT-inclusive)
+  pricesIncludeTax: boolean;
+  taxExempt: boolean;
+}
+
+export interface SaleTotals {
+  gross: number;
+  lineDiscounts: number;
+  subtotal: number;
+  orderDiscount: number;
+  discount: number;
+  // After discounts, in the sale's price mode
+  amount: number;
+  tax: number;
+  net: number;
+  total: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Amount taken off a base by a discount. Fixed amounts never exceed the base.
+ */
+export const calculateDiscountAmount = (base: number, discount?: Discount | null) => {
+  if (!discount || !discount.type || !discount.value || discount.value <= 0 || base <= 0) return 0;
+
+  if (discount.type === 'percent') {
+    return round2(base * Math.min(discount.value, 100) / 100);
+  }
+
+  return Math.min(discount.value, base);
+};
+
+/**
+ * Tax contained in (inclusive) or added to (exclusive) an amount at a percentage rate
+ */
+export const calculateTaxAmount = (amount: number, rate: number | null | undefined, pricesIncludeTax: boolean) => {
+  if (!rate || rate <= 0 || amount <= 0) return 0;
+
+  return pricesIncludeTax ? round2(amount * rate / (100 + rate)) : round2(amount * rate / 100);
+};
+
+/**
+ * Gross, discount and net amounts for a single line
+ */
+export const calculateLineAmounts = (line: PricedLine) => {
+  const gross = (line.quantity || 0) * (line.unitprice || 0);
+  const discount = calculateDiscountAmount(gross, line.discount);
+
+  return { gross, discount, net: gross - discount };
+};
+
+/**
+ * Totals for a sale: line discounts come off each line, then the order discount comes
+ * off the sum of the discounted lines, shared between them in proportion. The last line
+ * by product code takes what rounding the shares leaves over, as sales_line_items does.
+ * Tax is worked out per line on what is left.
+ */
+export const calculateSaleTotals = (
+  lines: PricedLine[],
+  orderDiscount?: Discount | null,
+  taxContext: TaxContext = { pricesIncludeTax: false, taxExempt: false }
+): SaleTotals => {
+  const lineAmounts = lines.map(calculateLineAmounts);
+  const gross = lineAmounts.reduce((sum, amounts) => sum + amounts.gross, 0);
+  const lineDiscounts = lineAmounts.reduce((sum, amounts) => sum + amounts.discount, 0);
+  const subtotal = gross - lineDiscounts;
+  const order = calculateDiscountAmount(subtotal, orderDiscount);
+
+  const shares = lineAmounts.map(amounts => subtotal > 0 ? round2(order * amounts.net / subtotal) : 0);
+  const lastLine = lines.reduce((last, line, index) =>
+    last === -1 || (line.prodcode || '') > (lines[last].prodcode || '') ? index : last, -1);
+  if (lastLine >= 0 && subtotal > 0) {
+    shares[lastLine] = round2(shares[lastLine] + order - shares.reduce((sum, share) => sum + share, 0));
+  }
+
+  // Tax worked out on every line, whether or not the customer pays it
+  let lineTax = 0;
+  let amount = 0;
+
+  lineAmounts.forEach((amounts, index) => {
+    const lineAmount = amounts.net - shares[index];
+    amount += lineAmount;
+    lineTax += calculateTaxAmount(lineAmount, lines[index].taxRate, taxContext.pricesIncludeTax);
+  });
+
+  // An exempt customer pays no tax, so on tax-inclusive prices they pay the net only
+  const tax = taxContext.taxExempt ? 0 : lineTax;
+  const net = taxContext.pricesIncludeTax ? amount - lineTax : amount;
+
+  return {
+    gross,
+    lineDiscounts,
+    subtotal,
+    orderDiscount: order,
+    discount: lineDiscounts + order,
+    amount,
+    tax,
+    net,
+    total: net + tax
+  };
+};
+
+/**
+ * Short label for a discount, e.g. "10%" or "$5.00 off"
+ */
+export const describeDiscount = (discount: Discount | null | undefined, formatAmount: (amount: number) => string) => {
+  if (!discount || !discount.type || !discount.value) return '';
+
+  return discount.type === 'percent' ? `${discount.value}%` : `${formatAmount(discount.value)} off`;
+};
@@ -0,0 +1,192 @@
+-- Atomic create/replace of a sale header and its line items.
+--
+-- Replaces the sequence of client calls in SalesTransactions.handleSaveTransaction.
+-- Everything runs inside the function's transaction, so a failure part-way through
+-- rolls back the header, the detail lines and the audit rows together.
+
+create or replace function public.write_sales_audit(
+  p_table_name text,
+  p_record_id text,
+  p_action text,
+  p_old_data jsonb,
+  p_new_data jsonb
+) returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_user_email text;
+begin
+  select email into v_user_email from public.profiles where id = v_user_id;
+
+  insert into public.sales_audit_log (table_name, record_id, action, changed_by, changed_by_email, old_data, new_data)
+  values (p_table_name, p_record_id, p_action, v_user_id, coalesce(v_user_email, 'Unknown user'), p_old_data, p_new_data);
+end;
+$$;
+
+-- p_details is a JSON array of { prodcode, quantity, unit }. "unit" is optional and,
+-- when it differs from the product's unit, replaces it (the dialog's inline unit edit).
+--
+-- Returns { ok, transno, errors: [{ field, message, prodcode? }] }. Validation problems
+-- are returned rather than raised so the dialog can place them next to the fields.
+create or replace function public.save_sale(
+  p_transno text,
+  p_salesdate date,
+  p_custno text,
+  p_empno text,
+  p_details jsonb,
+  p_is_new boolean default true
+) returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_perm public.user_permissions%rowtype;
+  v_old_sale public.sales%rowtype;
+  v_new_sale public.sales%rowtype;
+  v_existing public.salesdetail%rowtype;
+  v_errors jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_prodcode text;
+  v_quantity numeric;
+  v_unit text;
+  v_seen text[] := '{}';
+begin
+  if v_user_id is null then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You must be signed in to save a transaction')));
+  end if;
+
+  select * into v_perm from public.user_permissions where user_id = v_user_id;
+
+  if not found or (p_is_new and not v_perm.can_add_sales) or (not p_is_new and not v_perm.can_edit_sales) then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message',
+        case when p_is_new then 'You don''t have permission to create sales transactions'
+             else 'You don''t have permission to edit sales transactions' end)));
+  end if;
+
+  -- Header validation
+  if p_transno is null or btrim(p_transno) = '' then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction number is required');
+  elsif p_is_new then
+    if exists (select 1 from public.sales where transno = p_transno) then
+      v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction number ' || p_transno || ' is already in use');
+    end if;
+  else
+    select * into v_old_sale from public.sales where transno = p_transno for update;
+    if not found then
+      v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction ' || p_transno || ' no longer exists');
+    end if;
+  end if;
+
+  if p_salesdate is null then
+    v_errors := v_errors || jsonb_build_object('field', 'salesdate', 'message', 'Transaction date is required');
+  end if;
+
+  if nullif(p_custno, '') is not null and not exists (select 1 from public.customer where custno = p_custno) then
+    v_errors := v_errors || jsonb_build_object('field', 'custno', 'message', 'Customer ' || p_custno || ' does not exist');
+  end if;
+
+  if nullif(p_empno, '') is not null and not exists (select 1 from public.employee where empno = p_empno) then
+    v_errors := v_errors || jsonb_build_object('field', 'empno', 'message', 'Employee ' || p_empno || ' does not exist');
+  end if;
+
+  -- Line validation
+  if p_details is null or jsonb_typeof(p_details) <> 'array' or jsonb_array_length(p_details) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'Add at least one product');
+  else
+    for v_line in select * from jsonb_array_elements(p_details) loop
+      v_prodcode := v_line->>'prodcode';
+      v_quantity := nullif(v_line->>'quantity', '')::numeric;
+
+      if v_prodcode is null or not exists (select 1 from public.product where prodcode = v_prodcode) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Unknown product');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is listed more than once');
+      end if;
+
+      if v_quantity is null or v_quantity <= 0 then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'Quantity must be greater than zero');
+      end if;
+
+      if p_is_new or not exists (select 1 from public.salesdetail where transno = p_transno and prodcode = v_prodcode) then
+        if not v_perm.can_add_sales_detail then
+          v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'You don''t have permission to add products to a transaction');
+        end if;
+      elsif not v_perm.can_edit_sales_detail and exists (
+        select 1 from public.salesdetail
+        where transno = p_transno and prodcode = v_prodcode and quantity is distinct from v_quantity
+      ) then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'You don''t have permission to change products on a transaction');
+      end if;
+
+      v_seen := v_seen || v_prodcode;
+    end loop;
+
+    if not p_is_new and not v_perm.can_delete_sales_detail and exists (
+      select 1 from public.salesdetail where transno = p_transno and not (prodcode = any(v_seen))
+    ) then
+      v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'You don''t have permission to remove products from a transaction');
+    end if;
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', v_errors);
+  end if;
+
+  -- Header
+  if p_is_new then
+    insert into public.sales (transno, salesdate, custno, empno)
+    values (p_transno, p_salesdate, nullif(p_custno, ''), nullif(p_empno, ''))
+    returning * into v_new_sale;
+
+    perform public.write_sales_audit('sales', p_transno, 'created', null, to_jsonb(v_new_sale));
+  else
+    update public.sales
+    set salesdate = p_salesdate, custno = nullif(p_custno, ''), empno = nullif(p_empno, '')
+    where transno = p_transno
+    returning * into v_new_sale;
+
+    perform public.write_sales_audit('sales', p_transno, 'updated', to_jsonb(v_old_sale), to_jsonb(v_new_sale));
+
+    for v_existing in
+      select * from public.salesdetail where transno = p_transno and not (prodcode = any(v_seen))
+    loop
+      delete from public.salesdetail where transno = p_transno and prodcode = v_existing.prodcode;
+      perform public.write_sales_audit('salesdetail', p_transno || '-' || v_existing.prodcode, 'deleted', to_jsonb(v_existing), null);
+    end loop;
+  end if;
+
+  -- Lines
+  for v_line in select * from jsonb_array_elements(p_details) loop
+    v_prodcode := v_line->>'prodcode';
+    v_quantity := (v_line->>'quantity')::numeric;
+    v_unit := nullif(btrim(v_line->>'unit'), '');
+
+    select * into v_existing from public.salesdetail where transno = p_transno and prodcode = v_prodcode;
+
+    if not found then
+      insert into public.salesdetail (transno, prodcode, quantity) values (p_transno, v_prodcode, v_quantity);
+      perform public.write_sales_audit('salesdetail', p_transno || '-' || v_prodcode, 'created', null,
+        jsonb_build_object('transno', p_transno, 'prodcode', v_prodcode, 'quantity', v_quantity));
+    elsif v_existing.quantity is distinct from v_quantity then
+      update public.salesdetail set quantity = v_quantity where transno = p_transno and prodcode = v_prodcode;
+      perform public.write_sales_audit('salesdetail', p_transno || '-' || v_prodcode, 'updated', to_jsonb(v_existing),
+        jsonb_build_object('transno', p_transno, 'prodcode', v_prodcode, 'quantity', v_quantity));
+    end if;
+
+    if v_unit is not null then
+      update public.product set unit = v_unit where prodcode = v_prodcode and unit is distinct from v_unit;
+    end if;
+  end loop;
+
+  return jsonb_build_object('ok', true, 'transno', p_transno, 'errors', '[]'::jsonb);
+end;
+$$;
+
+grant execute on function public.save_sale(text, date, text, text, jsonb, boolean) to authenticated;
@@ -0,0 +1,266 @@
+-- Concurrency-safe transaction numbering.
+--
+-- Numbers come from a counter row per series. allocate_transaction_number takes a row
+-- lock on the counter, so two sessions committing at the same time get different
+-- numbers. Nothing is reserved until save_sale commits a new sale; the dialog only
+-- shows a provisional number from peek_transaction_number.
+
+create table if not exists public.transaction_number_series (
+  series text primary key,
+  prefix text not null default '',
+  padding integer not null default 6 check (padding between 1 and 20),
+  next_value bigint not null default 1 check (next_value > 0),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.transaction_number_series enable row level security;
+
+create policy "Authenticated users can read number series"
+  on public.transaction_number_series for select
+  to authenticated
+  using (true);
+
+create policy "Admins can configure number series"
+  on public.transaction_number_series for update
+  to authenticated
+  using (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'));
+
+-- Seed the sales series from the highest existing number so numbering carries on
+-- where the client-side generator left off.
+do $$
+declare
+  v_last text;
+  v_match text[];
+begin
+  select transno into v_last from public.sales order by transno desc limit 1;
+  v_match := regexp_match(coalesce(v_last, ''), '^([A-Za-z]*)(\d+)$');
+
+  insert into public.transaction_number_series (series, prefix, padding, next_value)
+  values (
+    'sales',
+    coalesce(v_match[1], 'TR'),
+    coalesce(length(v_match[2]), 6),
+    coalesce(v_match[2]::bigint, 0) + 1
+  )
+  on conflict (series) do nothing;
+end;
+$$;
+
+create or replace function public.format_transaction_number(p_prefix text, p_padding integer, p_value bigint)
+returns text
+language sql
+immutable
+as $$
+  select p_prefix || lpad(p_value::text, greatest(p_padding, length(p_value::text)), '0');
+$$;
+
+-- Provisional number for display only; does not reserve anything.
+create or replace function public.peek_transaction_number(p_series text default 'sales')
+returns text
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select public.format_transaction_number(prefix, padding, next_value)
+  from public.transaction_number_series
+  where series = p_series;
+$$;
+
+-- Reserves the next number. Skips values already present in sales (for example rows
+-- inserted by hand) so the allocation never collides with the primary key.
+create or replace function public.allocate_transaction_number(p_series text default 'sales')
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_series public.transaction_number_series%rowtype;
+  v_transno text;
+begin
+  select * into v_series from public.transaction_number_series where series = p_series for update;
+
+  if not found then
+    raise exception 'Unknown transaction number series: %', p_series;
+  end if;
+
+  loop
+    v_transno := public.format_transaction_number(v_series.prefix, v_series.padding, v_series.next_value);
+    v_series.next_value := v_series.next_value + 1;
+    exit when not exists (select 1 from public.sales where transno = v_transno);
+  end loop;
+
+  update public.transaction_number_series
+  set next_value = v_series.next_value, updated_at = now()
+  where series = p_series;
+
+  return v_transno;
+end;
+$$;
+
+revoke execute on function public.allocate_transaction_number(text) from public, anon;
+grant execute on function public.peek_transaction_number(text) to authenticated;
+
+-- save_sale now allocates the number for new sales itself, after validation has
+-- passed. p_transno is ignored when p_is_new is true; the allocated number is
+-- returned in "transno".
+create or replace function public.save_sale(
+  p_transno text,
+  p_salesdate date,
+  p_custno text,
+  p_empno text,
+  p_details jsonb,
+  p_is_new boolean default true
+) returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_perm public.user_permissions%rowtype;
+  v_old_sale public.sales%rowtype;
+  v_new_sale public.sales%rowtype;
+  v_existing public.salesdetail%rowtype;
+  v_errors jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_prodcode text;
+  v_quantity numeric;
+  v_unit text;
+  v_seen text[] := '{}';
+  v_transno text := p_transno;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You must be signed in to save a transaction')));
+  end if;
+
+  select * into v_perm from public.user_permissions where user_id = v_user_id;
+
+  if not found or (p_is_new and not v_perm.can_add_sales) or (not p_is_new and not v_perm.can_edit_sales) then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message',
+        case when p_is_new then 'You don''t have permission to create sales transactions'
+             else 'You don''t have permission to edit sales transactions' end)));
+  end if;
+
+  -- Header validation
+  if not p_is_new and (p_transno is null or btrim(p_transno) = '') then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction number is required');
+  elsif not p_is_new then
+    select * into v_old_sale from public.sales where transno = p_transno for update;
+    if not found then
+      v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction ' || p_transno || ' no longer exists');
+    end if;
+  end if;
+
+  if p_salesdate is null then
+    v_errors := v_errors || jsonb_build_object('field', 'salesdate', 'message', 'Transaction date is required');
+  end if;
+
+  if nullif(p_custno, '') is not null and not exists (select 1 from public.customer where custno = p_custno) then
+    v_errors := v_errors || jsonb_build_object('field', 'custno', 'message', 'Customer ' || p_custno || ' does not exist');
+  end if;
+
+  if nullif(p_empno, '') is not null and not exists (select 1 from public.employee where empno = p_empno) then
+    v_errors := v_errors || jsonb_build_object('field', 'empno', 'message', 'Employee ' || p_empno || ' does not exist');
+  end if;
+
+  -- Line validation
+  if p_details is null or jsonb_typeof(p_details) <> 'array' or jsonb_array_length(p_details) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'Add at least one product');
+  else
+    for v_line in select * from jsonb_array_elements(p_details) loop
+      v_prodcode := v_line->>'prodcode';
+      v_quantity := nullif(v_line->>'quantity', '')::numeric;
+
+      if v_prodcode is null or not exists (select 1 from public.product where prodcode = v_prodcode) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Unknown product');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is listed more than once');
+      end if;
+
+      if v_quantity is null or v_quantity <= 0 then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'Quantity must be greater than zero');
+      end if;
+
+      if p_is_new or not exists (select 1 from public.salesdetail where transno = p_transno and prodcode = v_prodcode) then
+        if not v_perm.can_add_sales_detail then
+          v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'You don''t have permission to add products to a transaction');
+        end if;
+      elsif not v_perm.can_edit_sales_detail and exists (
+        select 1 from public.salesdetail
+        where transno = p_transno and prodcode = v_prodcode and quantity is distinct from v_quantity
+      ) then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'You don''t have permission to change products on a transaction');
+      end if;
+
+      v_seen := v_seen || v_prodcode;
+    end loop;
+
+    if not p_is_new and not v_perm.can_delete_sales_detail and exists (
+      select 1 from public.salesdetail where transno = p_transno and not (prodcode = any(v_seen))
+    ) then
+      v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'You don''t have permission to remove products from a transaction');
+    end if;
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', v_errors);
+  end if;
+
+  -- Header
+  if p_is_new then
+    v_transno := public.allocate_transaction_number('sales');
+
+    insert into public.sales (transno, salesdate, custno, empno)
+    values (v_transno, p_salesdate, nullif(p_custno, ''), nullif(p_empno, ''))
+    returning * into v_new_sale;
+
+    perform public.write_sales_audit('sales', v_transno, 'created', null, to_jsonb(v_new_sale));
+  else
+    update public.sales
+    set salesdate = p_salesdate, custno = nullif(p_custno, ''), empno = nullif(p_empno, '')
+    where transno = v_transno
+    returning * into v_new_sale;
+
+    perform public.write_sales_audit('sales', v_transno, 'updated', to_jsonb(v_old_sale), to_jsonb(v_new_sale));
+
+    for v_existing in
+      select * from public.salesdetail where transno = v_transno and not (prodcode = any(v_seen))
+    loop
+      delete from public.salesdetail where transno = v_transno and prodcode = v_existing.prodcode;
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_existing.prodcode, 'deleted', to_jsonb(v_existing), null);
+    end loop;
+  end if;
+
+  -- Lines
+  for v_line in select * from jsonb_array_elements(p_details) loop
+    v_prodcode := v_line->>'prodcode';
+    v_quantity := (v_line->>'quantity')::numeric;
+    v_unit := nullif(btrim(v_line->>'unit'), '');
+
+    select * into v_existing from public.salesdetail where transno = v_transno and prodcode = v_prodcode;
+
+    if not found then
+      insert into public.salesdetail (transno, prodcode, quantity) values (v_transno, v_prodcode, v_quantity);
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_prodcode, 'created', null,
+        jsonb_build_object('transno', v_transno, 'prodcode', v_prodcode, 'quantity', v_quantity));
+    elsif v_existing.quantity is distinct from v_quantity then
+      update public.salesdetail set quantity = v_quantity where transno = v_transno and prodcode = v_prodcode;
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_prodcode, 'updated', to_jsonb(v_existing),
+        jsonb_build_object('transno', v_transno, 'prodcode', v_prodcode, 'quantity', v_quantity));
+    end if;
+
+    if v_unit is not null then
+      update public.product set unit = v_unit where prodcode = v_prodcode and unit is distinct from v_unit;
+    end if;
+  end loop;
+
+  return jsonb_build_object('ok', true, 'transno', v_transno, 'errors', '[]'::jsonb);
+end;
+$$;
+
+grant execute on function public.save_sale(text, date, text, text, jsonb, boolean) to authenticated;
@@ -0,0 +1,163 @@
+-- Server-side listing for the sales transactions page.
+--
+-- Replaces the per-sale / per-line queries in SalesTransactions.fetchSalesData with
+-- one call that filters, sorts and paginates in the database and returns each sale
+-- on the page with its line items, effective prices and totals.
+
+-- One row per line item, priced from the price history entry in effect on the sale date.
+create or replace view public.sales_line_items
+with (security_invoker = true) as
+select
+  d.transno,
+  d.prodcode,
+  d.quantity,
+  pr.description,
+  pr.unit,
+  ph.unitprice,
+  coalesce(d.quantity, 0) * coalesce(ph.unitprice, 0) as amount
+from public.salesdetail d
+join public.sales s on s.transno = d.transno
+left join public.product pr on pr.prodcode = d.prodcode
+left join lateral (
+  select p.unitprice
+  from public.pricehist p
+  where p.prodcode = d.prodcode
+    and p.effdate <= coalesce(s.salesdate, current_date)
+  order by p.effdate desc
+  limit 1
+) ph on true;
+
+-- One row per sale with the names and total the list shows and sorts on.
+create or replace view public.sales_summary
+with (security_invoker = true) as
+select
+  s.transno,
+  s.salesdate,
+  s.custno,
+  s.empno,
+  c.custname,
+  nullif(btrim(coalesce(e.firstname, '') || ' ' || coalesce(e.lastname, '')), '') as empname,
+  coalesce(t.total_price, 0) as total_price
+from public.sales s
+left join public.customer c on c.custno = s.custno
+left join public.employee e on e.empno = s.empno
+left join lateral (
+  select sum(li.amount) as total_price
+  from public.sales_line_items li
+  where li.transno = s.transno
+) t on true;
+
+create index if not exists salesdetail_transno_idx on public.salesdetail (transno);
+create index if not exists pricehist_prodcode_effdate_idx on public.pricehist (prodcode, effdate desc);
+create index if not exists sales_audit_log_table_record_idx on public.sales_audit_log (table_name, record_id, created_at);
+
+-- p_search_field is one of 'all', 'transno', 'salesdate', 'custname', 'empname' and
+-- matches the search dropdown. Dates are matched in the same "Jan 05, 2024" form the
+-- table displays. p_sort_field is any of the page's SortField values.
+--
+-- Returns { total_count, rows: [...] }.
+create or replace function public.get_sales_page(
+  p_search text default null,
+  p_search_field text default 'all',
+  p_sort_field text default 'transno',
+  p_sort_order text default 'desc',
+  p_limit integer default 25,
+  p_offset integer default 0,
+  p_include_audit boolean default false
+) returns jsonb
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_term text := nullif(btrim(coalesce(p_search, '')), '');
+  v_asc boolean := lower(coalesce(p_sort_order, 'desc')) = 'asc';
+  v_total bigint;
+  v_rows jsonb;
+begin
+  if p_sort_field not in ('transno', 'salesdate', 'custname', 'empname', 'totalPrice') then
+    raise exception 'Unsupported sort field: %', p_sort_field;
+  end if;
+
+  with filtered as (
+    select ss.*
+    from public.sales_summary ss
+    where v_term is null
+      or (p_search_field in ('all', 'transno') and ss.transno ilike '%' || v_term || '%')
+      or (p_search_field in ('all', 'salesdate') and to_char(ss.salesdate, 'Mon DD, YYYY') ilike '%' || v_term || '%')
+      or (p_search_field in ('all', 'custname') and ss.custname ilike '%' || v_term || '%')
+      or (p_search_field in ('all', 'empname') and ss.empname ilike '%' || v_term || '%')
+  ),
+  page as (
+    select f.*, row_number() over (
+      order by
+        case when v_asc and p_sort_field = 'transno' then f.transno end asc,
+        case when not v_asc and p_sort_field = 'transno' then f.transno end desc,
+        case when v_asc and p_sort_field = 'salesdate' then f.salesdate end asc nulls first,
+        case when not v_asc and p_sort_field = 'salesdate' then f.salesdate end desc nulls last,
+        case when v_asc and p_sort_field = 'custname' then coalesce(f.custname, '') end asc,
+        case when not v_asc and p_sort_field = 'custname' then coalesce(f.custname, '') end desc,
+        case when v_asc and p_sort_field = 'empname' then coalesce(f.empname, '') end asc,
+        case when not v_asc and p_sort_field = 'empname' then coalesce(f.empname, '') end desc,
+        case when v_asc and p_sort_field = 'totalPrice' then f.total_price end asc,
+        case when not v_asc and p_sort_field = 'totalPrice' then f.total_price end desc,
+        f.transno desc
+    ) as row_number
+    from filtered f
+    order by row_number
+    limit greatest(coalesce(p_limit, 25), 1)
+    offset greatest(coalesce(p_offset, 0), 0)
+  )
+  select
+    (select count(*) from filtered),
+    coalesce(jsonb_agg(
+      jsonb_build_object(
+        'transno', pg.transno,
+        'salesdate', pg.salesdate,
+        'custno', pg.custno,
+        'empno', pg.empno,
+        'custname', pg.custname,
+        'empname', pg.empname,
+        'total_price', pg.total_price,
+        'line_items', (
+          select coalesce(jsonb_agg(jsonb_build_object(
+            'prodcode', li.prodcode,
+            'quantity', li.quantity,
+            'description', li.description,
+            'unit', li.unit,
+            'unitprice', li.unitprice,
+            'created_by', case when p_include_audit then (
+              select a.changed_by_email from public.sales_audit_log a
+              where a.table_name = 'salesdetail' and a.record_id = li.transno || '-' || li.prodcode and a.action = 'created'
+              order by a.created_at desc limit 1) end,
+            'updated_by', case when p_include_audit then (
+              select a.changed_by_email from public.sales_audit_log a
+              where a.table_name = 'salesdetail' and a.record_id = li.transno || '-' || li.prodcode and a.action = 'updated'
+              order by a.created_at desc limit 1) end
+          ) order by li.prodcode), '[]'::jsonb)
+          from public.sales_line_items li
+          where li.transno = pg.transno
+        ),
+        'audit', case when p_include_audit then (
+          select jsonb_build_object(
+            'created_by', (array_agg(a.changed_by_email order by a.created_at desc) filter (where a.action = 'created'))[1],
+            'created_at', max(a.created_at) filter (where a.action = 'created'),
+            'updated_by', (array_agg(a.changed_by_email order by a.created_at desc) filter (where a.action = 'updated'))[1],
+            'updated_at', max(a.created_at) filter (where a.action = 'updated')
+          )
+          from public.sales_audit_log a
+          where a.table_name = 'sales' and a.record_id = pg.transno
+          having count(*) > 0
+        ) end
+      ) order by pg.row_number
+    ), '[]'::jsonb)
+  into v_total, v_rows
+  from page pg;
+
+  return jsonb_build_object('total_count', v_total, 'rows', v_rows);
+end;
+$$;
+
+grant select on public.sales_line_items, public.sales_summary to authenticated;
+grant execute on function public.get_sales_page(text, text, text, text, integer, integer, boolean) to authenticated;
@@ -0,0 +1,289 @@
+-- Snapshot the price, unit and description charged on each sales line.
+--
+-- Until now every screen re-derived the line price from pricehist using the sale date,
+-- so a backdated price correction silently changed the value of old invoices. The
+-- values are now written onto salesdetail when the line is created and only change
+-- through the admin-only reprice_sale function.
+
+alter table public.salesdetail
+  add column if not exists unitprice numeric,
+  add column if not exists unit text,
+  add column if not exists description text;
+
+create or replace function public.effective_unit_price(p_prodcode text, p_on date)
+returns numeric
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select p.unitprice
+  from public.pricehist p
+  where p.prodcode = p_prodcode
+    and p.effdate <= coalesce(p_on, current_date)
+  order by p.effdate desc
+  limit 1;
+$$;
+
+-- Backfill existing lines with what the list used to compute for them.
+update public.salesdetail d
+set
+  unitprice = public.effective_unit_price(d.prodcode, s.salesdate),
+  unit = coalesce(d.unit, pr.unit),
+  description = coalesce(d.description, pr.description)
+from public.sales s, public.product pr
+where s.transno = d.transno
+  and pr.prodcode = d.prodcode
+  and d.unitprice is null;
+
+-- The list views read the stored values from here on. Dropped and recreated because
+-- the column types now come from salesdetail rather than pricehist.
+drop view if exists public.sales_summary;
+drop view if exists public.sales_line_items;
+
+create view public.sales_line_items
+with (security_invoker = true) as
+select
+  d.transno,
+  d.prodcode,
+  d.quantity,
+  d.description,
+  d.unit,
+  d.unitprice,
+  coalesce(d.quantity, 0) * coalesce(d.unitprice, 0) as amount
+from public.salesdetail d;
+
+create view public.sales_summary
+with (security_invoker = true) as
+select
+  s.transno,
+  s.salesdate,
+  s.custno,
+  s.empno,
+  c.custname,
+  nullif(btrim(coalesce(e.firstname, '') || ' ' || coalesce(e.lastname, '')), '') as empname,
+  coalesce(t.total_price, 0) as total_price
+from public.sales s
+left join public.customer c on c.custno = s.custno
+left join public.employee e on e.empno = s.empno
+left join lateral (
+  select sum(li.amount) as total_price
+  from public.sales_line_items li
+  where li.transno = s.transno
+) t on true;
+
+grant select on public.sales_line_items, public.sales_summary to authenticated;
+
+-- "unit" on a line now overrides the unit on that line only instead of rewriting the
+-- product master. New lines are priced from pricehist as of the sale date.
+create or replace function public.save_sale(
+  p_transno text,
+  p_salesdate date,
+  p_custno text,
+  p_empno text,
+  p_details jsonb,
+  p_is_new boolean default true
+) returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_perm public.user_permissions%rowtype;
+  v_old_sale public.sales%rowtype;
+  v_new_sale public.sales%rowtype;
+  v_existing public.salesdetail%rowtype;
+  v_errors jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_prodcode text;
+  v_quantity numeric;
+  v_unit text;
+  v_unitprice numeric;
+  v_seen text[] := '{}';
+  v_transno text := p_transno;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You must be signed in to save a transaction')));
+  end if;
+
+  select * into v_perm from public.user_permissions where user_id = v_user_id;
+
+  if not found or (p_is_new and not v_perm.can_add_sales) or (not p_is_new and not v_perm.can_edit_sales) then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message',
+        case when p_is_new then 'You don''t have permission to create sales transactions'
+             else 'You don''t have permission to edit sales transactions' end)));
+  end if;
+
+  -- Header validation
+  if not p_is_new and (p_transno is null or btrim(p_transno) = '') then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction number is required');
+  elsif not p_is_new then
+    select * into v_old_sale from public.sales where transno = p_transno for update;
+    if not found then
+      v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction ' || p_transno || ' no longer exists');
+    end if;
+  end if;
+
+  if p_salesdate is null then
+    v_errors := v_errors || jsonb_build_object('field', 'salesdate', 'message', 'Transaction date is required');
+  end if;
+
+  if nullif(p_custno, '') is not null and not exists (select 1 from public.customer where custno = p_custno) then
+    v_errors := v_errors || jsonb_build_object('field', 'custno', 'message', 'Customer ' || p_custno || ' does not exist');
+  end if;
+
+  if nullif(p_empno, '') is not null and not exists (select 1 from public.employee where empno = p_empno) then
+    v_errors := v_errors || jsonb_build_object('field', 'empno', 'message', 'Employee ' || p_empno || ' does not exist');
+  end if;
+
+  -- Line validation
+  if p_details is null or jsonb_typeof(p_details) <> 'array' or jsonb_array_length(p_details) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'Add at least one product');
+  else
+    for v_line in select * from jsonb_array_elements(p_details) loop
+      v_prodcode := v_line->>'prodcode';
+      v_quantity := nullif(v_line->>'quantity', '')::numeric;
+
+      if v_prodcode is null or not exists (select 1 from public.product where prodcode = v_prodcode) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Unknown product');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is listed more than once');
+      end if;
+
+      if v_quantity is null or v_quantity <= 0 then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'Quantity must be greater than zero');
+      end if;
+
+      if p_is_new or not exists (select 1 from public.salesdetail where transno = p_transno and prodcode = v_prodcode) then
+        if not v_perm.can_add_sales_detail then
+          v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'You don''t have permission to add products to a transaction');
+        end if;
+      elsif not v_perm.can_edit_sales_detail and exists (
+        select 1 from public.salesdetail
+        where transno = p_transno and prodcode = v_prodcode and quantity is distinct from v_quantity
+      ) then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'You don''t have permission to change products on a transaction');
+      end if;
+
+      v_seen := v_seen || v_prodcode;
+    end loop;
+
+    if not p_is_new and not v_perm.can_delete_sales_detail and exists (
+      select 1 from public.salesdetail where transno = p_transno and not (prodcode = any(v_seen))
+    ) then
+      v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'You don''t have permission to remove products from a transaction');
+    end if;
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', v_errors);
+  end if;
+
+  -- Header
+  if p_is_new then
+    v_transno := public.allocate_transaction_number('sales');
+
+    insert into public.sales (transno, salesdate, custno, empno)
+    values (v_transno, p_salesdate, nullif(p_custno, ''), nullif(p_empno, ''))
+    returning * into v_new_sale;
+
+    perform public.write_sales_audit('sales', v_transno, 'created', null, to_jsonb(v_new_sale));
+  else
+    update public.sales
+    set salesdate = p_salesdate, custno = nullif(p_custno, ''), empno = nullif(p_empno, '')
+    where transno = v_transno
+    returning * into v_new_sale;
+
+    perform public.write_sales_audit('sales', v_transno, 'updated', to_jsonb(v_old_sale), to_jsonb(v_new_sale));
+
+    for v_existing in
+      select * from public.salesdetail where transno = v_transno and not (prodcode = any(v_seen))
+    loop
+      delete from public.salesdetail where transno = v_transno and prodcode = v_existing.prodcode;
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_existing.prodcode, 'deleted', to_jsonb(v_existing), null);
+    end loop;
+  end if;
+
+  -- Lines
+  for v_line in select * from jsonb_array_elements(p_details) loop
+    v_prodcode := v_line->>'prodcode';
+    v_quantity := (v_line->>'quantity')::numeric;
+    v_unit := nullif(btrim(v_line->>'unit'), '');
+
+    select * into v_existing from public.salesdetail where transno = v_transno and prodcode = v_prodcode;
+
+    if not found then
+      v_unitprice := public.effective_unit_price(v_prodcode, p_salesdate);
+
+      insert into public.salesdetail (transno, prodcode, quantity, unitprice, unit, description)
+      select v_transno, v_prodcode, v_quantity, v_unitprice, coalesce(v_unit, pr.unit), pr.description
+      from public.product pr
+      where pr.prodcode = v_prodcode;
+
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_prodcode, 'created', null,
+        jsonb_build_object('transno', v_transno, 'prodcode', v_prodcode, 'quantity', v_quantity,
+          'unitprice', v_unitprice, 'unit', coalesce(v_unit, (select unit from public.product where prodcode = v_prodcode))));
+    elsif v_existing.quantity is distinct from v_quantity
+      or (v_unit is not null and v_existing.unit is distinct from v_unit) then
+      -- The price charged stays as written; only "reprice_sale" changes it
+      update public.salesdetail
+      set quantity = v_quantity, unit = coalesce(v_unit, unit)
+      where transno = v_transno and prodcode = v_prodcode;
+
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_prodcode, 'updated', to_jsonb(v_existing),
+        jsonb_build_object('transno', v_transno, 'prodcode', v_prodcode, 'quantity', v_quantity,
+          'unitprice', v_existing.unitprice, 'unit', coalesce(v_unit, v_existing.unit)));
+    end if;
+  end loop;
+
+  return jsonb_build_object('ok', true, 'transno', v_transno, 'errors', '[]'::jsonb);
+end;
+$$;
+
+-- Re-read every line of a sale from price history as of its sale date. Used to correct
+-- invoices after a price history fix; admins only. Returns the number of lines changed.
+create or replace function public.reprice_sale(p_transno text)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales%rowtype;
+  v_line public.salesdetail%rowtype;
+  v_unitprice numeric;
+  v_changed integer := 0;
+begin
+  if not exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin') then
+    raise exception 'Only administrators can reprice a transaction' using errcode = '42501';
+  end if;
+
+  select * into v_sale from public.sales where transno = p_transno for update;
+
+  if not found then
+    raise exception 'Transaction % does not exist', p_transno using errcode = 'P0002';
+  end if;
+
+  for v_line in select * from public.salesdetail where transno = p_transno loop
+    v_unitprice := public.effective_unit_price(v_line.prodcode, v_sale.salesdate);
+
+    if v_line.unitprice is distinct from v_unitprice then
+      update public.salesdetail set unitprice = v_unitprice
+      where transno = p_transno and prodcode = v_line.prodcode;
+
+      perform public.write_sales_audit('salesdetail', p_transno || '-' || v_line.prodcode, 'updated', to_jsonb(v_line),
+        to_jsonb(v_line) || jsonb_build_object('unitprice', v_unitprice, 'repriced', true));
+
+      v_changed := v_changed + 1;
+    end if;
+  end loop;
+
+  return v_changed;
+end;
+$$;
+
+grant execute on function public.effective_unit_price(text, date) to authenticated;
+grant execute on function public.reprice_sale(text) to authenticated;
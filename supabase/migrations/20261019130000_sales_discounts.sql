@@ -0,0 +1,543 @@
+-- Line-level and order-level discounts.
+--
+-- A discount is a (type, value, reason) triple stored on salesdetail for a line and on
+-- sales for the whole invoice. type is 'percent' or 'amount'; reason optionally points
+-- at discount_reasons. Line discounts apply to quantity x unitprice; the order discount
+-- applies to the sum of the lines after their own discounts.
+--
+-- user_permissions.max_discount_percent caps the effective discount a user may give on
+-- any line and on the order as a whole.
+
+create table if not exists public.discount_reasons (
+  code text primary key,
+  description text not null,
+  active boolean not null default true
+);
+
+alter table public.discount_reasons enable row level security;
+
+create policy "Authenticated users can read discount reasons"
+  on public.discount_reasons for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage discount reasons"
+  on public.discount_reasons for all
+  to authenticated
+  using (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'));
+
+insert into public.discount_reasons (code, description) values
+  ('LOYALTY', 'Loyal customer'),
+  ('BULK', 'Bulk purchase'),
+  ('PROMO', 'Promotion'),
+  ('DAMAGED', 'Damaged or shop-soiled goods'),
+  ('PRICEMATCH', 'Competitor price match')
+on conflict (code) do nothing;
+
+alter table public.salesdetail
+  add column if not exists discount_type text check (discount_type in ('percent', 'amount')),
+  add column if not exists discount_value numeric check (discount_value >= 0),
+  add column if not exists discount_reason text references public.discount_reasons (code);
+
+alter table public.sales
+  add column if not exists discount_type text check (discount_type in ('percent', 'amount')),
+  add column if not exists discount_value numeric check (discount_value >= 0),
+  add column if not exists discount_reason text references public.discount_reasons (code);
+
+alter table public.user_permissions
+  add column if not exists max_discount_percent numeric not null default 0
+    check (max_discount_percent between 0 and 100);
+
+alter table public.preregistered_emails
+  add column if not exists max_discount_percent numeric not null default 0
+    check (max_discount_percent between 0 and 100);
+
+update public.user_permissions up
+set max_discount_percent = 100
+from public.user_roles ur
+where ur.user_id = up.user_id and ur.role = 'admin';
+
+-- Amount taken off p_base by a discount. Fixed amounts never exceed the base.
+create or replace function public.discount_amount(p_base numeric, p_type text, p_value numeric)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_base is null or p_base <= 0 or p_value is null or p_value <= 0 then 0
+    when p_type = 'percent' then round(p_base * least(p_value, 100) / 100, 2)
+    when p_type = 'amount' then least(p_value, p_base)
+    else 0
+  end;
+$$;
+
+drop view if exists public.sales_summary;
+drop view if exists public.sales_line_items;
+
+-- amount is the line's share of the sale's net total: gross, less its own discount,
+-- less its proportional share of the order discount.
+create view public.sales_line_items
+with (security_invoker = true) as
+with priced as (
+  select
+    d.*,
+    coalesce(d.quantity, 0) * coalesce(d.unitprice, 0) as gross_amount,
+    public.discount_amount(coalesce(d.quantity, 0) * coalesce(d.unitprice, 0), d.discount_type, d.discount_value) as line_discount_amount
+  from public.salesdetail d
+),
+subtotals as (
+  select p.*, sum(p.gross_amount - p.line_discount_amount) over (partition by p.transno) as subtotal
+  from priced p
+)
+select
+  t.transno,
+  t.prodcode,
+  t.quantity,
+  t.description,
+  t.unit,
+  t.unitprice,
+  t.discount_type,
+  t.discount_value,
+  t.discount_reason,
+  t.gross_amount,
+  t.line_discount_amount,
+  t.gross_amount - t.line_discount_amount as net_amount,
+  t.gross_amount - t.line_discount_amount - case
+    when t.subtotal > 0 then round(
+      public.discount_amount(t.subtotal, s.discount_type, s.discount_value)
+        * (t.gross_amount - t.line_discount_amount) / t.subtotal, 2)
+    else 0
+  end as amount
+from subtotals t
+join public.sales s on s.transno = t.transno;
+
+create view public.sales_summary
+with (security_invoker = true) as
+select
+  s.transno,
+  s.salesdate,
+  s.custno,
+  s.empno,
+  c.custname,
+  nullif(btrim(coalesce(e.firstname, '') || ' ' || coalesce(e.lastname, '')), '') as empname,
+  s.discount_type,
+  s.discount_value,
+  s.discount_reason,
+  coalesce(t.gross_total, 0) as gross_total,
+  coalesce(t.line_discount_total, 0) as line_discount_total,
+  o.order_discount_amount,
+  coalesce(t.line_discount_total, 0) + o.order_discount_amount as discount_total,
+  coalesce(t.subtotal, 0) - o.order_discount_amount as total_price
+from public.sales s
+left join public.customer c on c.custno = s.custno
+left join public.employee e on e.empno = s.empno
+left join lateral (
+  select
+    sum(li.gross_amount) as gross_total,
+    sum(li.line_discount_amount) as line_discount_total,
+    sum(li.net_amount) as subtotal
+  from public.sales_line_items li
+  where li.transno = s.transno
+) t on true
+cross join lateral (
+  select public.discount_amount(coalesce(t.subtotal, 0), s.discount_type, s.discount_value) as order_discount_amount
+) o;
+
+grant select on public.sales_line_items, public.sales_summary to authenticated;
+
+-- Validates a discount triple. Returns an error message or null.
+create or replace function public.validate_discount(
+  p_base numeric,
+  p_type text,
+  p_value numeric,
+  p_reason text,
+  p_max_percent numeric
+) returns text
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_amount numeric;
+begin
+  if p_type is null and coalesce(p_value, 0) = 0 then
+    return null;
+  end if;
+
+  if p_type not in ('percent', 'amount') then
+    return 'Choose a percentage or fixed amount discount';
+  end if;
+
+  if p_value is null or p_value < 0 then
+    return 'Discount must be zero or more';
+  end if;
+
+  if p_type = 'percent' and p_value > 100 then
+    return 'Discount cannot exceed 100%';
+  end if;
+
+  if p_type = 'amount' and p_value > coalesce(p_base, 0) then
+    return 'Discount cannot exceed the amount it applies to';
+  end if;
+
+  if p_reason is not null and not exists (select 1 from public.discount_reasons where code = p_reason and active) then
+    return 'Unknown discount reason';
+  end if;
+
+  v_amount := public.discount_amount(p_base, p_type, p_value);
+
+  if p_base > 0 and v_amount * 100 / p_base > coalesce(p_max_percent, 0) then
+    return 'Discount exceeds your limit of ' || coalesce(p_max_percent, 0) || '%';
+  end if;
+
+  return null;
+end;
+$$;
+
+-- The old signature is replaced by one that also takes the order discount.
+drop function if exists public.save_sale(text, date, text, text, jsonb, boolean);
+
+-- p_details is a JSON array of
+--   { prodcode, quantity, unit?, discount_type?, discount_value?, discount_reason? }
+-- p_discount is { type, value, reason } for the order, or null.
+--
+-- Returns { ok, transno, errors: [{ field, message, prodcode? }] }.
+create or replace function public.save_sale(
+  p_transno text,
+  p_salesdate date,
+  p_custno text,
+  p_empno text,
+  p_details jsonb,
+  p_is_new boolean default true,
+  p_discount jsonb default null
+) returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_perm public.user_permissions%rowtype;
+  v_old_sale public.sales%rowtype;
+  v_new_sale public.sales%rowtype;
+  v_existing public.salesdetail%rowtype;
+  v_written public.salesdetail%rowtype;
+  v_errors jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_prodcode text;
+  v_quantity numeric;
+  v_unit text;
+  v_unitprice numeric;
+  v_discount_type text;
+  v_discount_value numeric;
+  v_discount_reason text;
+  v_gross numeric;
+  v_subtotal numeric := 0;
+  v_message text;
+  v_seen text[] := '{}';
+  v_transno text := p_transno;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You must be signed in to save a transaction')));
+  end if;
+
+  select * into v_perm from public.user_permissions where user_id = v_user_id;
+
+  if not found or (p_is_new and not v_perm.can_add_sales) or (not p_is_new and not v_perm.can_edit_sales) then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message',
+        case when p_is_new then 'You don''t have permission to create sales transactions'
+             else 'You don''t have permission to edit sales transactions' end)));
+  end if;
+
+  -- Header validation
+  if not p_is_new and (p_transno is null or btrim(p_transno) = '') then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction number is required');
+  elsif not p_is_new then
+    select * into v_old_sale from public.sales where transno = p_transno for update;
+    if not found then
+      v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction ' || p_transno || ' no longer exists');
+    end if;
+  end if;
+
+  if p_salesdate is null then
+    v_errors := v_errors || jsonb_build_object('field', 'salesdate', 'message', 'Transaction date is required');
+  end if;
+
+  if nullif(p_custno, '') is not null and not exists (select 1 from public.customer where custno = p_custno) then
+    v_errors := v_errors || jsonb_build_object('field', 'custno', 'message', 'Customer ' || p_custno || ' does not exist');
+  end if;
+
+  if nullif(p_empno, '') is not null and not exists (select 1 from public.employee where empno = p_empno) then
+    v_errors := v_errors || jsonb_build_object('field', 'empno', 'message', 'Employee ' || p_empno || ' does not exist');
+  end if;
+
+  -- Line validation
+  if p_details is null or jsonb_typeof(p_details) <> 'array' or jsonb_array_length(p_details) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'Add at least one product');
+  else
+    for v_line in select * from jsonb_array_elements(p_details) loop
+      v_prodcode := v_line->>'prodcode';
+      v_quantity := nullif(v_line->>'quantity', '')::numeric;
+      v_discount_type := nullif(v_line->>'discount_type', '');
+      v_discount_value := nullif(v_line->>'discount_value', '')::numeric;
+      v_discount_reason := nullif(v_line->>'discount_reason', '');
+
+      if v_prodcode is null or not exists (select 1 from public.product where prodcode = v_prodcode) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Unknown product');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is listed more than once');
+      end if;
+
+      if v_quantity is null or v_quantity <= 0 then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'Quantity must be greater than zero');
+      end if;
+
+      select * into v_existing from public.salesdetail where transno = p_transno and prodcode = v_prodcode and not p_is_new;
+
+      if not found then
+        if not v_perm.can_add_sales_detail then
+          v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'You don''t have permission to add products to a transaction');
+        end if;
+        v_unitprice := public.effective_unit_price(v_prodcode, p_salesdate);
+      else
+        if not v_perm.can_edit_sales_detail and (
+          v_existing.quantity is distinct from v_quantity
+          or v_existing.discount_type is distinct from v_discount_type
+          or v_existing.discount_value is distinct from v_discount_value
+          or v_existing.discount_reason is distinct from v_discount_reason
+        ) then
+          v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'You don''t have permission to change products on a transaction');
+        end if;
+        v_unitprice := v_existing.unitprice;
+      end if;
+
+      v_gross := coalesce(v_quantity, 0) * coalesce(v_unitprice, 0);
+      v_message := public.validate_discount(v_gross, v_discount_type, v_discount_value, v_discount_reason, v_perm.max_discount_percent);
+
+      if v_message is not null then
+        v_errors := v_errors || jsonb_build_object('field', 'discount', 'prodcode', v_prodcode, 'message', v_message);
+      end if;
+
+      v_subtotal := v_subtotal + v_gross - public.discount_amount(v_gross, v_discount_type, v_discount_value);
+      v_seen := v_seen || v_prodcode;
+    end loop;
+
+    if not p_is_new and not v_perm.can_delete_sales_detail and exists (
+      select 1 from public.salesdetail where transno = p_transno and not (prodcode = any(v_seen))
+    ) then
+      v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'You don''t have permission to remove products from a transaction');
+    end if;
+  end if;
+
+  v_discount_type := nullif(p_discount->>'type', '');
+  v_discount_value := nullif(p_discount->>'value', '')::numeric;
+  v_discount_reason := nullif(p_discount->>'reason', '');
+  v_message := public.validate_discount(v_subtotal, v_discount_type, v_discount_value, v_discount_reason, v_perm.max_discount_percent);
+
+  if v_message is not null then
+    v_errors := v_errors || jsonb_build_object('field', 'discount', 'message', v_message);
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', v_errors);
+  end if;
+
+  -- Header
+  if p_is_new then
+    v_transno := public.allocate_transaction_number('sales');
+
+    insert into public.sales (transno, salesdate, custno, empno, discount_type, discount_value, discount_reason)
+    values (v_transno, p_salesdate, nullif(p_custno, ''), nullif(p_empno, ''), v_discount_type, v_discount_value, v_discount_reason)
+    returning * into v_new_sale;
+
+    perform public.write_sales_audit('sales', v_transno, 'created', null, to_jsonb(v_new_sale));
+  else
+    update public.sales
+    set
+      salesdate = p_salesdate,
+      custno = nullif(p_custno, ''),
+      empno = nullif(p_empno, ''),
+      discount_type = v_discount_type,
+      discount_value = v_discount_value,
+      discount_reason = v_discount_reason
+    where transno = v_transno
+    returning * into v_new_sale;
+
+    perform public.write_sales_audit('sales', v_transno, 'updated', to_jsonb(v_old_sale), to_jsonb(v_new_sale));
+
+    for v_existing in
+      select * from public.salesdetail where transno = v_transno and not (prodcode = any(v_seen))
+    loop
+      delete from public.salesdetail where transno = v_transno and prodcode = v_existing.prodcode;
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_existing.prodcode, 'deleted', to_jsonb(v_existing), null);
+    end loop;
+  end if;
+
+  -- Lines
+  for v_line in select * from jsonb_array_elements(p_details) loop
+    v_prodcode := v_line->>'prodcode';
+    v_quantity := (v_line->>'quantity')::numeric;
+    v_unit := nullif(btrim(v_line->>'unit'), '');
+    v_discount_type := nullif(v_line->>'discount_type', '');
+    v_discount_value := nullif(v_line->>'discount_value', '')::numeric;
+    v_discount_reason := nullif(v_line->>'discount_reason', '');
+
+    select * into v_existing from public.salesdetail where transno = v_transno and prodcode = v_prodcode;
+
+    if not found then
+      insert into public.salesdetail (
+        transno, prodcode, quantity, unitprice, unit, description, discount_type, discount_value, discount_reason
+      )
+      select
+        v_transno, v_prodcode, v_quantity, public.effective_unit_price(v_prodcode, p_salesdate),
+        coalesce(v_unit, pr.unit), pr.description, v_discount_type, v_discount_value, v_discount_reason
+      from public.product pr
+      where pr.prodcode = v_prodcode
+      returning * into v_written;
+
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_prodcode, 'created', null, to_jsonb(v_written));
+    elsif v_existing.quantity is distinct from v_quantity
+      or (v_unit is not null and v_existing.unit is distinct from v_unit)
+      or v_existing.discount_type is distinct from v_discount_type
+      or v_existing.discount_value is distinct from v_discount_value
+      or v_existing.discount_reason is distinct from v_discount_reason then
+      -- The price charged stays as written; only "reprice_sale" changes it
+      update public.salesdetail
+      set
+        quantity = v_quantity,
+        unit = coalesce(v_unit, unit),
+        discount_type = v_discount_type,
+        discount_value = v_discount_value,
+        discount_reason = v_discount_reason
+      where transno = v_transno and prodcode = v_prodcode
+      returning * into v_written;
+
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_prodcode, 'updated', to_jsonb(v_existing), to_jsonb(v_written));
+    end if;
+  end loop;
+
+  return jsonb_build_object('ok', true, 'transno', v_transno, 'errors', '[]'::jsonb);
+end;
+$$;
+
+grant execute on function public.save_sale(text, date, text, text, jsonb, boolean, jsonb) to authenticated;
+
+-- The listing now also returns the discount breakdown for each sale and line.
+create or replace function public.get_sales_page(
+  p_search text default null,
+  p_search_field text default 'all',
+  p_sort_field text default 'transno',
+  p_sort_order text default 'desc',
+  p_limit integer default 25,
+  p_offset integer default 0,
+  p_include_audit boolean default false
+) returns jsonb
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_term text := nullif(btrim(coalesce(p_search, '')), '');
+  v_asc boolean := lower(coalesce(p_sort_order, 'desc')) = 'asc';
+  v_total bigint;
+  v_rows jsonb;
+begin
+  if p_sort_field not in ('transno', 'salesdate', 'custname', 'empname', 'totalPrice') then
+    raise exception 'Unsupported sort field: %', p_sort_field;
+  end if;
+
+  with filtered as (
+    select ss.*
+    from public.sales_summary ss
+    where v_term is null
+      or (p_search_field in ('all', 'transno') and ss.transno ilike '%' || v_term || '%')
+      or (p_search_field in ('all', 'salesdate') and to_char(ss.salesdate, 'Mon DD, YYYY') ilike '%' || v_term || '%')
+      or (p_search_field in ('all', 'custname') and ss.custname ilike '%' || v_term || '%')
+      or (p_search_field in ('all', 'empname') and ss.empname ilike '%' || v_term || '%')
+  ),
+  page as (
+    select f.*, row_number() over (
+      order by
+        case when v_asc and p_sort_field = 'transno' then f.transno end asc,
+        case when not v_asc and p_sort_field = 'transno' then f.transno end desc,
+        case when v_asc and p_sort_field = 'salesdate' then f.salesdate end asc nulls first,
+        case when not v_asc and p_sort_field = 'salesdate' then f.salesdate end desc nulls last,
+        case when v_asc and p_sort_field = 'custname' then coalesce(f.custname, '') end asc,
+        case when not v_asc and p_sort_field = 'custname' then coalesce(f.custname, '') end desc,
+        case when v_asc and p_sort_field = 'empname' then coalesce(f.empname, '') end asc,
+        case when not v_asc and p_sort_field = 'empname' then coalesce(f.empname, '') end desc,
+        case when v_asc and p_sort_field = 'totalPrice' then f.total_price end asc,
+        case when not v_asc and p_sort_field = 'totalPrice' then f.total_price end desc,
+        f.transno desc
+    ) as row_number
+    from filtered f
+    order by row_number
+    limit greatest(coalesce(p_limit, 25), 1)
+    offset greatest(coalesce(p_offset, 0), 0)
+  )
+  select
+    (select count(*) from filtered),
+    coalesce(jsonb_agg(
+      jsonb_build_object(
+        'transno', pg.transno,
+        'salesdate', pg.salesdate,
+        'custno', pg.custno,
+        'empno', pg.empno,
+        'custname', pg.custname,
+        'empname', pg.empname,
+        'total_price', pg.total_price,
+        'gross_total', pg.gross_total,
+        'line_discount_total', pg.line_discount_total,
+        'order_discount_amount', pg.order_discount_amount,
+        'discount_total', pg.discount_total,
+        'discount_type', pg.discount_type,
+        'discount_value', pg.discount_value,
+        'discount_reason', pg.discount_reason,
+        'line_items', (
+          select coalesce(jsonb_agg(jsonb_build_object(
+            'prodcode', li.prodcode,
+            'quantity', li.quantity,
+            'description', li.description,
+            'unit', li.unit,
+            'unitprice', li.unitprice,
+            'discount_type', li.discount_type,
+            'discount_value', li.discount_value,
+            'discount_reason', li.discount_reason,
+            'gross_amount', li.gross_amount,
+            'line_discount_amount', li.line_discount_amount,
+            'net_amount', li.net_amount,
+            'created_by', case when p_include_audit then (
+              select a.changed_by_email from public.sales_audit_log a
+              where a.table_name = 'salesdetail' and a.record_id = li.transno || '-' || li.prodcode and a.action = 'created'
+              order by a.created_at desc limit 1) end,
+            'updated_by', case when p_include_audit then (
+              select a.changed_by_email from public.sales_audit_log a
+              where a.table_name = 'salesdetail' and a.record_id = li.transno || '-' || li.prodcode and a.action = 'updated'
+              order by a.created_at desc limit 1) end
+          ) order by li.prodcode), '[]'::jsonb)
+          from public.sales_line_items li
+          where li.transno = pg.transno
+        ),
+        'audit', case when p_include_audit then (
+          select jsonb_build_object(
+            'created_by', (array_agg(a.changed_by_email order by a.created_at desc) filter (where a.action = 'created'))[1],
+            'created_at', max(a.created_at) filter (where a.action = 'created'),
+            'updated_by', (array_agg(a.changed_by_email order by a.created_at desc) filter (where a.action = 'updated'))[1],
+            'updated_at', max(a.created_at) filter (where a.action = 'updated')
+          )
+          from public.sales_audit_log a
+          where a.table_name = 'sales' and a.record_id = pg.transno
+          having count(*) > 0
+        ) end
+      ) order by pg.row_number
+    ), '[]'::jsonb)
+  into v_total, v_rows
+  from page pg;
+
+  return jsonb_build_object('total_count', v_total, 'rows', v_rows);
+end;
+$$;
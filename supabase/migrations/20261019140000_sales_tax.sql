@@ -0,0 +1,598 @@
+-- Configurable sales tax.
+--
+-- Each product belongs to a tax class with a rate; products without one use the default
+-- class in tax_settings. tax_settings.prices_include_tax says whether unit prices are
+-- VAT-inclusive or exclusive, and customers can be flagged tax-exempt.
+--
+-- A sale snapshots the price mode and the customer's exemption on its header, and each
+-- line snapshots its tax class and rate when it is added, so later configuration changes
+-- don't alter saved sales. The tax on each line is computed on its discounted amount and
+-- stored in salesdetail.tax_amount by apply_sale_tax whenever the sale is saved or repriced.
+
+create table if not exists public.tax_classes (
+  code text primary key,
+  description text not null,
+  rate numeric not null default 0 check (rate between 0 and 100),
+  active boolean not null default true
+);
+
+alter table public.tax_classes enable row level security;
+
+create policy "Authenticated users can read tax classes"
+  on public.tax_classes for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage tax classes"
+  on public.tax_classes for all
+  to authenticated
+  using (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'));
+
+insert into public.tax_classes (code, description, rate) values
+  ('STANDARD', 'Standard rate', 12),
+  ('REDUCED', 'Reduced rate', 5),
+  ('ZERO', 'Zero rated', 0)
+on conflict (code) do nothing;
+
+-- Single-row table
+create table if not exists public.tax_settings (
+  id boolean primary key default true check (id),
+  prices_include_tax boolean not null default false,
+  default_tax_class text references public.tax_classes (code),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.tax_settings enable row level security;
+
+create policy "Authenticated users can read tax settings"
+  on public.tax_settings for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage tax settings"
+  on public.tax_settings for all
+  to authenticated
+  using (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'));
+
+insert into public.tax_settings (id, prices_include_tax, default_tax_class)
+values (true, false, 'STANDARD')
+on conflict (id) do nothing;
+
+alter table public.product
+  add column if not exists tax_class text references public.tax_classes (code);
+
+alter table public.customer
+  add column if not exists tax_exempt boolean not null default false;
+
+-- Lets the tax settings page assign tax classes and exemptions.
+create policy "Admins can update products"
+  on public.product for update
+  to authenticated
+  using (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'));
+
+create policy "Admins can update customers"
+  on public.customer for update
+  to authenticated
+  using (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'));
+
+alter table public.sales
+  add column if not exists prices_include_tax boolean not null default false,
+  add column if not exists tax_exempt boolean not null default false;
+
+-- Existing lines were sold without tax and keep a zero rate.
+alter table public.salesdetail
+  add column if not exists tax_class text references public.tax_classes (code),
+  add column if not exists tax_rate numeric not null default 0 check (tax_rate between 0 and 100),
+  add column if not exists tax_amount numeric not null default 0;
+
+-- Tax contained in (inclusive) or added to (exclusive) p_amount at p_rate percent.
+create or replace function public.tax_amount(p_amount numeric, p_rate numeric, p_inclusive boolean)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_amount is null or p_amount <= 0 or p_rate is null or p_rate <= 0 then 0
+    when p_inclusive then round(p_amount * p_rate / (100 + p_rate), 2)
+    else round(p_amount * p_rate / 100, 2)
+  end;
+$$;
+
+create or replace function public.customer_tax_exempt(p_custno text)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce((select tax_exempt from public.customer where custno = nullif(p_custno, '')), false);
+$$;
+
+drop view if exists public.sales_summary;
+drop view if exists public.sales_line_items;
+
+-- amount is the line's share of the sale's total after discounts, in the sale's price
+-- mode. amount_excl_tax and amount_incl_tax split it into net and gross.
+create view public.sales_line_items
+with (security_invoker = true) as
+with priced as (
+  select
+    d.*,
+    coalesce(d.quantity, 0) * coalesce(d.unitprice, 0) as gross_amount,
+    public.discount_amount(coalesce(d.quantity, 0) * coalesce(d.unitprice, 0), d.discount_type, d.discount_value) as line_discount_amount
+  from public.salesdetail d
+),
+subtotals as (
+  select p.*, sum(p.gross_amount - p.line_discount_amount) over (partition by p.transno) as subtotal
+  from priced p
+),
+discounted as (
+  select
+    t.*,
+    s.prices_include_tax,
+    t.gross_amount - t.line_discount_amount - case
+      when t.subtotal > 0 then round(
+        public.discount_amount(t.subtotal, s.discount_type, s.discount_value)
+          * (t.gross_amount - t.line_discount_amount) / t.subtotal, 2)
+      else 0
+    end as amount
+  from subtotals t
+  join public.sales s on s.transno = t.transno
+)
+select
+  x.transno,
+  x.prodcode,
+  x.quantity,
+  x.description,
+  x.unit,
+  x.unitprice,
+  x.discount_type,
+  x.discount_value,
+  x.discount_reason,
+  x.gross_amount,
+  x.line_discount_amount,
+  x.gross_amount - x.line_discount_amount as net_amount,
+  x.amount,
+  x.tax_class,
+  x.tax_rate,
+  x.tax_amount,
+  case when x.prices_include_tax then x.amount - x.tax_amount else x.amount end as amount_excl_tax,
+  case when x.prices_include_tax then x.amount else x.amount + x.tax_amount end as amount_incl_tax
+from discounted x;
+
+-- total_price is what the customer pays: after discounts and including tax.
+create view public.sales_summary
+with (security_invoker = true) as
+select
+  s.transno,
+  s.salesdate,
+  s.custno,
+  s.empno,
+  c.custname,
+  nullif(btrim(coalesce(e.firstname, '') || ' ' || coalesce(e.lastname, '')), '') as empname,
+  s.discount_type,
+  s.discount_value,
+  s.discount_reason,
+  s.prices_include_tax,
+  s.tax_exempt,
+  coalesce(t.gross_total, 0) as gross_total,
+  coalesce(t.line_discount_total, 0) as line_discount_total,
+  o.order_discount_amount,
+  coalesce(t.line_discount_total, 0) + o.order_discount_amount as discount_total,
+  coalesce(t.total_excl_tax, 0) as total_excl_tax,
+  coalesce(t.tax_total, 0) as tax_total,
+  coalesce(t.total_incl_tax, 0) as total_incl_tax,
+  coalesce(t.total_incl_tax, 0) as total_price
+from public.sales s
+left join public.customer c on c.custno = s.custno
+left join public.employee e on e.empno = s.empno
+left join lateral (
+  select
+    sum(li.gross_amount) as gross_total,
+    sum(li.line_discount_amount) as line_discount_total,
+    sum(li.net_amount) as subtotal,
+    sum(li.amount_excl_tax) as total_excl_tax,
+    sum(li.tax_amount) as tax_total,
+    sum(li.amount_incl_tax) as total_incl_tax
+  from public.sales_line_items li
+  where li.transno = s.transno
+) t on true
+cross join lateral (
+  select public.discount_amount(coalesce(t.subtotal, 0), s.discount_type, s.discount_value) as order_discount_amount
+) o;
+
+grant select on public.sales_line_items, public.sales_summary to authenticated;
+
+-- Recomputes the stored tax on every line of a sale from its discounted amount, the
+-- line's snapshotted rate and the header's price mode and exemption.
+create or replace function public.apply_sale_tax(p_transno text)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  update public.salesdetail d
+  set tax_amount = case when s.tax_exempt then 0
+                        else public.tax_amount(li.amount, d.tax_rate, s.prices_include_tax) end
+  from public.sales_line_items li, public.sales s
+  where d.transno = p_transno
+    and li.transno = d.transno
+    and li.prodcode = d.prodcode
+    and s.transno = d.transno;
+end;
+$$;
+
+create or replace function public.save_sale(
+  p_transno text,
+  p_salesdate date,
+  p_custno text,
+  p_empno text,
+  p_details jsonb,
+  p_is_new boolean default true,
+  p_discount jsonb default null
+) returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_perm public.user_permissions%rowtype;
+  v_old_sale public.sales%rowtype;
+  v_new_sale public.sales%rowtype;
+  v_existing public.salesdetail%rowtype;
+  v_written public.salesdetail%rowtype;
+  v_errors jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_prodcode text;
+  v_quantity numeric;
+  v_unit text;
+  v_unitprice numeric;
+  v_discount_type text;
+  v_discount_value numeric;
+  v_discount_reason text;
+  v_gross numeric;
+  v_subtotal numeric := 0;
+  v_message text;
+  v_seen text[] := '{}';
+  v_transno text := p_transno;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You must be signed in to save a transaction')));
+  end if;
+
+  select * into v_perm from public.user_permissions where user_id = v_user_id;
+
+  if not found or (p_is_new and not v_perm.can_add_sales) or (not p_is_new and not v_perm.can_edit_sales) then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message',
+        case when p_is_new then 'You don''t have permission to create sales transactions'
+             else 'You don''t have permission to edit sales transactions' end)));
+  end if;
+
+  -- Header validation
+  if not p_is_new and (p_transno is null or btrim(p_transno) = '') then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction number is required');
+  elsif not p_is_new then
+    select * into v_old_sale from public.sales where transno = p_transno for update;
+    if not found then
+      v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction ' || p_transno || ' no longer exists');
+    end if;
+  end if;
+
+  if p_salesdate is null then
+    v_errors := v_errors || jsonb_build_object('field', 'salesdate', 'message', 'Transaction date is required');
+  end if;
+
+  if nullif(p_custno, '') is not null and not exists (select 1 from public.customer where custno = p_custno) then
+    v_errors := v_errors || jsonb_build_object('field', 'custno', 'message', 'Customer ' || p_custno || ' does not exist');
+  end if;
+
+  if nullif(p_empno, '') is not null and not exists (select 1 from public.employee where empno = p_empno) then
+    v_errors := v_errors || jsonb_build_object('field', 'empno', 'message', 'Employee ' || p_empno || ' does not exist');
+  end if;
+
+  -- Line validation
+  if p_details is null or jsonb_typeof(p_details) <> 'array' or jsonb_array_length(p_details) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'Add at least one product');
+  else
+    for v_line in select * from jsonb_array_elements(p_details) loop
+      v_prodcode := v_line->>'prodcode';
+      v_quantity := nullif(v_line->>'quantity', '')::numeric;
+      v_discount_type := nullif(v_line->>'discount_type', '');
+      v_discount_value := nullif(v_line->>'discount_value', '')::numeric;
+      v_discount_reason := nullif(v_line->>'discount_reason', '');
+
+      if v_prodcode is null or not exists (select 1 from public.product where prodcode = v_prodcode) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Unknown product');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is listed more than once');
+      end if;
+
+      if v_quantity is null or v_quantity <= 0 then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'Quantity must be greater than zero');
+      end if;
+
+      select * into v_existing from public.salesdetail where transno = p_transno and prodcode = v_prodcode and not p_is_new;
+
+      if not found then
+        if not v_perm.can_add_sales_detail then
+          v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'You don''t have permission to add products to a transaction');
+        end if;
+        v_unitprice := public.effective_unit_price(v_prodcode, p_salesdate);
+      else
+        if not v_perm.can_edit_sales_detail and (
+          v_existing.quantity is distinct from v_quantity
+          or v_existing.discount_type is distinct from v_discount_type
+          or v_existing.discount_value is distinct from v_discount_value
+          or v_existing.discount_reason is distinct from v_discount_reason
+        ) then
+          v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'You don''t have permission to change products on a transaction');
+        end if;
+        v_unitprice := v_existing.unitprice;
+      end if;
+
+      v_gross := coalesce(v_quantity, 0) * coalesce(v_unitprice, 0);
+      v_message := public.validate_discount(v_gross, v_discount_type, v_discount_value, v_discount_reason, v_perm.max_discount_percent);
+
+      if v_message is not null then
+        v_errors := v_errors || jsonb_build_object('field', 'discount', 'prodcode', v_prodcode, 'message', v_message);
+      end if;
+
+      v_subtotal := v_subtotal + v_gross - public.discount_amount(v_gross, v_discount_type, v_discount_value);
+      v_seen := v_seen || v_prodcode;
+    end loop;
+
+    if not p_is_new and not v_perm.can_delete_sales_detail and exists (
+      select 1 from public.salesdetail where transno = p_transno and not (prodcode = any(v_seen))
+    ) then
+      v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'You don''t have permission to remove products from a transaction');
+    end if;
+  end if;
+
+  v_discount_type := nullif(p_discount->>'type', '');
+  v_discount_value := nullif(p_discount->>'value', '')::numeric;
+  v_discount_reason := nullif(p_discount->>'reason', '');
+  v_message := public.validate_discount(v_subtotal, v_discount_type, v_discount_value, v_discount_reason, v_perm.max_discount_percent);
+
+  if v_message is not null then
+    v_errors := v_errors || jsonb_build_object('field', 'discount', 'message', v_message);
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', v_errors);
+  end if;
+
+  -- Header
+  if p_is_new then
+    v_transno := public.allocate_transaction_number('sales');
+
+    insert into public.sales (
+      transno, salesdate, custno, empno, discount_type, discount_value, discount_reason, prices_include_tax, tax_exempt
+    )
+    values (
+      v_transno, p_salesdate, nullif(p_custno, ''), nullif(p_empno, ''), v_discount_type, v_discount_value, v_discount_reason,
+      coalesce((select prices_include_tax from public.tax_settings), false), public.customer_tax_exempt(p_custno)
+    )
+    returning * into v_new_sale;
+
+    perform public.write_sales_audit('sales', v_transno, 'created', null, to_jsonb(v_new_sale));
+  else
+    update public.sales
+    set
+      salesdate = p_salesdate,
+      custno = nullif(p_custno, ''),
+      empno = nullif(p_empno, ''),
+      discount_type = v_discount_type,
+      discount_value = v_discount_value,
+      discount_reason = v_discount_reason,
+      tax_exempt = public.customer_tax_exempt(p_custno)
+    where transno = v_transno
+    returning * into v_new_sale;
+
+    perform public.write_sales_audit('sales', v_transno, 'updated', to_jsonb(v_old_sale), to_jsonb(v_new_sale));
+
+    for v_existing in
+      select * from public.salesdetail where transno = v_transno and not (prodcode = any(v_seen))
+    loop
+      delete from public.salesdetail where transno = v_transno and prodcode = v_existing.prodcode;
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_existing.prodcode, 'deleted', to_jsonb(v_existing), null);
+    end loop;
+  end if;
+
+  -- Lines
+  for v_line in select * from jsonb_array_elements(p_details) loop
+    v_prodcode := v_line->>'prodcode';
+    v_quantity := (v_line->>'quantity')::numeric;
+    v_unit := nullif(btrim(v_line->>'unit'), '');
+    v_discount_type := nullif(v_line->>'discount_type', '');
+    v_discount_value := nullif(v_line->>'discount_value', '')::numeric;
+    v_discount_reason := nullif(v_line->>'discount_reason', '');
+
+    select * into v_existing from public.salesdetail where transno = v_transno and prodcode = v_prodcode;
+
+    if not found then
+      insert into public.salesdetail (
+        transno, prodcode, quantity, unitprice, unit, description, discount_type, discount_value, discount_reason,
+        tax_class, tax_rate
+      )
+      select
+        v_transno, v_prodcode, v_quantity, public.effective_unit_price(v_prodcode, p_salesdate),
+        coalesce(v_unit, pr.unit), pr.description, v_discount_type, v_discount_value, v_discount_reason,
+        tc.code, coalesce(tc.rate, 0)
+      from public.product pr
+      left join public.tax_classes tc
+        on tc.code = coalesce(pr.tax_class, (select default_tax_class from public.tax_settings))
+      where pr.prodcode = v_prodcode
+      returning * into v_written;
+
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_prodcode, 'created', null, to_jsonb(v_written));
+    elsif v_existing.quantity is distinct from v_quantity
+      or (v_unit is not null and v_existing.unit is distinct from v_unit)
+      or v_existing.discount_type is distinct from v_discount_type
+      or v_existing.discount_value is distinct from v_discount_value
+      or v_existing.discount_reason is distinct from v_discount_reason then
+      -- The price charged stays as written; only "reprice_sale" changes it
+      update public.salesdetail
+      set
+        quantity = v_quantity,
+        unit = coalesce(v_unit, unit),
+        discount_type = v_discount_type,
+        discount_value = v_discount_value,
+        discount_reason = v_discount_reason
+      where transno = v_transno and prodcode = v_prodcode
+      returning * into v_written;
+
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_prodcode, 'updated', to_jsonb(v_existing), to_jsonb(v_written));
+    end if;
+  end loop;
+
+  perform public.apply_sale_tax(v_transno);
+
+  return jsonb_build_object('ok', true, 'transno', v_transno, 'errors', '[]'::jsonb);
+end;
+$$;
+
+create or replace function public.reprice_sale(p_transno text)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales%rowtype;
+  v_line public.salesdetail%rowtype;
+  v_unitprice numeric;
+  v_changed integer := 0;
+begin
+  if not exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin') then
+    raise exception 'Only administrators can reprice a transaction' using errcode = '42501';
+  end if;
+
+  select * into v_sale from public.sales where transno = p_transno for update;
+
+  if not found then
+    raise exception 'Transaction % does not exist', p_transno using errcode = 'P0002';
+  end if;
+
+  for v_line in select * from public.salesdetail where transno = p_transno loop
+    v_unitprice := public.effective_unit_price(v_line.prodcode, v_sale.salesdate);
+
+    if v_line.unitprice is distinct from v_unitprice then
+      update public.salesdetail set unitprice = v_unitprice
+      where transno = p_transno and prodcode = v_line.prodcode;
+
+      perform public.write_sales_audit('salesdetail', p_transno || '-' || v_line.prodcode, 'updated', to_jsonb(v_line),
+        to_jsonb(v_line) || jsonb_build_object('unitprice', v_unitprice, 'repriced', true));
+
+      v_changed := v_changed + 1;
+    end if;
+  end loop;
+
+  if v_changed > 0 then
+    perform public.apply_sale_tax(p_transno);
+  end if;
+
+  return v_changed;
+end;
+$$;
+
+-- The listing returns every sales_summary and sales_line_items column, so the
+-- breakdowns added to those views reach the page without changing this function.
+create or replace function public.get_sales_page(
+  p_search text default null,
+  p_search_field text default 'all',
+  p_sort_field text default 'transno',
+  p_sort_order text default 'desc',
+  p_limit integer default 25,
+  p_offset integer default 0,
+  p_include_audit boolean default false
+) returns jsonb
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_term text := nullif(btrim(coalesce(p_search, '')), '');
+  v_asc boolean := lower(coalesce(p_sort_order, 'desc')) = 'asc';
+  v_total bigint;
+  v_rows jsonb;
+begin
+  if p_sort_field not in ('transno', 'salesdate', 'custname', 'empname', 'totalPrice') then
+    raise exception 'Unsupported sort field: %', p_sort_field;
+  end if;
+
+  with filtered as (
+    select ss.*
+    from public.sales_summary ss
+    where v_term is null
+      or (p_search_field in ('all', 'transno') and ss.transno ilike '%' || v_term || '%')
+      or (p_search_field in ('all', 'salesdate') and to_char(ss.salesdate, 'Mon DD, YYYY') ilike '%' || v_term || '%')
+      or (p_search_field in ('all', 'custname') and ss.custname ilike '%' || v_term || '%')
+      or (p_search_field in ('all', 'empname') and ss.empname ilike '%' || v_term || '%')
+  ),
+  page as (
+    select f.*, row_number() over (
+      order by
+        case when v_asc and p_sort_field = 'transno' then f.transno end asc,
+        case when not v_asc and p_sort_field = 'transno' then f.transno end desc,
+        case when v_asc and p_sort_field = 'salesdate' then f.salesdate end asc nulls first,
+        case when not v_asc and p_sort_field = 'salesdate' then f.salesdate end desc nulls last,
+        case when v_asc and p_sort_field = 'custname' then coalesce(f.custname, '') end asc,
+        case when not v_asc and p_sort_field = 'custname' then coalesce(f.custname, '') end desc,
+        case when v_asc and p_sort_field = 'empname' then coalesce(f.empname, '') end asc,
+        case when not v_asc and p_sort_field = 'empname' then coalesce(f.empname, '') end desc,
+        case when v_asc and p_sort_field = 'totalPrice' then f.total_price end asc,
+        case when not v_asc and p_sort_field = 'totalPrice' then f.total_price end desc,
+        f.transno desc
+    ) as row_number
+    from filtered f
+    order by row_number
+    limit greatest(coalesce(p_limit, 25), 1)
+    offset greatest(coalesce(p_offset, 0), 0)
+  )
+  select
+    (select count(*) from filtered),
+    coalesce(jsonb_agg(
+      (to_jsonb(pg) - 'row_number') || jsonb_build_object(
+        'line_items', (
+          select coalesce(jsonb_agg(to_jsonb(li) || jsonb_build_object(
+            'created_by', case when p_include_audit then (
+              select a.changed_by_email from public.sales_audit_log a
+              where a.table_name = 'salesdetail' and a.record_id = li.transno || '-' || li.prodcode and a.action = 'created'
+              order by a.created_at desc limit 1) end,
+            'updated_by', case when p_include_audit then (
+              select a.changed_by_email from public.sales_audit_log a
+              where a.table_name = 'salesdetail' and a.record_id = li.transno || '-' || li.prodcode and a.action = 'updated'
+              order by a.created_at desc limit 1) end
+          ) order by li.prodcode), '[]'::jsonb)
+          from public.sales_line_items li
+          where li.transno = pg.transno
+        ),
+        'audit', case when p_include_audit then (
+          select jsonb_build_object(
+            'created_by', (array_agg(a.changed_by_email order by a.created_at desc) filter (where a.action = 'created'))[1],
+            'created_at', max(a.created_at) filter (where a.action = 'created'),
+            'updated_by', (array_agg(a.changed_by_email order by a.created_at desc) filter (where a.action = 'updated'))[1],
+            'updated_at', max(a.created_at) filter (where a.action = 'updated')
+          )
+          from public.sales_audit_log a
+          where a.table_name = 'sales' and a.record_id = pg.transno
+          having count(*) > 0
+        ) end
+      ) order by pg.row_number
+    ), '[]'::jsonb)
+  into v_total, v_rows
+  from page pg;
+
+  return jsonb_build_object('total_count', v_total, 'rows', v_rows);
+end;
+$$;
+
+grant execute on function public.apply_sale_tax(text) to authenticated;
@@ -0,0 +1,472 @@
+-- Returns and credit memos.
+--
+-- A credit memo records goods returned against an earlier sale. It references the
+-- original transno, which stays untouched, and holds one line per returned product with
+-- the quantity and the net and tax amounts credited. Amounts are the returned share of
+-- what the customer actually paid for the line, after discounts.
+--
+-- Memos are numbered from their own "credit_memo" series and are never edited or deleted;
+-- a sale that has memos against it can no longer be deleted.
+
+create table if not exists public.credit_memos (
+  memo_no text primary key,
+  transno text not null references public.sales (transno) on delete restrict,
+  memo_date date not null default current_date,
+  reason text,
+  created_by uuid references auth.users (id),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.credit_memo_lines (
+  memo_no text not null references public.credit_memos (memo_no) on delete cascade,
+  prodcode text not null references public.product (prodcode),
+  quantity numeric not null check (quantity > 0),
+  description text,
+  unit text,
+  unitprice numeric,
+  net_amount numeric not null default 0,
+  tax_amount numeric not null default 0,
+  primary key (memo_no, prodcode)
+);
+
+create index if not exists credit_memos_transno_idx on public.credit_memos (transno);
+
+alter table public.credit_memos enable row level security;
+alter table public.credit_memo_lines enable row level security;
+
+create policy "Authenticated users can read credit memos"
+  on public.credit_memos for select
+  to authenticated
+  using (true);
+
+create policy "Users who can edit sales can create credit memos"
+  on public.credit_memos for insert
+  to authenticated
+  with check (exists (select 1 from public.user_permissions where user_id = auth.uid() and can_edit_sales));
+
+create policy "Authenticated users can read credit memo lines"
+  on public.credit_memo_lines for select
+  to authenticated
+  using (true);
+
+create policy "Users who can edit sales can create credit memo lines"
+  on public.credit_memo_lines for insert
+  to authenticated
+  with check (exists (select 1 from public.user_permissions where user_id = auth.uid() and can_edit_sales));
+
+insert into public.transaction_number_series (series, prefix, padding, next_value)
+values ('credit_memo', 'CM', 6, 1)
+on conflict (series) do nothing;
+
+-- Allocated numbers must not collide with existing credit memos either.
+create or replace function public.allocate_transaction_number(p_series text default 'sales')
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_series public.transaction_number_series%rowtype;
+  v_transno text;
+begin
+  select * into v_series from public.transaction_number_series where series = p_series for update;
+
+  if not found then
+    raise exception 'Unknown transaction number series: %', p_series;
+  end if;
+
+  loop
+    v_transno := public.format_transaction_number(v_series.prefix, v_series.padding, v_series.next_value);
+    v_series.next_value := v_series.next_value + 1;
+    exit when not exists (select 1 from public.sales where transno = v_transno)
+      and not exists (select 1 from public.credit_memos where memo_no = v_transno);
+  end loop;
+
+  update public.transaction_number_series
+  set next_value = v_series.next_value, updated_at = now()
+  where series = p_series;
+
+  return v_transno;
+end;
+$$;
+
+create or replace function public.returned_quantity(p_transno text, p_prodcode text)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(sum(l.quantity), 0)
+  from public.credit_memo_lines l
+  join public.credit_memos m on m.memo_no = l.memo_no
+  where m.transno = p_transno and l.prodcode = p_prodcode;
+$$;
+
+-- p_lines is a JSON array of { prodcode, quantity }. Each quantity is capped at what was
+-- sold less what earlier memos already returned. Returning the last of a line credits
+-- whatever is left of its amounts, so rounding never leaves a stray cent.
+--
+-- Returns { ok, memo_no, errors: [{ field, message, prodcode? }] } in the same shape as
+-- save_sale.
+create or replace function public.create_credit_memo(
+  p_transno text,
+  p_lines jsonb,
+  p_reason text default null,
+  p_memo_date date default current_date
+) returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_perm public.user_permissions%rowtype;
+  v_memo public.credit_memos%rowtype;
+  v_item public.sales_line_items%rowtype;
+  v_errors jsonb := '[]'::jsonb;
+  v_written jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_prodcode text;
+  v_quantity numeric;
+  v_returned numeric;
+  v_net numeric;
+  v_tax numeric;
+  v_seen text[] := '{}';
+  v_memo_no text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('ok', false, 'memo_no', null, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You must be signed in to record a return')));
+  end if;
+
+  select * into v_perm from public.user_permissions where user_id = v_user_id;
+
+  if not found or not v_perm.can_edit_sales then
+    return jsonb_build_object('ok', false, 'memo_no', null, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You don''t have permission to record returns')));
+  end if;
+
+  perform 1 from public.sales where transno = p_transno for update;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'memo_no', null, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'transno', 'message', 'Transaction ' || p_transno || ' no longer exists')));
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'Choose at least one product to return');
+  else
+    for v_line in select * from jsonb_array_elements(p_lines) loop
+      v_prodcode := v_line->>'prodcode';
+      v_quantity := nullif(v_line->>'quantity', '')::numeric;
+
+      select * into v_item from public.sales_line_items where transno = p_transno and prodcode = v_prodcode;
+
+      if not found then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is not on the original sale');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is listed more than once');
+      elsif v_quantity is null or v_quantity <= 0 then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'Return quantity must be greater than zero');
+      else
+        v_returned := public.returned_quantity(p_transno, v_prodcode);
+
+        if v_quantity > coalesce(v_item.quantity, 0) - v_returned then
+          v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message',
+            'Only ' || (coalesce(v_item.quantity, 0) - v_returned) || ' left to return');
+        end if;
+      end if;
+
+      v_seen := v_seen || v_prodcode;
+    end loop;
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('ok', false, 'memo_no', null, 'errors', v_errors);
+  end if;
+
+  v_memo_no := public.allocate_transaction_number('credit_memo');
+
+  insert into public.credit_memos (memo_no, transno, memo_date, reason, created_by)
+  values (v_memo_no, p_transno, coalesce(p_memo_date, current_date), nullif(btrim(p_reason), ''), v_user_id)
+  returning * into v_memo;
+
+  for v_line in select * from jsonb_array_elements(p_lines) loop
+    v_prodcode := v_line->>'prodcode';
+    v_quantity := (v_line->>'quantity')::numeric;
+
+    select * into v_item from public.sales_line_items where transno = p_transno and prodcode = v_prodcode;
+    v_returned := public.returned_quantity(p_transno, v_prodcode);
+
+    if v_quantity = v_item.quantity - v_returned then
+      select
+        v_item.amount_excl_tax - coalesce(sum(l.net_amount), 0),
+        v_item.tax_amount - coalesce(sum(l.tax_amount), 0)
+      into v_net, v_tax
+      from public.credit_memo_lines l
+      join public.credit_memos m on m.memo_no = l.memo_no
+      where m.transno = p_transno and l.prodcode = v_prodcode;
+    else
+      v_net := round(v_item.amount_excl_tax * v_quantity / v_item.quantity, 2);
+      v_tax := round(v_item.tax_amount * v_quantity / v_item.quantity, 2);
+    end if;
+
+    insert into public.credit_memo_lines (memo_no, prodcode, quantity, description, unit, unitprice, net_amount, tax_amount)
+    values (v_memo_no, v_prodcode, v_quantity, v_item.description, v_item.unit, v_item.unitprice, v_net, v_tax);
+
+    v_written := v_written || jsonb_build_object(
+      'prodcode', v_prodcode, 'quantity', v_quantity, 'net_amount', v_net, 'tax_amount', v_tax);
+  end loop;
+
+  perform public.write_sales_audit('credit_memos', v_memo_no, 'created', null,
+    to_jsonb(v_memo) || jsonb_build_object('lines', v_written));
+
+  return jsonb_build_object('ok', true, 'memo_no', v_memo_no, 'errors', '[]'::jsonb);
+end;
+$$;
+
+-- Quantities on a sale can no longer drop below what has been returned against it.
+create or replace function public.save_sale(
+  p_transno text,
+  p_salesdate date,
+  p_custno text,
+  p_empno text,
+  p_details jsonb,
+  p_is_new boolean default true,
+  p_discount jsonb default null
+) returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_perm public.user_permissions%rowtype;
+  v_old_sale public.sales%rowtype;
+  v_new_sale public.sales%rowtype;
+  v_existing public.salesdetail%rowtype;
+  v_written public.salesdetail%rowtype;
+  v_errors jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_prodcode text;
+  v_quantity numeric;
+  v_unit text;
+  v_unitprice numeric;
+  v_discount_type text;
+  v_discount_value numeric;
+  v_discount_reason text;
+  v_gross numeric;
+  v_subtotal numeric := 0;
+  v_message text;
+  v_seen text[] := '{}';
+  v_transno text := p_transno;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You must be signed in to save a transaction')));
+  end if;
+
+  select * into v_perm from public.user_permissions where user_id = v_user_id;
+
+  if not found or (p_is_new and not v_perm.can_add_sales) or (not p_is_new and not v_perm.can_edit_sales) then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message',
+        case when p_is_new then 'You don''t have permission to create sales transactions'
+             else 'You don''t have permission to edit sales transactions' end)));
+  end if;
+
+  -- Header validation
+  if not p_is_new and (p_transno is null or btrim(p_transno) = '') then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction number is required');
+  elsif not p_is_new then
+    select * into v_old_sale from public.sales where transno = p_transno for update;
+    if not found then
+      v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction ' || p_transno || ' no longer exists');
+    end if;
+  end if;
+
+  if p_salesdate is null then
+    v_errors := v_errors || jsonb_build_object('field', 'salesdate', 'message', 'Transaction date is required');
+  end if;
+
+  if nullif(p_custno, '') is not null and not exists (select 1 from public.customer where custno = p_custno) then
+    v_errors := v_errors || jsonb_build_object('field', 'custno', 'message', 'Customer ' || p_custno || ' does not exist');
+  end if;
+
+  if nullif(p_empno, '') is not null and not exists (select 1 from public.employee where empno = p_empno) then
+    v_errors := v_errors || jsonb_build_object('field', 'empno', 'message', 'Employee ' || p_empno || ' does not exist');
+  end if;
+
+  -- Line validation
+  if p_details is null or jsonb_typeof(p_details) <> 'array' or jsonb_array_length(p_details) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'Add at least one product');
+  else
+    for v_line in select * from jsonb_array_elements(p_details) loop
+      v_prodcode := v_line->>'prodcode';
+      v_quantity := nullif(v_line->>'quantity', '')::numeric;
+      v_discount_type := nullif(v_line->>'discount_type', '');
+      v_discount_value := nullif(v_line->>'discount_value', '')::numeric;
+      v_discount_reason := nullif(v_line->>'discount_reason', '');
+
+      if v_prodcode is null or not exists (select 1 from public.product where prodcode = v_prodcode) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Unknown product');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is listed more than once');
+      end if;
+
+      if v_quantity is null or v_quantity <= 0 then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'Quantity must be greater than zero');
+      elsif not p_is_new and v_quantity < public.returned_quantity(p_transno, v_prodcode) then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message',
+          'Quantity cannot be less than the ' || public.returned_quantity(p_transno, v_prodcode) || ' already returned');
+      end if;
+
+      select * into v_existing from public.salesdetail where transno = p_transno and prodcode = v_prodcode and not p_is_new;
+
+      if not found then
+        if not v_perm.can_add_sales_detail then
+          v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'You don''t have permission to add products to a transaction');
+        end if;
+        v_unitprice := public.effective_unit_price(v_prodcode, p_salesdate);
+      else
+        if not v_perm.can_edit_sales_detail and (
+          v_existing.quantity is distinct from v_quantity
+          or v_existing.discount_type is distinct from v_discount_type
+          or v_existing.discount_value is distinct from v_discount_value
+          or v_existing.discount_reason is distinct from v_discount_reason
+        ) then
+          v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'You don''t have permission to change products on a transaction');
+        end if;
+        v_unitprice := v_existing.unitprice;
+      end if;
+
+      v_gross := coalesce(v_quantity, 0) * coalesce(v_unitprice, 0);
+      v_message := public.validate_discount(v_gross, v_discount_type, v_discount_value, v_discount_reason, v_perm.max_discount_percent);
+
+      if v_message is not null then
+        v_errors := v_errors || jsonb_build_object('field', 'discount', 'prodcode', v_prodcode, 'message', v_message);
+      end if;
+
+      v_subtotal := v_subtotal + v_gross - public.discount_amount(v_gross, v_discount_type, v_discount_value);
+      v_seen := v_seen || v_prodcode;
+    end loop;
+
+    if not p_is_new and not v_perm.can_delete_sales_detail and exists (
+      select 1 from public.salesdetail where transno = p_transno and not (prodcode = any(v_seen))
+    ) then
+      v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'You don''t have permission to remove products from a transaction');
+    end if;
+
+    if not p_is_new and exists (
+      select 1 from public.salesdetail
+      where transno = p_transno and not (prodcode = any(v_seen)) and public.returned_quantity(transno, prodcode) > 0
+    ) then
+      v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'Products that have been returned cannot be removed');
+    end if;
+  end if;
+
+  v_discount_type := nullif(p_discount->>'type', '');
+  v_discount_value := nullif(p_discount->>'value', '')::numeric;
+  v_discount_reason := nullif(p_discount->>'reason', '');
+  v_message := public.validate_discount(v_subtotal, v_discount_type, v_discount_value, v_discount_reason, v_perm.max_discount_percent);
+
+  if v_message is not null then
+    v_errors := v_errors || jsonb_build_object('field', 'discount', 'message', v_message);
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', v_errors);
+  end if;
+
+  -- Header
+  if p_is_new then
+    v_transno := public.allocate_transaction_number('sales');
+
+    insert into public.sales (
+      transno, salesdate, custno, empno, discount_type, discount_value, discount_reason, prices_include_tax, tax_exempt
+    )
+    values (
+      v_transno, p_salesdate, nullif(p_custno, ''), nullif(p_empno, ''), v_discount_type, v_discount_value, v_discount_reason,
+      coalesce((select prices_include_tax from public.tax_settings), false), public.customer_tax_exempt(p_custno)
+    )
+    returning * into v_new_sale;
+
+    perform public.write_sales_audit('sales', v_transno, 'created', null, to_jsonb(v_new_sale));
+  else
+    update public.sales
+    set
+      salesdate = p_salesdate,
+      custno = nullif(p_custno, ''),
+      empno = nullif(p_empno, ''),
+      discount_type = v_discount_type,
+      discount_value = v_discount_value,
+      discount_reason = v_discount_reason,
+      tax_exempt = public.customer_tax_exempt(p_custno)
+    where transno = v_transno
+    returning * into v_new_sale;
+
+    perform public.write_sales_audit('sales', v_transno, 'updated', to_jsonb(v_old_sale), to_jsonb(v_new_sale));
+
+    for v_existing in
+      select * from public.salesdetail where transno = v_transno and not (prodcode = any(v_seen))
+    loop
+      delete from public.salesdetail where transno = v_transno and prodcode = v_existing.prodcode;
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_existing.prodcode, 'deleted', to_jsonb(v_existing), null);
+    end loop;
+  end if;
+
+  -- Lines
+  for v_line in select * from jsonb_array_elements(p_details) loop
+    v_prodcode := v_line->>'prodcode';
+    v_quantity := (v_line->>'quantity')::numeric;
+    v_unit := nullif(btrim(v_line->>'unit'), '');
+    v_discount_type := nullif(v_line->>'discount_type', '');
+    v_discount_value := nullif(v_line->>'discount_value', '')::numeric;
+    v_discount_reason := nullif(v_line->>'discount_reason', '');
+
+    select * into v_existing from public.salesdetail where transno = v_transno and prodcode = v_prodcode;
+
+    if not found then
+      insert into public.salesdetail (
+        transno, prodcode, quantity, unitprice, unit, description, discount_type, discount_value, discount_reason,
+        tax_class, tax_rate
+      )
+      select
+        v_transno, v_prodcode, v_quantity, public.effective_unit_price(v_prodcode, p_salesdate),
+        coalesce(v_unit, pr.unit), pr.description, v_discount_type, v_discount_value, v_discount_reason,
+        tc.code, coalesce(tc.rate, 0)
+      from public.product pr
+      left join public.tax_classes tc
+        on tc.code = coalesce(pr.tax_class, (select default_tax_class from public.tax_settings))
+      where pr.prodcode = v_prodcode
+      returning * into v_written;
+
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_prodcode, 'created', null, to_jsonb(v_written));
+    elsif v_existing.quantity is distinct from v_quantity
+      or (v_unit is not null and v_existing.unit is distinct from v_unit)
+      or v_existing.discount_type is distinct from v_discount_type
+      or v_existing.discount_value is distinct from v_discount_value
+      or v_existing.discount_reason is distinct from v_discount_reason then
+      -- The price charged stays as written; only "reprice_sale" changes it
+      update public.salesdetail
+      set
+        quantity = v_quantity,
+        unit = coalesce(v_unit, unit),
+        discount_type = v_discount_type,
+        discount_value = v_discount_value,
+        discount_reason = v_discount_reason
+      where transno = v_transno and prodcode = v_prodcode
+      returning * into v_written;
+
+      perform public.write_sales_audit('salesdetail', v_transno || '-' || v_prodcode, 'updated', to_jsonb(v_existing), to_jsonb(v_written));
+    end if;
+  end loop;
+
+  perform public.apply_sale_tax(v_transno);
+
+  return jsonb_build_object('ok', true, 'transno', v_transno, 'errors', '[]'::jsonb);
+end;
+$$;
+
+grant execute on function public.returned_quantity(text, text) to authenticated;
+grant execute on function public.create_credit_memo(text, jsonb, text, date) to authenticated;
@@ -0,0 +1,176 @@
+-- Bulk import of historical sales.
+--
+-- The import wizard parses a CSV in the browser, groups its rows into sales and sends
+-- them here in batches. Each batch is checked against the master data (customers,
+-- employees, products) first; with p_dry_run nothing is written and the errors are
+-- returned for the report. Otherwise every sale in the batch that passes is written in
+-- one go and those that fail are left out, so a batch never half-imports a sale.
+--
+-- Imported sales keep the price given in the file (legacy prices rarely match the
+-- current price list) and fall back to the price in effect on the sale date. Each one
+-- gets a single audit entry holding the header and its lines.
+
+create or replace function public.import_sales(
+  p_sales jsonb,
+  p_dry_run boolean default true,
+  p_keep_numbers boolean default true
+) returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_perm public.user_permissions%rowtype;
+  v_sale jsonb;
+  v_line jsonb;
+  v_results jsonb := '[]'::jsonb;
+  v_errors jsonb;
+  v_lines jsonb;
+  v_written jsonb;
+  v_new_sale public.sales%rowtype;
+  v_detail public.salesdetail%rowtype;
+  v_ref text;
+  v_transno text;
+  v_salesdate date;
+  v_custno text;
+  v_empno text;
+  v_prodcode text;
+  v_quantity numeric;
+  v_unitprice numeric;
+  v_row int;
+  v_seen text[];
+  v_refs text[] := '{}';
+begin
+  if v_user_id is null then
+    return jsonb_build_object('ok', false, 'results', '[]'::jsonb, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You must be signed in to import sales')));
+  end if;
+
+  select * into v_perm from public.user_permissions where user_id = v_user_id;
+
+  if not found or not v_perm.can_add_sales
+    or not exists (select 1 from public.user_roles where user_id = v_user_id and role = 'admin') then
+    return jsonb_build_object('ok', false, 'results', '[]'::jsonb, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'Only administrators can import sales')));
+  end if;
+
+  if p_sales is null or jsonb_typeof(p_sales) <> 'array' then
+    return jsonb_build_object('ok', false, 'results', '[]'::jsonb, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'Nothing to import')));
+  end if;
+
+  for v_sale in select * from jsonb_array_elements(p_sales) loop
+    v_errors := '[]'::jsonb;
+    v_ref := nullif(btrim(v_sale->>'ref'), '');
+    v_row := nullif(v_sale->>'row', '')::int;
+    v_salesdate := nullif(v_sale->>'salesdate', '')::date;
+    v_custno := nullif(btrim(v_sale->>'custno'), '');
+    v_empno := nullif(btrim(v_sale->>'empno'), '');
+    v_lines := coalesce(v_sale->'lines', '[]'::jsonb);
+    v_seen := '{}';
+
+    -- Header
+    if v_ref is null then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'transno', 'message', 'Transaction number is required');
+    elsif v_ref = any(v_refs) then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'transno', 'message', 'Transaction ' || v_ref || ' appears more than once in this batch');
+    elsif p_keep_numbers and exists (select 1 from public.sales where transno = v_ref) then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'transno', 'message', 'Transaction ' || v_ref || ' already exists');
+    end if;
+
+    if v_salesdate is null then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'salesdate', 'message', 'Transaction date is required');
+    elsif v_salesdate > current_date then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'salesdate', 'message', 'Transaction date is in the future');
+    end if;
+
+    if v_custno is not null and not exists (select 1 from public.customer where custno = v_custno) then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'custno', 'message', 'Customer ' || v_custno || ' does not exist');
+    end if;
+
+    if v_empno is not null and not exists (select 1 from public.employee where empno = v_empno) then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'empno', 'message', 'Employee ' || v_empno || ' does not exist');
+    end if;
+
+    -- Lines
+    if jsonb_typeof(v_lines) <> 'array' or jsonb_array_length(v_lines) = 0 then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'details', 'message', 'The sale has no product lines');
+    else
+      for v_line in select * from jsonb_array_elements(v_lines) loop
+        v_row := nullif(v_line->>'row', '')::int;
+        v_prodcode := nullif(btrim(v_line->>'prodcode'), '');
+        v_quantity := nullif(v_line->>'quantity', '')::numeric;
+        v_unitprice := coalesce(nullif(v_line->>'unitprice', '')::numeric, public.effective_unit_price(v_prodcode, v_salesdate));
+
+        if v_prodcode is null or not exists (select 1 from public.product where prodcode = v_prodcode) then
+          v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'prodcode', 'prodcode', v_prodcode,
+            'message', 'Product ' || coalesce(v_prodcode, '(blank)') || ' does not exist');
+        elsif v_prodcode = any(v_seen) then
+          v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is listed more than once on this sale');
+        elsif v_unitprice is null then
+          v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'unitprice', 'prodcode', v_prodcode, 'message', 'No price given and none in effect on the sale date');
+        end if;
+
+        if v_quantity is null or v_quantity <= 0 then
+          v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'quantity', 'prodcode', v_prodcode, 'message', 'Quantity must be greater than zero');
+        end if;
+
+        if v_unitprice < 0 then
+          v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'unitprice', 'prodcode', v_prodcode, 'message', 'Unit price cannot be negative');
+        end if;
+
+        v_seen := v_seen || v_prodcode;
+      end loop;
+    end if;
+
+    v_refs := v_refs || v_ref;
+    v_transno := null;
+
+    if jsonb_array_length(v_errors) = 0 and not p_dry_run then
+      v_transno := case when p_keep_numbers then v_ref else public.allocate_transaction_number('sales') end;
+      v_written := '[]'::jsonb;
+
+      insert into public.sales (transno, salesdate, custno, empno, prices_include_tax, tax_exempt)
+      values (
+        v_transno, v_salesdate, v_custno, v_empno,
+        coalesce((select prices_include_tax from public.tax_settings), false), public.customer_tax_exempt(v_custno)
+      )
+      returning * into v_new_sale;
+
+      for v_line in select * from jsonb_array_elements(v_lines) loop
+        v_prodcode := btrim(v_line->>'prodcode');
+
+        insert into public.salesdetail (transno, prodcode, quantity, unitprice, unit, description, tax_class, tax_rate)
+        select
+          v_transno, pr.prodcode, (v_line->>'quantity')::numeric,
+          coalesce(nullif(v_line->>'unitprice', '')::numeric, public.effective_unit_price(pr.prodcode, v_salesdate)),
+          coalesce(nullif(btrim(v_line->>'unit'), ''), pr.unit), pr.description,
+          tc.code, coalesce(tc.rate, 0)
+        from public.product pr
+        left join public.tax_classes tc
+          on tc.code = coalesce(pr.tax_class, (select default_tax_class from public.tax_settings))
+        where pr.prodcode = v_prodcode
+        returning * into v_detail;
+
+        v_written := v_written || to_jsonb(v_detail);
+      end loop;
+
+      perform public.apply_sale_tax(v_transno);
+      perform public.write_sales_audit('sales', v_transno, 'created', null,
+        to_jsonb(v_new_sale) || jsonb_build_object('source', 'import', 'legacy_transno', v_ref, 'lines', v_written));
+    end if;
+
+    v_results := v_results || jsonb_build_object(
+      'ref', v_ref,
+      'transno', v_transno,
+      'ok', jsonb_array_length(v_errors) = 0,
+      'errors', v_errors
+    );
+  end loop;
+
+  return jsonb_build_object('ok', true, 'results', v_results, 'errors', '[]'::jsonb);
+end;
+$$;
+
+grant execute on function public.import_sales(jsonb, boolean, boolean) to authenticated;
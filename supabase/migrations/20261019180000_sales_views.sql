@@ -0,0 +1,63 @@
+-- Named saved views of the sales transaction list.
+--
+-- A view stores the list's query string (search, search field, sort and compound filters,
+-- as written by the sales page) under a name. Views belong to the user who saved them and
+-- can be shared so everyone can pick them. Each user may mark one view, their own or a
+-- shared one, to open by default.
+
+create table if not exists public.sales_views (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (btrim(name) <> ''),
+  query text not null default '',
+  shared boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+create table if not exists public.sales_view_preferences (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  default_view_id uuid references public.sales_views (id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.sales_views enable row level security;
+alter table public.sales_view_preferences enable row level security;
+
+create policy "Users can read their own and shared sales views"
+  on public.sales_views for select
+  to authenticated
+  using (user_id = auth.uid() or shared);
+
+create policy "Users can create their own sales views"
+  on public.sales_views for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users can update their own sales views"
+  on public.sales_views for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can delete their own sales views"
+  on public.sales_views for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can read their own sales view preferences"
+  on public.sales_view_preferences for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can create their own sales view preferences"
+  on public.sales_view_preferences for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users can update their own sales view preferences"
+  on public.sales_view_preferences for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,40 @@
+-- Drafts of sales still being built in the transaction dialog.
+--
+-- The sales page autosaves the dialog (date, customer, employee, products and discounts)
+-- while a new sale is being entered, so a closed tab or a crash loses nothing. A draft
+-- belongs to the user who started it and is only visible to them. Drafts live apart from
+-- sales and sales_summary, so no list, report or dashboard total counts them; a draft is
+-- removed once the sale is saved through save_sale.
+
+create table if not exists public.sale_drafts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  payload jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists sale_drafts_user_id_idx on public.sale_drafts (user_id, updated_at desc);
+
+alter table public.sale_drafts enable row level security;
+
+create policy "Users can read their own sale drafts"
+  on public.sale_drafts for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can create their own sale drafts"
+  on public.sale_drafts for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users can update their own sale drafts"
+  on public.sale_drafts for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can delete their own sale drafts"
+  on public.sale_drafts for delete
+  to authenticated
+  using (user_id = auth.uid());
@@ -0,0 +1,243 @@
+-- Recurring sale templates for standing orders.
+--
+-- A template holds a customer, an optional salesperson, a set of products with quantities
+-- and a recurrence: daily, weekly or monthly from a start date, optionally until an end
+-- date. generate_due_sales() turns every occurrence that has come due into a real sale,
+-- priced from price history as of the occurrence date and numbered from the 'sales'
+-- series, and links it back to its template through sales.template_id. Missed occurrences
+-- are caught up in order. An occurrence that cannot be priced is retried on the next run
+-- and the reason is kept in last_error.
+--
+-- pg_cron runs the generator every night where the extension is available; admins can
+-- also run it from the templates page.
+
+create table if not exists public.sale_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (btrim(name) <> ''),
+  custno text not null references public.customer (custno),
+  empno text references public.employee (empno),
+  frequency text not null check (frequency in ('daily', 'weekly', 'monthly')),
+  start_date date not null,
+  end_date date,
+  -- Occurrences generated so far; the next one falls this many periods after start_date
+  generated_count integer not null default 0,
+  next_run date not null,
+  active boolean not null default true,
+  last_error text,
+  created_by uuid default auth.uid() references auth.users (id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_date is null or end_date >= start_date)
+);
+
+create table if not exists public.sale_template_lines (
+  template_id uuid not null references public.sale_templates (id) on delete cascade,
+  prodcode text not null references public.product (prodcode),
+  quantity numeric not null check (quantity > 0),
+  primary key (template_id, prodcode)
+);
+
+create index if not exists sale_templates_next_run_idx on public.sale_templates (next_run) where active;
+
+alter table public.sales
+  add column if not exists template_id uuid references public.sale_templates (id) on delete set null;
+
+alter table public.sale_templates enable row level security;
+alter table public.sale_template_lines enable row level security;
+
+create policy "Authenticated users can read sale templates"
+  on public.sale_templates for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage sale templates"
+  on public.sale_templates for all
+  to authenticated
+  using (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'));
+
+create policy "Authenticated users can read sale template lines"
+  on public.sale_template_lines for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage sale template lines"
+  on public.sale_template_lines for all
+  to authenticated
+  using (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'));
+
+drop view if exists public.sales_summary;
+
+-- total_price is what the customer pays: after discounts and including tax.
+create view public.sales_summary
+with (security_invoker = true) as
+select
+  s.transno,
+  s.salesdate,
+  s.custno,
+  s.empno,
+  c.custname,
+  nullif(btrim(coalesce(e.firstname, '') || ' ' || coalesce(e.lastname, '')), '') as empname,
+  s.discount_type,
+  s.discount_value,
+  s.discount_reason,
+  s.prices_include_tax,
+  s.tax_exempt,
+  coalesce(t.gross_total, 0) as gross_total,
+  coalesce(t.line_discount_total, 0) as line_discount_total,
+  o.order_discount_amount,
+  coalesce(t.line_discount_total, 0) + o.order_discount_amount as discount_total,
+  coalesce(t.total_excl_tax, 0) as total_excl_tax,
+  coalesce(t.tax_total, 0) as tax_total,
+  coalesce(t.total_incl_tax, 0) as total_incl_tax,
+  coalesce(t.total_incl_tax, 0) as total_price,
+  s.deleted_at,
+  s.deleted_by,
+  p.email as deleted_by_email,
+  s.template_id,
+  st.name as template_name
+from public.sales s
+left join public.customer c on c.custno = s.custno
+left join public.employee e on e.empno = s.empno
+left join public.profiles p on p.id = s.deleted_by
+left join public.sale_templates st on st.id = s.template_id
+left join lateral (
+  select
+    sum(li.gross_amount) as gross_total,
+    sum(li.line_discount_amount) as line_discount_total,
+    sum(li.net_amount) as subtotal,
+    sum(li.amount_excl_tax) as total_excl_tax,
+    sum(li.tax_amount) as tax_total,
+    sum(li.amount_incl_tax) as total_incl_tax
+  from public.sales_line_items li
+  where li.transno = s.transno
+) t on true
+cross join lateral (
+  select public.discount_amount(coalesce(t.subtotal, 0), s.discount_type, s.discount_value) as order_discount_amount
+) o;
+
+grant select on public.sales_summary to authenticated;
+
+-- Date of a template's nth occurrence, counting the start date as occurrence 0. Monthly
+-- occurrences keep the start date's day, falling back to the month's last day.
+create or replace function public.sale_template_occurrence(p_frequency text, p_start date, p_n integer)
+returns date
+language sql
+immutable
+as $$
+  select (p_start + p_n * case p_frequency
+    when 'daily' then interval '1 day'
+    when 'weekly' then interval '7 days'
+    else interval '1 month'
+  end)::date;
+$$;
+
+-- Returns the number of sales created. Runs as the table owner so the nightly job can
+-- write sales without a signed-in user; signed-in callers must be admins.
+create or replace function public.generate_due_sales(p_today date default current_date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_template public.sale_templates%rowtype;
+  v_run date;
+  v_transno text;
+  v_new_sale public.sales%rowtype;
+  v_detail public.salesdetail%rowtype;
+  v_written jsonb;
+  v_unpriced text;
+  v_created integer := 0;
+begin
+  if auth.uid() is not null
+    and not exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin') then
+    raise exception 'Only administrators can generate sales from templates' using errcode = '42501';
+  end if;
+
+  for v_template in
+    select * from public.sale_templates
+    where active and next_run <= p_today and (end_date is null or next_run <= end_date)
+    order by next_run, id
+    for update skip locked
+  loop
+    v_run := v_template.next_run;
+
+    while v_run <= p_today and (v_template.end_date is null or v_run <= v_template.end_date) loop
+      select string_agg(l.prodcode, ', ' order by l.prodcode) into v_unpriced
+      from public.sale_template_lines l
+      where l.template_id = v_template.id and public.effective_unit_price(l.prodcode, v_run) is null;
+
+      if v_unpriced is not null then
+        update public.sale_templates
+        set last_error = 'No price in effect on ' || v_run || ' for ' || v_unpriced, updated_at = now()
+        where id = v_template.id;
+        exit;
+      end if;
+
+      if not exists (select 1 from public.sale_template_lines where template_id = v_template.id) then
+        update public.sale_templates
+        set last_error = 'The template has no products', updated_at = now()
+        where id = v_template.id;
+        exit;
+      end if;
+
+      v_transno := public.allocate_transaction_number('sales');
+      v_written := '[]'::jsonb;
+
+      insert into public.sales (transno, salesdate, custno, empno, prices_include_tax, tax_exempt, template_id)
+      values (
+        v_transno, v_run, v_template.custno, v_template.empno,
+        coalesce((select prices_include_tax from public.tax_settings), false),
+        public.customer_tax_exempt(v_template.custno), v_template.id
+      )
+      returning * into v_new_sale;
+
+      for v_detail in
+        insert into public.salesdetail (transno, prodcode, quantity, unitprice, unit, description, tax_class, tax_rate)
+        select
+          v_transno, pr.prodcode, l.quantity, public.effective_unit_price(pr.prodcode, v_run),
+          pr.unit, pr.description, tc.code, coalesce(tc.rate, 0)
+        from public.sale_template_lines l
+        join public.product pr on pr.prodcode = l.prodcode
+        left join public.tax_classes tc
+          on tc.code = coalesce(pr.tax_class, (select default_tax_class from public.tax_settings))
+        where l.template_id = v_template.id
+        returning *
+      loop
+        v_written := v_written || to_jsonb(v_detail);
+      end loop;
+
+      perform public.apply_sale_tax(v_transno);
+      perform public.write_sales_audit('sales', v_transno, 'created', null,
+        to_jsonb(v_new_sale) || jsonb_build_object('source', 'template', 'template_id', v_template.id, 'lines', v_written));
+
+      v_created := v_created + 1;
+      v_template.generated_count := v_template.generated_count + 1;
+      v_run := public.sale_template_occurrence(v_template.frequency, v_template.start_date, v_template.generated_count);
+
+      update public.sale_templates
+      set generated_count = v_template.generated_count,
+          next_run = v_run,
+          last_error = null,
+          updated_at = now()
+      where id = v_template.id;
+    end loop;
+  end loop;
+
+  return v_created;
+end;
+$$;
+
+revoke execute on function public.generate_due_sales(date) from public, anon;
+grant execute on function public.generate_due_sales(date) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_available_extensions where name = 'pg_cron') then
+    create extension if not exists pg_cron;
+    perform cron.schedule('generate-due-sales', '15 0 * * *', 'select public.generate_due_sales()');
+  end if;
+end;
+$$;
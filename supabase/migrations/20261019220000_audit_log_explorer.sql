@@ -0,0 +1,9 @@
+-- Indexes for the admin audit log page.
+--
+-- The page pages through sales_audit_log newest first, optionally narrowed by table,
+-- action or a date range, and the audit dialog on the sales page now loads one
+-- transaction's entries on demand instead of the whole log.
+
+create index if not exists sales_audit_log_created_idx on public.sales_audit_log (created_at desc, id);
+create index if not exists sales_audit_log_action_created_idx on public.sales_audit_log (action, created_at desc);
+create index if not exists sales_audit_log_new_transno_idx on public.sales_audit_log ((new_data ->> 'transno'));
@@ -0,0 +1,191 @@
+-- Audit rows are written by triggers instead of by the browser and the RPCs.
+--
+-- Every insert, update and delete on the audited tables now leaves a row in
+-- sales_audit_log with the authenticated user, whether it came from the app, an RPC, a
+-- scheduled job or the SQL editor. Clients can no longer write to the log at all, and
+-- nobody can change or remove a row once it is there.
+
+-- Row key as the audit log records it: the trigger arguments name the key columns,
+-- joined with '-' (e.g. transno-prodcode for a line item).
+create or replace function public.audit_record_id(p_row jsonb, p_key_columns text[])
+returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select string_agg(p_row ->> k.col, '-' order by k.ord)
+  from unnest(p_key_columns) with ordinality as k(col, ord);
+$$;
+
+create or replace function public.insert_audit_row(
+  p_table_name text,
+  p_record_id text,
+  p_action text,
+  p_old_data jsonb,
+  p_new_data jsonb
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_user_email text;
+begin
+  select email into v_user_email from public.profiles where id = v_user_id;
+
+  insert into public.sales_audit_log (table_name, record_id, action, changed_by, changed_by_email, old_data, new_data)
+  values (
+    p_table_name, p_record_id, p_action, v_user_id,
+    coalesce(v_user_email, case when v_user_id is null then 'System' else 'Unknown user' end),
+    p_old_data, p_new_data
+  );
+end;
+$$;
+
+-- Soft deletes and restores are logged as 'deleted' and 'restored'; deleting a row
+-- that was already in the recycle bin is a purge. Updates that only touch derived
+-- columns (the stored tax, updated_at) are not logged.
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end;
+  v_new jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end;
+  v_action text;
+begin
+  if tg_op = 'INSERT' then
+    v_action := 'created';
+  elsif tg_op = 'DELETE' then
+    v_action := case when v_old ->> 'deleted_at' is not null then 'purged' else 'deleted' end;
+  elsif v_old - array['tax_amount', 'updated_at'] = v_new - array['tax_amount', 'updated_at'] then
+    return null;
+  elsif v_old ->> 'deleted_at' is null and v_new ->> 'deleted_at' is not null then
+    v_action := 'deleted';
+  elsif v_old ->> 'deleted_at' is not null and v_new ->> 'deleted_at' is null then
+    v_action := 'restored';
+  else
+    v_action := 'updated';
+  end if;
+
+  perform public.insert_audit_row(
+    tg_table_name,
+    public.audit_record_id(coalesce(v_new, v_old), tg_argv::text[]),
+    v_action,
+    v_old,
+    v_new
+  );
+
+  return null;
+end;
+$$;
+
+-- A credit memo is logged once with its lines, so the trigger waits for the end of the
+-- transaction, after create_credit_memo has written them.
+create or replace function public.audit_credit_memo()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.insert_audit_row(
+    'credit_memos',
+    new.memo_no,
+    'created',
+    null,
+    to_jsonb(new) || jsonb_build_object('lines', (
+      select coalesce(jsonb_agg(to_jsonb(l) order by l.prodcode), '[]'::jsonb)
+      from public.credit_memo_lines l where l.memo_no = new.memo_no))
+  );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists audit_sales on public.sales;
+create trigger audit_sales
+  after insert or update or delete on public.sales
+  for each row execute function public.audit_row_change('transno');
+
+drop trigger if exists audit_salesdetail on public.salesdetail;
+create trigger audit_salesdetail
+  after insert or update or delete on public.salesdetail
+  for each row execute function public.audit_row_change('transno', 'prodcode');
+
+drop trigger if exists audit_pricehist on public.pricehist;
+create trigger audit_pricehist
+  after insert or update or delete on public.pricehist
+  for each row execute function public.audit_row_change('prodcode', 'effdate');
+
+drop trigger if exists audit_customer on public.customer;
+create trigger audit_customer
+  after insert or update or delete on public.customer
+  for each row execute function public.audit_row_change('custno');
+
+drop trigger if exists audit_product on public.product;
+create trigger audit_product
+  after insert or update or delete on public.product
+  for each row execute function public.audit_row_change('prodcode');
+
+drop trigger if exists audit_user_roles on public.user_roles;
+create trigger audit_user_roles
+  after insert or update or delete on public.user_roles
+  for each row execute function public.audit_row_change('user_id', 'role');
+
+drop trigger if exists audit_user_permissions on public.user_permissions;
+create trigger audit_user_permissions
+  after insert or update or delete on public.user_permissions
+  for each row execute function public.audit_row_change('user_id');
+
+drop trigger if exists audit_credit_memos on public.credit_memos;
+create constraint trigger audit_credit_memos
+  after insert on public.credit_memos
+  deferrable initially deferred
+  for each row execute function public.audit_credit_memo();
+
+-- The RPCs still call this; the triggers above now write the rows it used to.
+create or replace function public.write_sales_audit(
+  p_table_name text,
+  p_record_id text,
+  p_action text,
+  p_old_data jsonb,
+  p_new_data jsonb
+) returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  return;
+end;
+$$;
+
+-- Rows only come from the triggers, and stay as they were written.
+create or replace function public.prevent_audit_log_change()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  raise exception 'Audit log entries cannot be changed or removed' using errcode = '42501';
+end;
+$$;
+
+drop trigger if exists sales_audit_log_immutable on public.sales_audit_log;
+create trigger sales_audit_log_immutable
+  before update or delete on public.sales_audit_log
+  for each row execute function public.prevent_audit_log_change();
+
+drop trigger if exists sales_audit_log_no_truncate on public.sales_audit_log;
+create trigger sales_audit_log_no_truncate
+  before truncate on public.sales_audit_log
+  for each statement execute function public.prevent_audit_log_change();
+
+revoke insert, update, delete, truncate on public.sales_audit_log from public, anon, authenticated;
+revoke execute on function public.insert_audit_row(text, text, text, jsonb, jsonb) from public, anon, authenticated;
+revoke execute on function public.audit_row_change() from public, anon, authenticated;
+revoke execute on function public.audit_credit_memo() from public, anon, authenticated;
@@ -0,0 +1,140 @@
+-- Live updates for the sales list.
+--
+-- sales and salesdetail are published to Supabase Realtime so an open sales page hears
+-- about changes made by other users. get_sales_page takes a "transnos" filter so the
+-- page can re-read just the sales that changed, with its current search and filters
+-- applied, instead of reloading the whole page.
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'sales'
+    ) then
+      alter publication supabase_realtime add table public.sales;
+    end if;
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'salesdetail'
+    ) then
+      alter publication supabase_realtime add table public.salesdetail;
+    end if;
+  end if;
+end;
+$$;
+
+-- p_filters also accepts "transnos", a JSON array of transaction numbers to limit the
+-- result to.
+create or replace function public.get_sales_page(
+  p_search text default null,
+  p_search_field text default 'all',
+  p_sort_field text default 'transno',
+  p_sort_order text default 'desc',
+  p_limit integer default 25,
+  p_offset integer default 0,
+  p_include_audit boolean default false,
+  p_filters jsonb default '{}'::jsonb
+) returns jsonb
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_term text := nullif(btrim(coalesce(p_search, '')), '');
+  v_asc boolean := lower(coalesce(p_sort_order, 'desc')) = 'asc';
+  v_filters jsonb := coalesce(p_filters, '{}'::jsonb);
+  v_date_from date := nullif(v_filters->>'date_from', '')::date;
+  v_date_to date := nullif(v_filters->>'date_to', '')::date;
+  v_min_total numeric := nullif(v_filters->>'min_total', '')::numeric;
+  v_max_total numeric := nullif(v_filters->>'max_total', '')::numeric;
+  v_custno text := nullif(v_filters->>'custno', '');
+  v_empno text := nullif(v_filters->>'empno', '');
+  v_prodcode text := nullif(v_filters->>'prodcode', '');
+  v_deleted boolean := coalesce((v_filters->>'deleted')::boolean, false);
+  v_transnos text[] := case when jsonb_typeof(v_filters->'transnos') = 'array'
+                            then array(select jsonb_array_elements_text(v_filters->'transnos')) end;
+  v_total bigint;
+  v_rows jsonb;
+begin
+  if p_sort_field not in ('transno', 'salesdate', 'custname', 'empname', 'totalPrice') then
+    raise exception 'Unsupported sort field: %', p_sort_field;
+  end if;
+
+  with filtered as (
+    select ss.*
+    from public.sales_summary ss
+    where (case when v_deleted then ss.deleted_at is not null else ss.deleted_at is null end)
+      and (v_term is null
+      or (p_search_field in ('all', 'transno') and ss.transno ilike '%' || v_term || '%')
+      or (p_search_field in ('all', 'salesdate') and to_char(ss.salesdate, 'Mon DD, YYYY') ilike '%' || v_term || '%')
+      or (p_search_field in ('all', 'custname') and ss.custname ilike '%' || v_term || '%')
+      or (p_search_field in ('all', 'empname') and ss.empname ilike '%' || v_term || '%'))
+      and (v_date_from is null or ss.salesdate >= v_date_from)
+      and (v_date_to is null or ss.salesdate <= v_date_to)
+      and (v_min_total is null or ss.total_price >= v_min_total)
+      and (v_max_total is null or ss.total_price <= v_max_total)
+      and (v_custno is null or ss.custno = v_custno)
+      and (v_empno is null or ss.empno = v_empno)
+      and (v_prodcode is null or exists (
+        select 1 from public.salesdetail d where d.transno = ss.transno and d.prodcode = v_prodcode))
+      and (v_transnos is null or ss.transno = any(v_transnos))
+  ),
+  page as (
+    select f.*, row_number() over (
+      order by
+        case when v_asc and p_sort_field = 'transno' then f.transno end asc,
+        case when not v_asc and p_sort_field = 'transno' then f.transno end desc,
+        case when v_asc and p_sort_field = 'salesdate' then f.salesdate end asc nulls first,
+        case when not v_asc and p_sort_field = 'salesdate' then f.salesdate end desc nulls last,
+        case when v_asc and p_sort_field = 'custname' then coalesce(f.custname, '') end asc,
+        case when not v_asc and p_sort_field = 'custname' then coalesce(f.custname, '') end desc,
+        case when v_asc and p_sort_field = 'empname' then coalesce(f.empname, '') end asc,
+        case when not v_asc and p_sort_field = 'empname' then coalesce(f.empname, '') end desc,
+        case when v_asc and p_sort_field = 'totalPrice' then f.total_price end asc,
+        case when not v_asc and p_sort_field = 'totalPrice' then f.total_price end desc,
+        f.transno desc
+    ) as row_number
+    from filtered f
+    order by row_number
+    limit greatest(coalesce(p_limit, 25), 1)
+    offset greatest(coalesce(p_offset, 0), 0)
+  )
+  select
+    (select count(*) from filtered),
+    coalesce(jsonb_agg(
+      (to_jsonb(pg) - 'row_number') || jsonb_build_object(
+        'line_items', (
+          select coalesce(jsonb_agg(to_jsonb(li) || jsonb_build_object(
+            'created_by', case when p_include_audit then (
+              select a.changed_by_email from public.sales_audit_log a
+              where a.table_name = 'salesdetail' and a.record_id = li.transno || '-' || li.prodcode and a.action = 'created'
+              order by a.created_at desc limit 1) end,
+            'updated_by', case when p_include_audit then (
+              select a.changed_by_email from public.sales_audit_log a
+              where a.table_name = 'salesdetail' and a.record_id = li.transno || '-' || li.prodcode and a.action = 'updated'
+              order by a.created_at desc limit 1) end
+          ) order by li.prodcode), '[]'::jsonb)
+          from public.sales_line_items li
+          where li.transno = pg.transno
+        ),
+        'audit', case when p_include_audit then (
+          select jsonb_build_object(
+            'created_by', (array_agg(a.changed_by_email order by a.created_at desc) filter (where a.action = 'created'))[1],
+            'created_at', max(a.created_at) filter (where a.action = 'created'),
+            'updated_by', (array_agg(a.changed_by_email order by a.created_at desc) filter (where a.action = 'updated'))[1],
+            'updated_at', max(a.created_at) filter (where a.action = 'updated')
+          )
+          from public.sales_audit_log a
+          where a.table_name = 'sales' and a.record_id = pg.transno
+          having count(*) > 0
+        ) end
+      ) order by pg.row_number
+    ), '[]'::jsonb)
+  into v_total, v_rows
+  from page pg;
+
+  return jsonb_build_object('total_count', v_total, 'rows', v_rows);
+end;
+$$;
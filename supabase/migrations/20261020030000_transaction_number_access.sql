@@ -0,0 +1,642 @@
+-- Transaction numbers can only be allocated by the RPCs that create records.
+--
+-- allocate_transaction_number is security definer and was callable by any signed-in
+-- user over the API, who could burn numbers and leave gaps in a series. It moves to a
+-- "private" schema the API does not expose. The creating RPCs run as the caller, so
+-- authenticated keeps execute on it, but only from inside those functions.
+--
+-- The sales series was seeded from the text-wise highest transno, where 'TR999' sorts
+-- above 'TR1000'. Each series now carries on after the highest numeric suffix in use.
+
+create schema if not exists private;
+revoke all on schema private from public;
+grant usage on schema private to authenticated;
+
+create or replace function private.allocate_transaction_number(p_series text default 'sales')
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_series public.transaction_number_series%rowtype;
+  v_transno text;
+begin
+  select * into v_series from public.transaction_number_series where series = p_series for update;
+
+  if not found then
+    raise exception 'Unknown transaction number series: %', p_series;
+  end if;
+
+  loop
+    v_transno := public.format_transaction_number(v_series.prefix, v_series.padding, v_series.next_value);
+    v_series.next_value := v_series.next_value + 1;
+    exit when not exists (select 1 from public.sales where transno = v_transno)
+      and not exists (select 1 from public.credit_memos where memo_no = v_transno);
+  end loop;
+
+  update public.transaction_number_series
+  set next_value = v_series.next_value, updated_at = now()
+  where series = p_series;
+
+  return v_transno;
+end;
+$$;
+
+revoke execute on function private.allocate_transaction_number(text) from public, anon;
+grant execute on function private.allocate_transaction_number(text) to authenticated;
+
+create or replace function public.save_sale(
+  p_transno text,
+  p_salesdate date,
+  p_custno text,
+  p_empno text,
+  p_details jsonb,
+  p_is_new boolean default true,
+  p_discount jsonb default null
+) returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_perm public.user_permissions%rowtype;
+  v_old_sale public.sales%rowtype;
+  v_existing public.salesdetail%rowtype;
+  v_errors jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_prodcode text;
+  v_quantity numeric;
+  v_unit text;
+  v_unitprice numeric;
+  v_discount_type text;
+  v_discount_value numeric;
+  v_discount_reason text;
+  v_gross numeric;
+  v_subtotal numeric := 0;
+  v_message text;
+  v_seen text[] := '{}';
+  v_transno text := p_transno;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You must be signed in to save a transaction')));
+  end if;
+
+  select * into v_perm from public.user_permissions where user_id = v_user_id;
+
+  if not found or (p_is_new and not v_perm.can_add_sales) or (not p_is_new and not v_perm.can_edit_sales) then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message',
+        case when p_is_new then 'You don''t have permission to create sales transactions'
+             else 'You don''t have permission to edit sales transactions' end)));
+  end if;
+
+  -- Header validation
+  if not p_is_new and (p_transno is null or btrim(p_transno) = '') then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction number is required');
+  elsif not p_is_new then
+    select * into v_old_sale from public.sales where transno = p_transno and deleted_at is null for update;
+    if not found then
+      v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction ' || p_transno || ' no longer exists');
+    end if;
+  end if;
+
+  if p_salesdate is null then
+    v_errors := v_errors || jsonb_build_object('field', 'salesdate', 'message', 'Transaction date is required');
+  end if;
+
+  if nullif(p_custno, '') is not null and not exists (select 1 from public.customer where custno = p_custno) then
+    v_errors := v_errors || jsonb_build_object('field', 'custno', 'message', 'Customer ' || p_custno || ' does not exist');
+  end if;
+
+  if nullif(p_empno, '') is not null and not exists (select 1 from public.employee where empno = p_empno) then
+    v_errors := v_errors || jsonb_build_object('field', 'empno', 'message', 'Employee ' || p_empno || ' does not exist');
+  end if;
+
+  -- Line validation
+  if p_details is null or jsonb_typeof(p_details) <> 'array' or jsonb_array_length(p_details) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'Add at least one product');
+  else
+    for v_line in select * from jsonb_array_elements(p_details) loop
+      v_prodcode := v_line->>'prodcode';
+      v_quantity := public.to_numeric_or_null(v_line->>'quantity');
+      v_discount_type := nullif(v_line->>'discount_type', '');
+      v_discount_value := public.to_numeric_or_null(v_line->>'discount_value');
+      v_discount_reason := nullif(v_line->>'discount_reason', '');
+
+      if v_prodcode is null or not exists (select 1 from public.product where prodcode = v_prodcode) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Unknown product');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is listed more than once');
+      end if;
+
+      if v_quantity is null and nullif(btrim(v_line->>'quantity'), '') is not null then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'Quantity must be a number');
+      elsif v_quantity is null or v_quantity <= 0 then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'Quantity must be greater than zero');
+      elsif not p_is_new and v_quantity < public.returned_quantity(p_transno, v_prodcode) then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message',
+          'Quantity cannot be less than the ' || public.returned_quantity(p_transno, v_prodcode) || ' already returned');
+      end if;
+
+      select * into v_existing from public.salesdetail where transno = p_transno and prodcode = v_prodcode and not p_is_new;
+
+      if not found then
+        if not v_perm.can_add_sales_detail then
+          v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'You don''t have permission to add products to a transaction');
+        end if;
+        v_unitprice := public.effective_unit_price(v_prodcode, p_salesdate);
+      else
+        if not v_perm.can_edit_sales_detail and (
+          v_existing.quantity is distinct from v_quantity
+          or v_existing.discount_type is distinct from v_discount_type
+          or v_existing.discount_value is distinct from v_discount_value
+          or v_existing.discount_reason is distinct from v_discount_reason
+        ) then
+          v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'You don''t have permission to change products on a transaction');
+        end if;
+        v_unitprice := v_existing.unitprice;
+      end if;
+
+      if v_discount_value is null and nullif(btrim(v_line->>'discount_value'), '') is not null then
+        v_errors := v_errors || jsonb_build_object('field', 'discount', 'prodcode', v_prodcode, 'message', 'Discount must be a number');
+      end if;
+
+      v_gross := coalesce(v_quantity, 0) * coalesce(v_unitprice, 0);
+      v_message := public.validate_discount(v_gross, v_discount_type, v_discount_value, v_discount_reason, v_perm.max_discount_percent);
+
+      if v_message is not null then
+        v_errors := v_errors || jsonb_build_object('field', 'discount', 'prodcode', v_prodcode, 'message', v_message);
+      end if;
+
+      v_subtotal := v_subtotal + v_gross - public.discount_amount(v_gross, v_discount_type, v_discount_value);
+      v_seen := v_seen || v_prodcode;
+    end loop;
+
+    if not p_is_new and not v_perm.can_delete_sales_detail and exists (
+      select 1 from public.salesdetail where transno = p_transno and not (prodcode = any(v_seen))
+    ) then
+      v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'You don''t have permission to remove products from a transaction');
+    end if;
+
+    if not p_is_new and exists (
+      select 1 from public.salesdetail
+      where transno = p_transno and not (prodcode = any(v_seen)) and public.returned_quantity(transno, prodcode) > 0
+    ) then
+      v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'Products that have been returned cannot be removed');
+    end if;
+  end if;
+
+  v_discount_type := nullif(p_discount->>'type', '');
+  v_discount_value := public.to_numeric_or_null(p_discount->>'value');
+  v_discount_reason := nullif(p_discount->>'reason', '');
+  v_message := public.validate_discount(v_subtotal, v_discount_type, v_discount_value, v_discount_reason, v_perm.max_discount_percent);
+
+  if v_discount_value is null and nullif(btrim(p_discount->>'value'), '') is not null then
+    v_errors := v_errors || jsonb_build_object('field', 'discount', 'message', 'Discount must be a number');
+  elsif v_message is not null then
+    v_errors := v_errors || jsonb_build_object('field', 'discount', 'message', v_message);
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('ok', false, 'transno', p_transno, 'errors', v_errors);
+  end if;
+
+  -- Header
+  if p_is_new then
+    v_transno := private.allocate_transaction_number('sales');
+
+    insert into public.sales (
+      transno, salesdate, custno, empno, discount_type, discount_value, discount_reason, prices_include_tax, tax_exempt
+    )
+    values (
+      v_transno, p_salesdate, nullif(p_custno, ''), nullif(p_empno, ''), v_discount_type, v_discount_value, v_discount_reason,
+      coalesce((select prices_include_tax from public.tax_settings), false), public.customer_tax_exempt(p_custno)
+    );
+  else
+    update public.sales
+    set
+      salesdate = p_salesdate,
+      custno = nullif(p_custno, ''),
+      empno = nullif(p_empno, ''),
+      discount_type = v_discount_type,
+      discount_value = v_discount_value,
+      discount_reason = v_discount_reason,
+      tax_exempt = public.customer_tax_exempt(p_custno)
+    where transno = v_transno;
+
+    delete from public.salesdetail where transno = v_transno and not (prodcode = any(v_seen));
+  end if;
+
+  -- Lines
+  for v_line in select * from jsonb_array_elements(p_details) loop
+    v_prodcode := v_line->>'prodcode';
+    v_quantity := public.to_numeric_or_null(v_line->>'quantity');
+    v_unit := nullif(btrim(v_line->>'unit'), '');
+    v_discount_type := nullif(v_line->>'discount_type', '');
+    v_discount_value := public.to_numeric_or_null(v_line->>'discount_value');
+    v_discount_reason := nullif(v_line->>'discount_reason', '');
+
+    select * into v_existing from public.salesdetail where transno = v_transno and prodcode = v_prodcode;
+
+    if not found then
+      insert into public.salesdetail (
+        transno, prodcode, quantity, unitprice, unit, description, discount_type, discount_value, discount_reason,
+        tax_class, tax_rate
+      )
+      select
+        v_transno, v_prodcode, v_quantity, public.effective_unit_price(v_prodcode, p_salesdate),
+        coalesce(v_unit, pr.unit), pr.description, v_discount_type, v_discount_value, v_discount_reason,
+        tc.code, coalesce(tc.rate, 0)
+      from public.product pr
+      left join public.tax_classes tc
+        on tc.code = coalesce(pr.tax_class, (select default_tax_class from public.tax_settings))
+      where pr.prodcode = v_prodcode;
+    elsif v_existing.quantity is distinct from v_quantity
+      or (v_unit is not null and v_existing.unit is distinct from v_unit)
+      or v_existing.discount_type is distinct from v_discount_type
+      or v_existing.discount_value is distinct from v_discount_value
+      or v_existing.discount_reason is distinct from v_discount_reason then
+      -- The price charged stays as written; only "reprice_sale" changes it
+      update public.salesdetail
+      set
+        quantity = v_quantity,
+        unit = coalesce(v_unit, unit),
+        discount_type = v_discount_type,
+        discount_value = v_discount_value,
+        discount_reason = v_discount_reason
+      where transno = v_transno and prodcode = v_prodcode;
+    end if;
+  end loop;
+
+  perform public.apply_sale_tax(v_transno);
+
+  return jsonb_build_object('ok', true, 'transno', v_transno, 'errors', '[]'::jsonb);
+end;
+$$;
+
+create or replace function public.import_sales(
+  p_sales jsonb,
+  p_dry_run boolean default true,
+  p_keep_numbers boolean default true
+) returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_perm public.user_permissions%rowtype;
+  v_sale jsonb;
+  v_line jsonb;
+  v_results jsonb := '[]'::jsonb;
+  v_errors jsonb;
+  v_lines jsonb;
+  v_ref text;
+  v_transno text;
+  v_salesdate date;
+  v_custno text;
+  v_empno text;
+  v_prodcode text;
+  v_quantity numeric;
+  v_unitprice numeric;
+  v_row int;
+  v_seen text[];
+  v_refs text[] := '{}';
+begin
+  if v_user_id is null then
+    return jsonb_build_object('ok', false, 'results', '[]'::jsonb, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You must be signed in to import sales')));
+  end if;
+
+  select * into v_perm from public.user_permissions where user_id = v_user_id;
+
+  if not found or not v_perm.can_add_sales
+    or not exists (select 1 from public.user_roles where user_id = v_user_id and role = 'admin') then
+    return jsonb_build_object('ok', false, 'results', '[]'::jsonb, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'Only administrators can import sales')));
+  end if;
+
+  if p_sales is null or jsonb_typeof(p_sales) <> 'array' then
+    return jsonb_build_object('ok', false, 'results', '[]'::jsonb, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'Nothing to import')));
+  end if;
+
+  for v_sale in select * from jsonb_array_elements(p_sales) loop
+    v_errors := '[]'::jsonb;
+    v_ref := nullif(btrim(v_sale->>'ref'), '');
+    v_row := nullif(v_sale->>'row', '')::int;
+    v_salesdate := nullif(v_sale->>'salesdate', '')::date;
+    v_custno := nullif(btrim(v_sale->>'custno'), '');
+    v_empno := nullif(btrim(v_sale->>'empno'), '');
+    v_lines := coalesce(v_sale->'lines', '[]'::jsonb);
+    v_seen := '{}';
+
+    -- Header
+    if v_ref is null then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'transno', 'message', 'Transaction number is required');
+    elsif v_ref = any(v_refs) then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'transno', 'message', 'Transaction ' || v_ref || ' appears more than once in this batch');
+    elsif p_keep_numbers and exists (select 1 from public.sales where transno = v_ref) then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'transno', 'message', 'Transaction ' || v_ref || ' already exists');
+    end if;
+
+    if v_salesdate is null then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'salesdate', 'message', 'Transaction date is required');
+    elsif v_salesdate > current_date then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'salesdate', 'message', 'Transaction date is in the future');
+    end if;
+
+    if v_custno is not null and not exists (select 1 from public.customer where custno = v_custno) then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'custno', 'message', 'Customer ' || v_custno || ' does not exist');
+    end if;
+
+    if v_empno is not null and not exists (select 1 from public.employee where empno = v_empno) then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'empno', 'message', 'Employee ' || v_empno || ' does not exist');
+    end if;
+
+    -- Lines
+    if jsonb_typeof(v_lines) <> 'array' or jsonb_array_length(v_lines) = 0 then
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'details', 'message', 'The sale has no product lines');
+    else
+      for v_line in select * from jsonb_array_elements(v_lines) loop
+        v_row := nullif(v_line->>'row', '')::int;
+        v_prodcode := nullif(btrim(v_line->>'prodcode'), '');
+        v_quantity := nullif(v_line->>'quantity', '')::numeric;
+        v_unitprice := coalesce(nullif(v_line->>'unitprice', '')::numeric, public.effective_unit_price(v_prodcode, v_salesdate));
+
+        if v_prodcode is null or not exists (select 1 from public.product where prodcode = v_prodcode) then
+          v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'prodcode', 'prodcode', v_prodcode,
+            'message', 'Product ' || coalesce(v_prodcode, '(blank)') || ' does not exist');
+        elsif v_prodcode = any(v_seen) then
+          v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is listed more than once on this sale');
+        elsif v_unitprice is null then
+          v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'unitprice', 'prodcode', v_prodcode, 'message', 'No price given and none in effect on the sale date');
+        end if;
+
+        if v_quantity is null or v_quantity <= 0 then
+          v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'quantity', 'prodcode', v_prodcode, 'message', 'Quantity must be greater than zero');
+        end if;
+
+        if v_unitprice < 0 then
+          v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'unitprice', 'prodcode', v_prodcode, 'message', 'Unit price cannot be negative');
+        end if;
+
+        v_seen := v_seen || v_prodcode;
+      end loop;
+    end if;
+
+    v_refs := v_refs || v_ref;
+    v_transno := null;
+
+    if jsonb_array_length(v_errors) = 0 and not p_dry_run then
+      v_transno := case when p_keep_numbers then v_ref else private.allocate_transaction_number('sales') end;
+
+      insert into public.sales (transno, salesdate, custno, empno, prices_include_tax, tax_exempt)
+      values (
+        v_transno, v_salesdate, v_custno, v_empno,
+        coalesce((select prices_include_tax from public.tax_settings), false), public.customer_tax_exempt(v_custno)
+      );
+
+      for v_line in select * from jsonb_array_elements(v_lines) loop
+        v_prodcode := btrim(v_line->>'prodcode');
+
+        insert into public.salesdetail (transno, prodcode, quantity, unitprice, unit, description, tax_class, tax_rate)
+        select
+          v_transno, pr.prodcode, (v_line->>'quantity')::numeric,
+          coalesce(nullif(v_line->>'unitprice', '')::numeric, public.effective_unit_price(pr.prodcode, v_salesdate)),
+          coalesce(nullif(btrim(v_line->>'unit'), ''), pr.unit), pr.description,
+          tc.code, coalesce(tc.rate, 0)
+        from public.product pr
+        left join public.tax_classes tc
+          on tc.code = coalesce(pr.tax_class, (select default_tax_class from public.tax_settings))
+        where pr.prodcode = v_prodcode;
+      end loop;
+
+      perform public.apply_sale_tax(v_transno);
+    end if;
+
+    v_results := v_results || jsonb_build_object(
+      'ref', v_ref,
+      'transno', v_transno,
+      'ok', jsonb_array_length(v_errors) = 0,
+      'errors', v_errors
+    );
+  end loop;
+
+  return jsonb_build_object('ok', true, 'results', v_results, 'errors', '[]'::jsonb);
+end;
+$$;
+
+create or replace function public.generate_due_sales(p_today date default current_date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_template public.sale_templates%rowtype;
+  v_run date;
+  v_transno text;
+  v_unpriced text;
+  v_created integer := 0;
+begin
+  if auth.uid() is not null
+    and not exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin') then
+    raise exception 'Only administrators can generate sales from templates' using errcode = '42501';
+  end if;
+
+  for v_template in
+    select * from public.sale_templates
+    where active and next_run <= p_today and (end_date is null or next_run <= end_date)
+    order by next_run, id
+    for update skip locked
+  loop
+    v_run := v_template.next_run;
+
+    while v_run <= p_today and (v_template.end_date is null or v_run <= v_template.end_date) loop
+      select string_agg(l.prodcode, ', ' order by l.prodcode) into v_unpriced
+      from public.sale_template_lines l
+      where l.template_id = v_template.id and public.effective_unit_price(l.prodcode, v_run) is null;
+
+      if v_unpriced is not null then
+        update public.sale_templates
+        set last_error = 'No price in effect on ' || v_run || ' for ' || v_unpriced, updated_at = now()
+        where id = v_template.id;
+        exit;
+      end if;
+
+      if not exists (select 1 from public.sale_template_lines where template_id = v_template.id) then
+        update public.sale_templates
+        set last_error = 'The template has no products', updated_at = now()
+        where id = v_template.id;
+        exit;
+      end if;
+
+      v_transno := private.allocate_transaction_number('sales');
+
+      insert into public.sales (transno, salesdate, custno, empno, prices_include_tax, tax_exempt, template_id)
+      values (
+        v_transno, v_run, v_template.custno, v_template.empno,
+        coalesce((select prices_include_tax from public.tax_settings), false),
+        public.customer_tax_exempt(v_template.custno), v_template.id
+      );
+
+      insert into public.salesdetail (transno, prodcode, quantity, unitprice, unit, description, tax_class, tax_rate)
+      select
+        v_transno, pr.prodcode, l.quantity, public.effective_unit_price(pr.prodcode, v_run),
+        pr.unit, pr.description, tc.code, coalesce(tc.rate, 0)
+      from public.sale_template_lines l
+      join public.product pr on pr.prodcode = l.prodcode
+      left join public.tax_classes tc
+        on tc.code = coalesce(pr.tax_class, (select default_tax_class from public.tax_settings))
+      where l.template_id = v_template.id;
+
+      perform public.apply_sale_tax(v_transno);
+
+      v_created := v_created + 1;
+      v_template.generated_count := v_template.generated_count + 1;
+      v_run := public.sale_template_occurrence(v_template.frequency, v_template.start_date, v_template.generated_count);
+
+      update public.sale_templates
+      set generated_count = v_template.generated_count,
+          next_run = v_run,
+          last_error = null,
+          updated_at = now()
+      where id = v_template.id;
+    end loop;
+  end loop;
+
+  return v_created;
+end;
+$$;
+
+create or replace function public.create_credit_memo(
+  p_transno text,
+  p_lines jsonb,
+  p_reason text default null,
+  p_memo_date date default current_date
+) returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_perm public.user_permissions%rowtype;
+  v_item public.sales_line_items%rowtype;
+  v_errors jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_prodcode text;
+  v_quantity numeric;
+  v_returned numeric;
+  v_net numeric;
+  v_tax numeric;
+  v_seen text[] := '{}';
+  v_memo_no text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('ok', false, 'memo_no', null, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You must be signed in to record a return')));
+  end if;
+
+  select * into v_perm from public.user_permissions where user_id = v_user_id;
+
+  if not found or not v_perm.can_edit_sales then
+    return jsonb_build_object('ok', false, 'memo_no', null, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You don''t have permission to record returns')));
+  end if;
+
+  perform 1 from public.sales where transno = p_transno and deleted_at is null for update;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'memo_no', null, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'transno', 'message', 'Transaction ' || p_transno || ' no longer exists')));
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'Choose at least one product to return');
+  else
+    for v_line in select * from jsonb_array_elements(p_lines) loop
+      v_prodcode := v_line->>'prodcode';
+      v_quantity := nullif(v_line->>'quantity', '')::numeric;
+
+      select * into v_item from public.sales_line_items where transno = p_transno and prodcode = v_prodcode;
+
+      if not found then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is not on the original sale');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is listed more than once');
+      elsif v_quantity is null or v_quantity <= 0 then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'Return quantity must be greater than zero');
+      else
+        v_returned := public.returned_quantity(p_transno, v_prodcode);
+
+        if v_quantity > coalesce(v_item.quantity, 0) - v_returned then
+          v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message',
+            'Only ' || (coalesce(v_item.quantity, 0) - v_returned) || ' left to return');
+        end if;
+      end if;
+
+      v_seen := v_seen || v_prodcode;
+    end loop;
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('ok', false, 'memo_no', null, 'errors', v_errors);
+  end if;
+
+  v_memo_no := private.allocate_transaction_number('credit_memo');
+
+  insert into public.credit_memos (memo_no, transno, memo_date, reason, created_by)
+  values (v_memo_no, p_transno, coalesce(p_memo_date, current_date), nullif(btrim(p_reason), ''), v_user_id);
+
+  for v_line in select * from jsonb_array_elements(p_lines) loop
+    v_prodcode := v_line->>'prodcode';
+    v_quantity := (v_line->>'quantity')::numeric;
+
+    select * into v_item from public.sales_line_items where transno = p_transno and prodcode = v_prodcode;
+    v_returned := public.returned_quantity(p_transno, v_prodcode);
+
+    if v_quantity = v_item.quantity - v_returned then
+      select
+        v_item.amount_excl_tax - coalesce(sum(l.net_amount), 0),
+        v_item.tax_amount - coalesce(sum(l.tax_amount), 0)
+      into v_net, v_tax
+      from public.credit_memo_lines l
+      join public.credit_memos m on m.memo_no = l.memo_no
+      where m.transno = p_transno and l.prodcode = v_prodcode;
+    else
+      v_net := round(v_item.amount_excl_tax * v_quantity / v_item.quantity, 2);
+      v_tax := round(v_item.tax_amount * v_quantity / v_item.quantity, 2);
+    end if;
+
+    insert into public.credit_memo_lines (memo_no, prodcode, quantity, description, unit, unitprice, net_amount, tax_amount)
+    values (v_memo_no, v_prodcode, v_quantity, v_item.description, v_item.unit, v_item.unitprice, v_net, v_tax);
+  end loop;
+
+  return jsonb_build_object('ok', true, 'memo_no', v_memo_no, 'errors', '[]'::jsonb);
+end;
+$$;
+
+drop function if exists public.allocate_transaction_number(text);
+
+update public.transaction_number_series ns
+set next_value = greatest(ns.next_value, used.last_value + 1), updated_at = now()
+from (
+  select ns2.series, max(substring(t.transno from length(ns2.prefix) + 1)::bigint) as last_value
+  from public.transaction_number_series ns2
+  join (
+    select transno from public.sales
+    union all
+    select memo_no from public.credit_memos
+  ) t on t.transno ~ ('^' || ns2.prefix || '[0-9]{1,18}$')
+  group by ns2.series
+) used
+where used.series = ns.series;
+
+-- Prefixes are shown in every number, so keep them short and plain.
+alter table public.transaction_number_series
+  add constraint transaction_number_series_prefix_check check (prefix ~ '^[A-Za-z0-9-]{0,10}$');
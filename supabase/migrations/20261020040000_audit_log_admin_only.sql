@@ -0,0 +1,28 @@
+-- Only admins can read the audit log.
+--
+-- The log holds full snapshots of sales, customers, prices, roles and permissions, but
+-- any signed-in user could select from it over the API. The page and the sales audit
+-- dialog are already admin-only; this makes the table match. Whatever select policies
+-- the table had before are replaced, since they were created outside these migrations.
+
+alter table public.sales_audit_log enable row level security;
+
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select policyname from pg_policies
+    where schemaname = 'public' and tablename = 'sales_audit_log' and cmd in ('SELECT', 'ALL')
+  loop
+    execute format('drop policy %I on public.sales_audit_log', v_policy.policyname);
+  end loop;
+end;
+$$;
+
+create policy "Admins can read the audit log"
+  on public.sales_audit_log for select
+  to authenticated
+  using (exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin'));
+
+revoke select on public.sales_audit_log from anon;
@@ -0,0 +1,64 @@
+-- Tax-exempt customers on tax-inclusive prices pay the price less the tax it contains.
+--
+-- Their lines store no tax, so sales_line_items took the whole inclusive price as the
+-- amount excluding tax and charged it in full. The view now takes the contained tax out
+-- of both amount_excl_tax and amount_incl_tax for them; totals, the dashboard and credit
+-- memos all read these columns. calculateSaleTotals in the app does the same.
+
+-- amount is the line's share of the sale's total after discounts, in the sale's price
+-- mode. amount_excl_tax and amount_incl_tax split it into net and gross; a tax-exempt
+-- customer on tax-inclusive prices pays the net only.
+create or replace view public.sales_line_items
+with (security_invoker = true) as
+with priced as (
+  select
+    d.*,
+    coalesce(d.quantity, 0) * coalesce(d.unitprice, 0) as gross_amount,
+    public.discount_amount(coalesce(d.quantity, 0) * coalesce(d.unitprice, 0), d.discount_type, d.discount_value) as line_discount_amount
+  from public.salesdetail d
+),
+subtotals as (
+  select p.*, sum(p.gross_amount - p.line_discount_amount) over (partition by p.transno) as subtotal
+  from priced p
+),
+discounted as (
+  select
+    t.*,
+    s.prices_include_tax,
+    s.tax_exempt,
+    t.gross_amount - t.line_discount_amount - case
+      when t.subtotal > 0 then round(
+        public.discount_amount(t.subtotal, s.discount_type, s.discount_value)
+          * (t.gross_amount - t.line_discount_amount) / t.subtotal, 2)
+      else 0
+    end as amount
+  from subtotals t
+  join public.sales s on s.transno = t.transno
+)
+select
+  x.transno,
+  x.prodcode,
+  x.quantity,
+  x.description,
+  x.unit,
+  x.unitprice,
+  x.discount_type,
+  x.discount_value,
+  x.discount_reason,
+  x.gross_amount,
+  x.line_discount_amount,
+  x.gross_amount - x.line_discount_amount as net_amount,
+  x.amount,
+  x.tax_class,
+  x.tax_rate,
+  x.tax_amount,
+  case when x.prices_include_tax then x.amount - x.included_tax else x.amount end as amount_excl_tax,
+  case when x.prices_include_tax then x.amount - x.included_tax + x.tax_amount else x.amount + x.tax_amount end as amount_incl_tax,
+  x.deleted_at
+from (
+  select
+    d.*,
+    -- Tax contained in the price; the stored tax_amount is 0 for an exempt customer
+    case when d.tax_exempt then public.tax_amount(d.amount, d.tax_rate, true) else d.tax_amount end as included_tax
+  from discounted d
+) x;
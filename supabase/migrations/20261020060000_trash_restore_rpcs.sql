@@ -0,0 +1,81 @@
+-- Moving a sale to the recycle bin and back goes through RPCs.
+--
+-- The app used to update sales and salesdetail one after the other with a deleted_by it
+-- sent itself, so a failure between the two left the lines out of step with the header
+-- and any user could be recorded as the one who deleted. trash_sale and restore_sale do
+-- both tables in one transaction, as the caller, with deleted_by from auth.uid().
+--
+-- A sale with credit memos stays where it is: the returns are booked against it and the
+-- memos would otherwise point at a sale nobody can see.
+
+create or replace function public.trash_sale(p_transno text)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_sale public.sales%rowtype;
+  v_deleted_at timestamptz := now();
+begin
+  if not exists (select 1 from public.user_permissions where user_id = v_user_id and can_delete_sales) then
+    raise exception 'You don''t have permission to delete sales transactions' using errcode = '42501';
+  end if;
+
+  select * into v_sale from public.sales where transno = p_transno and deleted_at is null for update;
+
+  if not found then
+    raise exception 'Transaction % does not exist', p_transno using errcode = 'P0002';
+  end if;
+
+  if exists (select 1 from public.credit_memos where transno = p_transno) then
+    raise exception 'Transaction % has returns recorded against it and cannot be deleted', p_transno
+      using errcode = '55000';
+  end if;
+
+  update public.salesdetail
+  set deleted_at = v_deleted_at, deleted_by = v_user_id
+  where transno = p_transno and deleted_at is null;
+
+  update public.sales
+  set deleted_at = v_deleted_at, deleted_by = v_user_id
+  where transno = p_transno;
+end;
+$$;
+
+create or replace function public.restore_sale(p_transno text)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales%rowtype;
+begin
+  if not exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin') then
+    raise exception 'Only administrators can restore a transaction' using errcode = '42501';
+  end if;
+
+  select * into v_sale from public.sales where transno = p_transno for update;
+
+  if not found then
+    raise exception 'Transaction % does not exist', p_transno using errcode = 'P0002';
+  end if;
+
+  if v_sale.deleted_at is null then
+    raise exception 'Transaction % is not in the recycle bin', p_transno using errcode = '55000';
+  end if;
+
+  update public.sales
+  set deleted_at = null, deleted_by = null
+  where transno = p_transno;
+
+  update public.salesdetail
+  set deleted_at = null, deleted_by = null
+  where transno = p_transno and deleted_at is not null;
+end;
+$$;
+
+grant execute on function public.trash_sale(text) to authenticated;
+grant execute on function public.restore_sale(text) to authenticated;
@@ -0,0 +1,92 @@
+-- A sale's line amounts add up to its total.
+--
+-- Each line's share of the order discount was rounded to the cent on its own, so the
+-- shares could miss the order discount by a cent or two and the lines, the dashboard
+-- and credit memos no longer added up to total_price. The last line by product code now
+-- takes the rounding difference. calculateSaleTotals in the app does the same, and the
+-- stored tax of every sale is recomputed from the corrected amounts.
+
+-- amount is the line's share of the sale's total after discounts, in the sale's price
+-- mode. amount_excl_tax and amount_incl_tax split it into net and gross; a tax-exempt
+-- customer on tax-inclusive prices pays the net only.
+create or replace view public.sales_line_items
+with (security_invoker = true) as
+with priced as (
+  select
+    d.*,
+    coalesce(d.quantity, 0) * coalesce(d.unitprice, 0) as gross_amount,
+    public.discount_amount(coalesce(d.quantity, 0) * coalesce(d.unitprice, 0), d.discount_type, d.discount_value) as line_discount_amount
+  from public.salesdetail d
+),
+subtotals as (
+  select
+    p.*,
+    sum(p.gross_amount - p.line_discount_amount) over (partition by p.transno) as subtotal,
+    row_number() over (partition by p.transno order by p.prodcode collate "C" desc) as position_from_last
+  from priced p
+),
+shares as (
+  select
+    t.*,
+    s.prices_include_tax,
+    s.tax_exempt,
+    public.discount_amount(t.subtotal, s.discount_type, s.discount_value) as order_discount_amount,
+    case
+      when t.subtotal > 0 then round(
+        public.discount_amount(t.subtotal, s.discount_type, s.discount_value)
+          * (t.gross_amount - t.line_discount_amount) / t.subtotal, 2)
+      else 0
+    end as order_discount_share
+  from subtotals t
+  join public.sales s on s.transno = t.transno
+),
+discounted as (
+  -- Rounding each share can leave the shares a cent or two off the order discount; the
+  -- last line by product code takes the difference so the lines add up to the sale
+  select
+    h.*,
+    h.gross_amount - h.line_discount_amount - h.order_discount_share - case
+      when h.position_from_last = 1 and h.subtotal > 0
+        then h.order_discount_amount - sum(h.order_discount_share) over (partition by h.transno)
+      else 0
+    end as amount
+  from shares h
+)
+select
+  x.transno,
+  x.prodcode,
+  x.quantity,
+  x.description,
+  x.unit,
+  x.unitprice,
+  x.discount_type,
+  x.discount_value,
+  x.discount_reason,
+  x.gross_amount,
+  x.line_discount_amount,
+  x.gross_amount - x.line_discount_amount as net_amount,
+  x.amount,
+  x.tax_class,
+  x.tax_rate,
+  x.tax_amount,
+  case when x.prices_include_tax then x.amount - x.included_tax else x.amount end as amount_excl_tax,
+  case when x.prices_include_tax then x.amount - x.included_tax + x.tax_amount else x.amount + x.tax_amount end as amount_incl_tax,
+  x.deleted_at
+from (
+  select
+    d.*,
+    -- Tax contained in the price; the stored tax_amount is 0 for an exempt customer
+    case when d.tax_exempt then public.tax_amount(d.amount, d.tax_rate, true) else d.tax_amount end as included_tax
+  from discounted d
+) x;
+
+-- Lines whose amount moved by the rounding difference carry a stale stored tax
+do $$
+declare
+  v_transno text;
+begin
+  for v_transno in select transno from public.sales where discount_type is not null loop
+    perform public.apply_sale_tax(v_transno);
+  end loop;
+end;
+$$;
@@ -0,0 +1,57 @@
+-- Bulk reassignment of sales to another customer or salesperson goes through an RPC.
+--
+-- The sales list used to update sales from the browser with the tax exemption it sent
+-- itself, then recompute each sale's tax in a separate request. reassign_sales checks
+-- the caller may edit sales, validates the new customer and salesperson, takes the
+-- exemption from the customer and recomputes the tax of every sale in one transaction.
+
+create or replace function public.reassign_sales(
+  p_transnos text[],
+  p_changes jsonb
+) returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_custno text := nullif(p_changes ->> 'custno', '');
+  v_empno text := nullif(p_changes ->> 'empno', '');
+  v_transno text;
+begin
+  if not exists (select 1 from public.user_permissions where user_id = auth.uid() and can_edit_sales) then
+    raise exception 'You don''t have permission to edit sales transactions' using errcode = '42501';
+  end if;
+
+  if not (p_changes ? 'custno' or p_changes ? 'empno') then
+    raise exception 'Nothing to change' using errcode = '22023';
+  end if;
+
+  if p_changes ? 'custno' and v_custno is not null
+     and not exists (select 1 from public.customer where custno = v_custno) then
+    raise exception 'Customer % does not exist', v_custno using errcode = 'P0002';
+  end if;
+
+  if p_changes ? 'empno' and v_empno is not null
+     and not exists (select 1 from public.employee where empno = v_empno) then
+    raise exception 'Employee % does not exist', v_empno using errcode = 'P0002';
+  end if;
+
+  for v_transno in
+    select s.transno from public.sales s
+    where s.transno = any(p_transnos) and s.deleted_at is null
+    order by s.transno
+    for update
+  loop
+    update public.sales
+    set
+      custno = case when p_changes ? 'custno' then v_custno else custno end,
+      tax_exempt = case when p_changes ? 'custno' then public.customer_tax_exempt(v_custno) else tax_exempt end,
+      empno = case when p_changes ? 'empno' then v_empno else empno end
+    where transno = v_transno;
+
+    perform public.apply_sale_tax(v_transno);
+  end loop;
+end;
+$$;
+
+grant execute on function public.reassign_sales(text[], jsonb) to authenticated;
@@ -0,0 +1,128 @@
+-- Credit memos can only be created through create_credit_memo.
+--
+-- Users who could edit sales were also allowed to insert memo headers and lines
+-- directly, which skipped the RPC's caps on returned quantities and amounts. The insert
+-- policies are gone and clients can no longer insert into either table;
+-- create_credit_memo now runs as its owner and keeps its own permission check.
+--
+-- A return quantity that is not a number is reported as a field error instead of
+-- failing the whole call with a cast error.
+
+drop policy if exists "Users who can edit sales can create credit memos" on public.credit_memos;
+drop policy if exists "Users who can edit sales can create credit memo lines" on public.credit_memo_lines;
+
+revoke insert, update, delete on public.credit_memos from anon, authenticated;
+revoke insert, update, delete on public.credit_memo_lines from anon, authenticated;
+
+create or replace function public.create_credit_memo(
+  p_transno text,
+  p_lines jsonb,
+  p_reason text default null,
+  p_memo_date date default current_date
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_perm public.user_permissions%rowtype;
+  v_item public.sales_line_items%rowtype;
+  v_errors jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_prodcode text;
+  v_quantity numeric;
+  v_returned numeric;
+  v_net numeric;
+  v_tax numeric;
+  v_seen text[] := '{}';
+  v_memo_no text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('ok', false, 'memo_no', null, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You must be signed in to record a return')));
+  end if;
+
+  select * into v_perm from public.user_permissions where user_id = v_user_id;
+
+  if not found or not v_perm.can_edit_sales then
+    return jsonb_build_object('ok', false, 'memo_no', null, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'form', 'message', 'You don''t have permission to record returns')));
+  end if;
+
+  perform 1 from public.sales where transno = p_transno and deleted_at is null for update;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'memo_no', null, 'errors', jsonb_build_array(
+      jsonb_build_object('field', 'transno', 'message', 'Transaction ' || p_transno || ' no longer exists')));
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'details', 'message', 'Choose at least one product to return');
+  else
+    for v_line in select * from jsonb_array_elements(p_lines) loop
+      v_prodcode := v_line->>'prodcode';
+      v_quantity := public.to_numeric_or_null(v_line->>'quantity');
+
+      select * into v_item from public.sales_line_items where transno = p_transno and prodcode = v_prodcode;
+
+      if not found then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is not on the original sale');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', 'prodcode', 'prodcode', v_prodcode, 'message', 'Product is listed more than once');
+      elsif nullif(btrim(v_line->>'quantity'), '') is not null and v_quantity is null then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'Quantity must be a number');
+      elsif v_quantity is null or v_quantity <= 0 then
+        v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message', 'Return quantity must be greater than zero');
+      else
+        v_returned := public.returned_quantity(p_transno, v_prodcode);
+
+        if v_quantity > coalesce(v_item.quantity, 0) - v_returned then
+          v_errors := v_errors || jsonb_build_object('field', 'quantity', 'prodcode', v_prodcode, 'message',
+            'Only ' || (coalesce(v_item.quantity, 0) - v_returned) || ' left to return');
+        end if;
+      end if;
+
+      v_seen := v_seen || v_prodcode;
+    end loop;
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('ok', false, 'memo_no', null, 'errors', v_errors);
+  end if;
+
+  v_memo_no := private.allocate_transaction_number('credit_memo');
+
+  insert into public.credit_memos (memo_no, transno, memo_date, reason, created_by)
+  values (v_memo_no, p_transno, coalesce(p_memo_date, current_date), nullif(btrim(p_reason), ''), v_user_id);
+
+  for v_line in select * from jsonb_array_elements(p_lines) loop
+    v_prodcode := v_line->>'prodcode';
+    v_quantity := public.to_numeric_or_null(v_line->>'quantity');
+
+    select * into v_item from public.sales_line_items where transno = p_transno and prodcode = v_prodcode;
+    v_returned := public.returned_quantity(p_transno, v_prodcode);
+
+    if v_quantity = v_item.quantity - v_returned then
+      select
+        v_item.amount_excl_tax - coalesce(sum(l.net_amount), 0),
+        v_item.tax_amount - coalesce(sum(l.tax_amount), 0)
+      into v_net, v_tax
+      from public.credit_memo_lines l
+      join public.credit_memos m on m.memo_no = l.memo_no
+      where m.transno = p_transno and l.prodcode = v_prodcode;
+    else
+      v_net := round(v_item.amount_excl_tax * v_quantity / v_item.quantity, 2);
+      v_tax := round(v_item.tax_amount * v_quantity / v_item.quantity, 2);
+    end if;
+
+    insert into public.credit_memo_lines (memo_no, prodcode, quantity, description, unit, unitprice, net_amount, tax_amount)
+    values (v_memo_no, v_prodcode, v_quantity, v_item.description, v_item.unit, v_item.unitprice, v_net, v_tax);
+  end loop;
+
+  return jsonb_build_object('ok', true, 'memo_no', v_memo_no, 'errors', '[]'::jsonb);
+end;
+$$;
+
+revoke execute on function public.create_credit_memo(text, jsonb, text, date) from public, anon;
+grant execute on function public.create_credit_memo(text, jsonb, text, date) to authenticated;
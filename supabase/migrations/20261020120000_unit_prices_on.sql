@@ -0,0 +1,20 @@
+-- Prices in effect on a date, one row per product.
+--
+-- The sales form paged through every price history row up to the date and kept the
+-- newest per product on the client, so the download grew with the whole history.
+-- unit_prices_on picks the same row effective_unit_price does, on the server.
+
+create or replace function public.unit_prices_on(p_on date)
+returns table (prodcode text, unitprice numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select distinct on (p.prodcode) p.prodcode, p.unitprice
+  from public.pricehist p
+  where p.effdate <= coalesce(p_on, current_date)
+  order by p.prodcode, p.effdate desc;
+$$;
+
+grant execute on function public.unit_prices_on(date) to authenticated;